@@ -0,0 +1,259 @@
+// Local stand-in for the Binance spot REST API used by BinanceService.
+// Verifies request signing the same way Binance does and answers with
+// Binance-shaped payloads, including its { code, msg } error bodies.
+//
+//   node mocks/binance-server.mjs
+//   VITE_BINANCE_API_URL=http://localhost:8081 npm run dev
+//
+// POST /__mock/error with { "code": -2010, "msg": "...", "status": 400 }
+// makes the next signed request fail with that payload.
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.MOCK_BINANCE_PORT || 8081);
+const API_KEY = process.env.MOCK_BINANCE_KEY || 'mock-key';
+const API_SECRET = process.env.MOCK_BINANCE_SECRET || 'mock-secret';
+
+const symbols = {
+  BTCUSDT: { base: 'BTC', quote: 'USDT', price: 60000, minQty: '0.00001000', maxQty: '9000.00000000', stepSize: '0.00001000', tickSize: '0.01000000', minNotional: '5.00000000' },
+  ETHUSDT: { base: 'ETH', quote: 'USDT', price: 3000, minQty: '0.00010000', maxQty: '9000.00000000', stepSize: '0.00010000', tickSize: '0.01000000', minNotional: '5.00000000' },
+  XRPUSDT: { base: 'XRP', quote: 'USDT', price: 0.6, minQty: '1.00000000', maxQty: '9000000.00000000', stepSize: '1.00000000', tickSize: '0.00010000', minNotional: '5.00000000' },
+  ETHBTC: { base: 'ETH', quote: 'BTC', price: 0.05, minQty: '0.00010000', maxQty: '100000.00000000', stepSize: '0.00010000', tickSize: '0.00001000', minNotional: '0.00010000' }
+};
+
+const balances = { USDT: 10000, BTC: 0.25, ETH: 2, XRP: 0 };
+const orders = new Map();
+let nextOrderId = 1;
+let injectedError = null;
+
+const error = (status, code, msg) => ({ status, body: { code, msg } });
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'X-MBX-APIKEY, Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = req => new Promise(resolve => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+});
+
+const isStepAligned = (value, step) => {
+  const ratio = value / parseFloat(step);
+  return Math.abs(ratio - Math.round(ratio)) < 1e-8;
+};
+
+// Binance signs the query string and the form body concatenated, minus the signature itself
+const authenticate = (req, query, body) => {
+  if (req.headers['x-mbx-apikey'] !== API_KEY) {
+    return error(401, -2015, 'Invalid API-key, IP, or permissions for action.');
+  }
+
+  const totalParams = `${query.replace(/&?signature=[^&]*/, '')}${body}`;
+  const params = new URLSearchParams(totalParams);
+  const signature = new URLSearchParams(query).get('signature') || new URLSearchParams(body).get('signature');
+  const expected = crypto.createHmac('sha256', API_SECRET).update(totalParams).digest('hex');
+  if (signature !== expected) {
+    return error(400, -1022, 'Signature for this request is not valid.');
+  }
+
+  const timestamp = Number(params.get('timestamp'));
+  const recvWindow = Number(params.get('recvWindow') || 5000);
+  if (!timestamp || Math.abs(Date.now() - timestamp) > recvWindow) {
+    return error(400, -1021, 'Timestamp for this request is outside of the recvWindow.');
+  }
+
+  return null;
+};
+
+const orderPayload = order => ({
+  symbol: order.symbol,
+  orderId: order.orderId,
+  clientOrderId: order.clientOrderId,
+  price: order.price.toFixed(8),
+  origQty: order.origQty.toFixed(8),
+  executedQty: order.executedQty.toFixed(8),
+  cummulativeQuoteQty: order.cummulativeQuoteQty.toFixed(8),
+  status: order.status,
+  type: order.type,
+  side: order.side,
+  time: order.time,
+  updateTime: order.updateTime,
+  transactTime: order.time
+});
+
+const placeOrder = params => {
+  const symbol = symbols[params.get('symbol')];
+  if (!symbol) return error(400, -1121, 'Invalid symbol.');
+
+  const side = params.get('side');
+  const type = params.get('type');
+  const quantity = parseFloat(params.get('quantity'));
+  if (!['BUY', 'SELL'].includes(side) || !['MARKET', 'LIMIT', 'LIMIT_MAKER'].includes(type) || !quantity) {
+    return error(400, -1102, 'Mandatory parameter was not sent, was empty/null, or malformed.');
+  }
+  if (quantity < parseFloat(symbol.minQty) || quantity > parseFloat(symbol.maxQty) || !isStepAligned(quantity, symbol.stepSize)) {
+    return error(400, -1013, 'Filter failure: LOT_SIZE');
+  }
+
+  const isLimit = type !== 'MARKET';
+  const price = isLimit ? parseFloat(params.get('price')) : symbol.price;
+  if (isLimit && (!price || !isStepAligned(price, symbol.tickSize))) {
+    return error(400, -1013, 'Filter failure: PRICE_FILTER');
+  }
+  if (quantity * price < parseFloat(symbol.minNotional)) {
+    return error(400, -1013, 'Filter failure: NOTIONAL');
+  }
+
+  const cost = quantity * price;
+  if ((side === 'BUY' && (balances[symbol.quote] || 0) < cost) || (side === 'SELL' && (balances[symbol.base] || 0) < quantity)) {
+    return error(400, -2010, 'Account has insufficient balance for requested action.');
+  }
+
+  const now = Date.now();
+  const order = {
+    symbol: params.get('symbol'),
+    orderId: nextOrderId++,
+    clientOrderId: params.get('newClientOrderId') || crypto.randomUUID(),
+    price: isLimit ? price : 0,
+    origQty: quantity,
+    executedQty: 0,
+    cummulativeQuoteQty: 0,
+    status: 'NEW',
+    type,
+    side,
+    time: now,
+    updateTime: now
+  };
+
+  // Market orders fill immediately at the mock price; limit orders rest
+  if (type === 'MARKET') {
+    order.executedQty = quantity;
+    order.cummulativeQuoteQty = cost;
+    order.status = 'FILLED';
+    const sign = side === 'BUY' ? 1 : -1;
+    balances[symbol.base] = (balances[symbol.base] || 0) + sign * quantity;
+    balances[symbol.quote] = (balances[symbol.quote] || 0) - sign * cost;
+  }
+
+  orders.set(order.orderId, order);
+  return { status: 200, body: orderPayload(order) };
+};
+
+const findOrder = params => {
+  const order = orders.get(Number(params.get('orderId')));
+  return order && order.symbol === params.get('symbol') ? order : null;
+};
+
+const routes = {
+  'GET /api/v3/ping': () => ({ status: 200, body: {} }),
+  'GET /api/v3/time': () => ({ status: 200, body: { serverTime: Date.now() } }),
+  'GET /api/v3/exchangeInfo': () => ({
+    status: 200,
+    body: {
+      timezone: 'UTC',
+      serverTime: Date.now(),
+      symbols: Object.entries(symbols).map(([name, s]) => ({
+        symbol: name,
+        status: 'TRADING',
+        baseAsset: s.base,
+        quoteAsset: s.quote,
+        filters: [
+          { filterType: 'PRICE_FILTER', minPrice: s.tickSize, maxPrice: '1000000.00000000', tickSize: s.tickSize },
+          { filterType: 'LOT_SIZE', minQty: s.minQty, maxQty: s.maxQty, stepSize: s.stepSize },
+          { filterType: 'NOTIONAL', minNotional: s.minNotional, applyMinToMarket: true }
+        ]
+      }))
+    }
+  }),
+  'GET /api/v3/ticker/24hr': params => {
+    const symbol = symbols[params.get('symbol')];
+    if (!symbol) return error(400, -1121, 'Invalid symbol.');
+    return {
+      status: 200,
+      body: {
+        symbol: params.get('symbol'),
+        bidPrice: (symbol.price * 0.9995).toFixed(8),
+        askPrice: (symbol.price * 1.0005).toFixed(8),
+        lastPrice: symbol.price.toFixed(8),
+        volume: '1234.50000000',
+        priceChangePercent: '1.250'
+      }
+    };
+  },
+  'GET /api/v3/account': () => ({
+    status: 200,
+    body: {
+      canTrade: true,
+      balances: Object.entries(balances).map(([asset, free]) => ({ asset, free: free.toFixed(8), locked: '0.00000000' }))
+    }
+  }),
+  'POST /api/v3/order': placeOrder,
+  'GET /api/v3/order': params => {
+    const order = findOrder(params);
+    return order ? { status: 200, body: orderPayload(order) } : error(400, -2013, 'Order does not exist.');
+  },
+  'DELETE /api/v3/order': params => {
+    const order = findOrder(params);
+    if (!order || order.status !== 'NEW') return error(400, -2011, 'Unknown order sent.');
+    order.status = 'CANCELED';
+    order.updateTime = Date.now();
+    return { status: 200, body: orderPayload(order) };
+  },
+  'DELETE /api/v3/openOrders': params => {
+    const cancelled = [...orders.values()].filter(order => order.status === 'NEW' && order.symbol === params.get('symbol'));
+    cancelled.forEach(order => {
+      order.status = 'CANCELED';
+      order.updateTime = Date.now();
+    });
+    return { status: 200, body: cancelled.map(orderPayload) };
+  },
+  'GET /api/v3/openOrders': () => ({
+    status: 200,
+    body: [...orders.values()].filter(order => order.status === 'NEW').map(orderPayload)
+  })
+};
+
+const publicRoutes = new Set(['GET /api/v3/ping', 'GET /api/v3/time', 'GET /api/v3/exchangeInfo', 'GET /api/v3/ticker/24hr']);
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+
+  const [path, query = ''] = req.url.split('?');
+  const body = await readBody(req);
+
+  if (req.method === 'POST' && path === '/__mock/error') {
+    injectedError = JSON.parse(body || '{}');
+    return send(res, 200, { armed: true });
+  }
+
+  const routeKey = `${req.method} ${path}`;
+  const handler = routes[routeKey];
+  if (!handler) return send(res, 404, { code: -1000, msg: `Unknown endpoint ${routeKey}` });
+
+  if (!publicRoutes.has(routeKey)) {
+    const authError = authenticate(req, query, body);
+    if (authError) return send(res, authError.status, authError.body);
+
+    if (injectedError) {
+      const { status = 400, code = -1000, msg = 'An unknown error occurred while processing the request.' } = injectedError;
+      injectedError = null;
+      return send(res, status, { code, msg });
+    }
+  }
+
+  const { status, body: payload } = handler(new URLSearchParams(`${query}&${body}`));
+  console.log(`${routeKey} -> ${status}`);
+  send(res, status, payload);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Binance API listening on http://localhost:${PORT} (key: ${API_KEY})`);
+});
@@ -0,0 +1,732 @@
+// Local stand-in for the `kraken-api` Supabase edge function and the public
+// Kraken REST endpoints, so the dashboard can run with no network. It also
+// answers CoinGecko's simple price endpoint for the price oracle.
+//
+//   node mocks/kraken-api-server.mjs
+//   VITE_KRAKEN_API_URL=http://localhost:8082/kraken-api \
+//   VITE_KRAKEN_PUBLIC_URL=http://localhost:8082 \
+//   VITE_COINGECKO_API_URL=http://localhost:8082 \
+//   VITE_KRAKEN_WS_AUTH_URL=ws://localhost:8082/ws-auth npm run dev
+//
+// Like the real function, private actions need keys saved first through
+// saveCredentials (the API Keys dialog). There is no Supabase auth offline, so
+// any or no session token is accepted and one set of keys is kept.
+//
+// With VITE_KRAKEN_TRANSPORT=direct the same actions are reached through
+// Kraken's signed /0/private/* endpoints instead. Signatures are checked
+// against the secret from Kraken's authentication docs, MOCK_API_SECRET.
+//
+// The private WebSocket feed (ownTrades, openOrders) reflects everything done
+// through the REST actions. Resting orders only fill through POST /__mock/fill.
+//
+// Balances, orders, fills and ledger entries live in memory and reset on
+// restart; a few weeks of seeded fills make history paging visible. To exercise the
+// error handling, arm a Kraken error string for the next matching action:
+//
+//   curl -X POST localhost:8082/__mock/error \
+//     -d '{"error":"EOrder:Insufficient funds","action":"placeOrder","count":1}'
+//
+// With "after": true the action still runs and only its response is replaced,
+// like a timeout after Kraken accepted the order. "status" answers with that
+// HTTP status instead of a Kraken error, like a failed edge function:
+//
+//   curl -X POST localhost:8082/__mock/error \
+//     -d '{"status":502,"action":"placeOrder","after":true}'
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { acceptWebSocket } from './websocket.mjs';
+
+const PORT = Number(process.env.MOCK_KRAKEN_PORT || 8082);
+
+const pairs = {
+  XXBTZUSD: { altname: 'XBTUSD', wsname: 'XBT/USD', base: 'XXBT', quote: 'ZUSD', ordermin: '0.0001', costmin: '0.5', lot_decimals: 8, pair_decimals: 1, tick_size: '0.1', price: 60000 },
+  XETHZUSD: { altname: 'ETHUSD', wsname: 'ETH/USD', base: 'XETH', quote: 'ZUSD', ordermin: '0.002', costmin: '0.5', lot_decimals: 8, pair_decimals: 2, tick_size: '0.01', price: 3000 },
+  XXRPZUSD: { altname: 'XRPUSD', wsname: 'XRP/USD', base: 'XXRP', quote: 'ZUSD', ordermin: '10', costmin: '0.5', lot_decimals: 8, pair_decimals: 5, tick_size: '0.00001', price: 0.6 },
+  XLTCZUSD: { altname: 'LTCUSD', wsname: 'LTC/USD', base: 'XLTC', quote: 'ZUSD', ordermin: '0.05', costmin: '0.5', lot_decimals: 8, pair_decimals: 2, tick_size: '0.01', price: 100 },
+  ADAUSD: { altname: 'ADAUSD', wsname: 'ADA/USD', base: 'ADA', quote: 'ZUSD', ordermin: '15', costmin: '0.5', lot_decimals: 8, pair_decimals: 6, tick_size: '0.000001', price: 0.5 },
+  DOTUSD: { altname: 'DOTUSD', wsname: 'DOT/USD', base: 'DOT', quote: 'ZUSD', ordermin: '0.6', costmin: '0.5', lot_decimals: 8, pair_decimals: 4, tick_size: '0.0001', price: 7 },
+  XETHXXBT: { altname: 'ETHXBT', wsname: 'ETH/XBT', base: 'XETH', quote: 'XXBT', ordermin: '0.002', costmin: '0.00002', lot_decimals: 8, pair_decimals: 5, tick_size: '0.00001', price: 0.05 }
+};
+
+// One flat tier: orders that fill on arrival pay taker, resting ones maker
+const FEES = { taker: 0.0026, maker: 0.0016 };
+
+const balances = { ZUSD: 10000, XXBT: 0.25, XETH: 2, XXRP: 500, ADA: 0, DOT: 0 };
+const orders = new Map();
+const trades = [];
+const ledgers = [];
+const injectedErrors = [];
+const wsTokens = new Set();
+const privateClients = new Set();
+
+const coingeckoIds = { bitcoin: 'XXBTZUSD', ethereum: 'XETHZUSD', ripple: 'XXRPZUSD', litecoin: 'XLTCZUSD', cardano: 'ADAUSD', polkadot: 'DOTUSD' };
+
+const findPair = name => {
+  if (pairs[name]) return [name, pairs[name]];
+  return Object.entries(pairs).find(([, pair]) => pair.altname === name || pair.wsname === name) || [null, null];
+};
+
+const randomChunk = length => crypto.randomBytes(length).toString('base64').replace(/[^A-Z0-9]/gi, '').toUpperCase().padEnd(length, 'X').slice(0, length);
+
+const createTxid = (prefix = 'O') => `${prefix}${randomChunk(5)}-${randomChunk(5)}-${randomChunk(6)}`;
+
+// The example secret from Kraken's REST authentication docs; any key is accepted
+const MOCK_API_SECRET = 'kQH5HW/8p1uGOVjbgWA7FunAmGO8lsSUXNsu3eow76sz84Q18fWxnyRzBHCd3pd5nE9qa99HAZtuZuj6F1huXg==';
+
+// Kraken's private method names to the edge function actions below
+const privateMethods = {
+  Balance: 'getBalance',
+  BalanceEx: 'getBalanceEx',
+  TradeVolume: 'tradeVolume',
+  AddOrder: 'placeOrder',
+  EditOrder: 'editOrder',
+  CancelOrder: 'cancelOrder',
+  CancelAll: 'cancelAll',
+  CancelAllOrdersAfter: 'cancelAllOrdersAfter',
+  OpenOrders: 'openOrders',
+  ClosedOrders: 'closedOrders',
+  QueryOrders: 'queryOrders',
+  TradesHistory: 'tradesHistory',
+  Ledgers: 'ledgers',
+  GetWebSocketsToken: 'getWebSocketsToken'
+};
+
+const lastNonces = new Map();
+
+let storedCredentials = null;
+
+const ok = result => ({ error: [], result });
+const fail = message => ({ error: [message] });
+
+const orderInfo = order => ({
+  refid: null,
+  userref: order.userref ?? 0,
+  status: order.status,
+  opentm: order.opentm,
+  closetm: order.closetm,
+  starttm: 0,
+  expiretm: 0,
+  descr: {
+    pair: order.pair,
+    type: order.type,
+    ordertype: order.ordertype,
+    price: order.price,
+    price2: order.price2 || '0',
+    leverage: order.leverage || 'none',
+    order: order.descr,
+    close: ''
+  },
+  vol: order.vol,
+  vol_exec: order.vol_exec,
+  cost: order.cost,
+  fee: order.fee,
+  price: order.avgPrice,
+  misc: '',
+  oflags: order.oflags || ''
+});
+
+// Executes `volume` of an order (the remaining volume by default) at `price`
+const fill = (order, pair, price, volume = parseFloat(order.vol) - parseFloat(order.vol_exec), feeRate = FEES.taker) => {
+  const cost = volume * price;
+  const fee = cost * feeRate;
+  const sign = order.type === 'buy' ? 1 : -1;
+  const now = Date.now() / 1000;
+
+  balances[pair.base] = (balances[pair.base] || 0) + sign * volume;
+  balances[pair.quote] = (balances[pair.quote] || 0) - sign * cost - fee;
+
+  const executed = parseFloat(order.vol_exec) + volume;
+  const totalCost = parseFloat(order.cost) + cost;
+  order.vol_exec = executed.toFixed(8);
+  order.cost = totalCost.toFixed(5);
+  order.fee = (parseFloat(order.fee) + fee).toFixed(5);
+  order.avgPrice = (totalCost / executed).toFixed(pair.pair_decimals);
+
+  const trade = recordFill(order, pair, price, volume, now, feeRate);
+  pushPrivate('ownTrades', {
+    [trade.id]: {
+      ordertxid: order.txid,
+      postxid: createTxid('P'),
+      pair: pair.wsname,
+      time: now.toFixed(6),
+      type: order.type,
+      ordertype: order.ordertype,
+      price: trade.price,
+      cost: trade.cost,
+      fee: trade.fee,
+      vol: trade.vol,
+      margin: '0.00000'
+    }
+  });
+  pushPrivate('openOrders', { [order.txid]: { vol_exec: order.vol_exec, cost: order.cost, fee: order.fee, avg_price: order.avgPrice, userref: order.userref ?? 0 } });
+
+  if (executed >= parseFloat(order.vol) - 1e-12) {
+    order.status = 'closed';
+    order.closetm = now;
+    pushPrivate('openOrders', { [order.txid]: { status: 'closed', userref: order.userref ?? 0 } });
+  }
+};
+
+const closeOrder = (order, status = 'canceled') => {
+  order.status = status;
+  order.closetm = Date.now() / 1000;
+  pushPrivate('openOrders', { [order.txid]: { status, userref: order.userref ?? 0 } });
+};
+
+// Every fill produces one TradesHistory entry and a ledger entry per asset leg
+const recordFill = (order, pair, price, volume, time, feeRate = FEES.taker) => {
+  const cost = volume * price;
+  const fee = cost * feeRate;
+  const sign = order.type === 'buy' ? 1 : -1;
+  const tradeId = createTxid('T');
+  const refid = tradeId;
+
+  const trade = {
+    id: tradeId,
+    ordertxid: order.txid,
+    pair: Object.keys(pairs).find(name => pairs[name] === pair),
+    time,
+    type: order.type,
+    ordertype: order.ordertype,
+    price: price.toFixed(pair.pair_decimals),
+    cost: cost.toFixed(5),
+    fee: fee.toFixed(5),
+    vol: volume.toFixed(8),
+    margin: '0.00000',
+    misc: ''
+  };
+  trades.push(trade);
+
+  ledgers.push(
+    { id: createTxid('L'), refid, time, type: 'trade', subtype: '', aclass: 'currency', asset: pair.base, amount: (sign * volume).toFixed(8), fee: '0.00000000', balance: (balances[pair.base] || 0).toFixed(8) },
+    { id: createTxid('L'), refid, time, type: 'trade', subtype: '', aclass: 'currency', asset: pair.quote, amount: (-sign * cost).toFixed(5), fee: fee.toFixed(5), balance: (balances[pair.quote] || 0).toFixed(5) }
+  );
+  return trade;
+};
+
+const seedHistory = () => {
+  const pairNames = ['XXBTZUSD', 'XETHZUSD', 'XXRPZUSD'];
+  const now = Date.now() / 1000;
+  for (let i = 0; i < 120; i++) {
+    const pair = pairs[pairNames[i % pairNames.length]];
+    const order = { txid: createTxid(), type: i % 3 === 0 ? 'sell' : 'buy', ordertype: 'market', vol: (parseFloat(pair.ordermin) * (1 + (i % 5))).toString() };
+    recordFill(order, pair, pair.price * (0.9 + (i % 20) / 100), parseFloat(order.vol), now - (120 - i) * 3 * 3600);
+  }
+};
+
+// Kraken pages history newest first, 50 entries per call, with start/end exclusive
+const pageHistory = (entries, params, key) => {
+  const offset = Number(params.ofs || 0);
+  const start = Number(params.start || 0);
+  const end = Number(params.end || Infinity);
+  const matching = entries
+    .filter(entry => entry.time > start && entry.time < end)
+    .sort((a, b) => b.time - a.time);
+  return ok({
+    [key]: Object.fromEntries(matching.slice(offset, offset + 50).map(({ id, ...entry }) => [id, entry])),
+    count: matching.length
+  });
+};
+
+const matchesUserref = (order, params) => params.userref === undefined || Number(order.userref) === Number(params.userref);
+
+// Kraken reports times to the second, without milliseconds
+const toKrakenTime = date => date.toISOString().replace(/\.\d+Z$/, 'Z');
+
+let cancelAfterTimer = null;
+
+// Funds open orders have reserved: the quote plus taker fee for buys, the base for sells
+const heldBy = asset => [...orders.values()]
+  .filter(o => o.status === 'open')
+  .reduce((held, o) => {
+    const [, pair] = findPair(o.pair);
+    const remaining = parseFloat(o.vol) - parseFloat(o.vol_exec);
+    if (o.type === 'buy' && pair.quote === asset) return held + remaining * parseFloat(o.price || pair.price) * (1 + FEES.taker);
+    if (o.type === 'sell' && pair.base === asset) return held + remaining;
+    return held;
+  }, 0);
+
+const available = asset => (balances[asset] || 0) - heldBy(asset);
+
+const actions = {
+  getBalance: () => ok(Object.fromEntries(Object.entries(balances).map(([asset, amount]) => [asset, amount.toFixed(10)]))),
+
+  getBalanceEx: () => ok(Object.fromEntries(Object.entries(balances).map(([asset, amount]) => [asset, {
+    balance: amount.toFixed(10),
+    hold_trade: heldBy(asset).toFixed(10)
+  }]))),
+
+  placeOrder: params => {
+    const [pairName, pair] = findPair(params.pair);
+    if (!pair) return fail('EQuery:Unknown asset pair');
+
+    const volume = parseFloat(params.volume);
+    if (!['buy', 'sell'].includes(params.type) || !volume || volume <= 0) return fail('EGeneral:Invalid arguments');
+    if ((params.volume.split('.')[1] || '').length > pair.lot_decimals) return fail('EGeneral:Invalid arguments:volume');
+    if (volume < parseFloat(pair.ordermin)) return fail('EOrder:Order minimum not met');
+
+    const isMarket = params.ordertype === 'market';
+    const price = isMarket ? pair.price : parseFloat(params.price);
+    if (!isMarket && (!price || price <= 0)) return fail('EGeneral:Invalid arguments:price');
+    if (params.ordertype.endsWith('-limit') && !(parseFloat(params.price2) > 0)) return fail('EGeneral:Invalid arguments:price2');
+    if (params.timeinforce === 'GTD' && !(Number(params.expiretm) > Date.now() / 1000)) return fail('EGeneral:Invalid arguments:expiretm');
+    if (volume * price < parseFloat(pair.costmin)) return fail('EOrder:Cost minimum not met');
+
+    const cost = volume * price * (1 + FEES.taker);
+    if ((params.type === 'buy' && available(pair.quote) < cost) || (params.type === 'sell' && available(pair.base) < volume)) {
+      return fail('EOrder:Insufficient funds');
+    }
+
+    const priceDescr = params.price2 ? `${price} -> limit ${params.price2}` : `${price}`;
+    const descr = `${params.type} ${volume.toFixed(8)} ${pair.altname} @ ${isMarket ? 'market' : `${params.ordertype} ${priceDescr}`}${params.leverage ? ` with ${params.leverage} leverage` : ''}`;
+    const order = {
+      txid: createTxid(),
+      pair: pair.altname,
+      type: params.type,
+      ordertype: params.ordertype,
+      price: isMarket ? '0' : price.toString(),
+      price2: params.price2,
+      vol: volume.toFixed(8),
+      vol_exec: '0.00000000',
+      cost: '0.00000',
+      fee: '0.00000',
+      avgPrice: '0.00000',
+      status: 'open',
+      opentm: Date.now() / 1000,
+      closetm: undefined,
+      userref: params.userref,
+      oflags: params.oflags,
+      leverage: params.leverage,
+      descr
+    };
+
+    orders.set(order.txid, order);
+    pushPrivate('openOrders', { [order.txid]: orderInfo(order) });
+    if (isMarket) fill(order, pair, price);
+    console.log(`  ${pairName}: ${descr} -> ${order.status}`);
+
+    return ok({ descr: { order: descr }, txid: [order.txid] });
+  },
+
+  openOrders: params => ok({
+    open: Object.fromEntries([...orders.values()]
+      .filter(o => o.status === 'open' || o.status === 'pending')
+      .filter(o => matchesUserref(o, params))
+      .map(o => [o.txid, orderInfo(o)]))
+  }),
+
+  queryOrders: params => {
+    const txids = String(params.txid || '').split(',').filter(Boolean);
+    const found = txids.filter(txid => orders.has(txid));
+    if (txids.length > 0 && found.length === 0) return fail('EOrder:Unknown order');
+    return ok(Object.fromEntries(found.map(txid => [txid, orderInfo(orders.get(txid))])));
+  },
+
+  closedOrders: params => {
+    const offset = Number(params.ofs || 0);
+    const start = Number(params.start || 0);
+    const end = Number(params.end || Infinity);
+    const closed = [...orders.values()]
+      .filter(o => o.status !== 'open' && o.status !== 'pending')
+      .filter(o => o.closetm >= start && o.closetm <= end)
+      .filter(o => matchesUserref(o, params))
+      .sort((a, b) => b.closetm - a.closetm);
+    return ok({
+      closed: Object.fromEntries(closed.slice(offset, offset + 50).map(o => [o.txid, orderInfo(o)])),
+      count: closed.length
+    });
+  },
+
+  cancelAll: () => {
+    const open = [...orders.values()].filter(o => o.status === 'open');
+    open.forEach(o => closeOrder(o));
+    return ok({ count: open.length });
+  },
+
+  editOrder: params => {
+    const original = orders.get(params.txid);
+    if (!original) return fail('EOrder:Unknown order');
+    if (original.status !== 'open') return fail('EOrder:Invalid order');
+
+    const edited = {
+      ...original,
+      txid: createTxid(),
+      vol: params.volume ? parseFloat(params.volume).toFixed(8) : original.vol,
+      price: params.price || original.price,
+      price2: params.price2 || original.price2,
+      opentm: Date.now() / 1000
+    };
+    edited.descr = `${edited.type} ${edited.vol} ${edited.pair} @ ${edited.ordertype} ${edited.price}`;
+    closeOrder(original);
+    orders.set(edited.txid, edited);
+    pushPrivate('openOrders', { [edited.txid]: orderInfo(edited) });
+
+    return ok({
+      status: 'ok',
+      txid: edited.txid,
+      originaltxid: original.txid,
+      volume: edited.vol,
+      price: edited.price,
+      price2: edited.price2,
+      orders_cancelled: 1,
+      descr: { order: edited.descr }
+    });
+  },
+
+  getWebSocketsToken: () => {
+    const token = crypto.randomBytes(24).toString('base64');
+    wsTokens.add(token);
+    return ok({ token, expires: 900 });
+  },
+
+  tradesHistory: params => pageHistory(trades, params, 'trades'),
+
+  ledgers: params => {
+    const assets = params.asset && params.asset !== 'all' ? String(params.asset).split(',') : null;
+    const filtered = ledgers.filter(entry => (!assets || assets.includes(entry.asset)) && (!params.type || params.type === 'all' || entry.type === params.type));
+    return pageHistory(filtered, params, 'ledger');
+  },
+
+  // Dead man's switch: cancels every open order unless called again within `timeout` seconds
+  cancelAllOrdersAfter: params => {
+    const timeout = Number(params.timeout || 0);
+    const now = new Date();
+    clearTimeout(cancelAfterTimer);
+    cancelAfterTimer = null;
+    if (timeout > 0) {
+      cancelAfterTimer = setTimeout(() => {
+        const open = [...orders.values()].filter(o => o.status === 'open');
+        open.forEach(o => closeOrder(o));
+        console.log(`  dead man's switch fired, cancelled ${open.length} orders`);
+        cancelAfterTimer = null;
+      }, timeout * 1000);
+    }
+    return ok({ currentTime: toKrakenTime(now), triggerTime: timeout > 0 ? toKrakenTime(new Date(now.getTime() + timeout * 1000)) : '0' });
+  },
+
+  // Fees are percentages; the tier never changes here, whatever the volume
+  tradeVolume: params => {
+    const since = Date.now() / 1000 - 30 * 86400;
+    const volume = trades.filter(trade => trade.time > since).reduce((sum, trade) => sum + parseFloat(trade.cost), 0);
+    const requested = String(params.pair || '').split(',').filter(Boolean).map(name => findPair(name)[0]);
+    if (requested.includes(null)) return fail('EQuery:Unknown asset pair');
+    const tier = rate => ({ fee: (rate * 100).toFixed(4), minfee: '0.1000', maxfee: (rate * 100).toFixed(4), nextfee: null, nextvolume: null, tiervolume: '0.0000' });
+    return ok({
+      currency: 'ZUSD',
+      volume: volume.toFixed(4),
+      fees: Object.fromEntries(requested.map(name => [name, tier(FEES.taker)])),
+      fees_maker: Object.fromEntries(requested.map(name => [name, tier(FEES.maker)]))
+    });
+  },
+
+  cancelOrder: params => {
+    const order = orders.get(params.txid);
+    if (!order) return fail('EOrder:Unknown order');
+    if (order.status !== 'open') return ok({ count: 0 });
+    closeOrder(order);
+    return ok({ count: 1 });
+  }
+};
+
+const publicRoutes = {
+  '/0/public/Time': () => ok({ unixtime: Math.floor(Date.now() / 1000), rfc1123: new Date().toUTCString() }),
+
+  // CoinGecko quotes a touch off Kraken's and updates every half minute, like the real thing
+  '/api/v3/simple/price': query => {
+    const updatedAt = Math.floor(Date.now() / 30000) * 30;
+    return Object.fromEntries((query.get('ids') || '').split(',')
+      .filter(id => coingeckoIds[id])
+      .map(id => [id, { usd: +(pairs[coingeckoIds[id]].price * 1.001).toPrecision(8), last_updated_at: updatedAt }]));
+  },
+
+  '/0/public/AssetPairs': query => {
+    const requested = query.get('pair') ? query.get('pair').split(',') : Object.keys(pairs);
+    const result = {};
+    for (const name of requested) {
+      const [pairName, pair] = findPair(name);
+      if (!pair) return fail('EQuery:Unknown asset pair');
+      const { price, ...info } = pair;
+      result[pairName] = { status: 'online', ...info };
+    }
+    return ok(result);
+  },
+
+  '/0/public/Ticker': query => {
+    const requested = (query.get('pair') || Object.keys(pairs).join(',')).split(',');
+    const result = {};
+    for (const name of requested) {
+      const [pairName, pair] = findPair(name);
+      if (!pair) return fail('EQuery:Unknown asset pair');
+      const p = pair.price;
+      const fmt = value => value.toFixed(pair.pair_decimals);
+      result[pairName] = {
+        a: [fmt(p * 1.0002), '1', '1.000'],
+        b: [fmt(p * 0.9998), '1', '1.000'],
+        c: [fmt(p), '0.01000000'],
+        v: ['120.50000000', '2410.00000000'],
+        p: [fmt(p), fmt(p)],
+        t: [1200, 24100],
+        l: [fmt(p * 0.97), fmt(p * 0.96)],
+        h: [fmt(p * 1.03), fmt(p * 1.04)],
+        o: fmt(p * 0.985)
+      };
+    }
+    return ok(result);
+  },
+
+  '/0/public/OHLC': query => {
+    const [pairName, pair] = findPair(query.get('pair'));
+    if (!pair) return fail('EQuery:Unknown asset pair');
+    const interval = Number(query.get('interval') || 1) * 60;
+    const now = Math.floor(Date.now() / 1000 / interval) * interval;
+    const fmt = value => value.toFixed(pair.pair_decimals);
+    // Random walk backwards from the current price so the last close matches the ticker
+    const candles = [];
+    let close = pair.price;
+    for (let i = 0; i < 720; i++) {
+      const open = close * (1 + (Math.random() - 0.5) * 0.004);
+      const high = Math.max(open, close) * 1.001;
+      const low = Math.min(open, close) * 0.999;
+      candles.unshift([now - i * interval, fmt(open), fmt(high), fmt(low), fmt(close), fmt((open + close) / 2), (Math.random() * 20).toFixed(8), Math.floor(Math.random() * 200)]);
+      close = open;
+    }
+    return ok({ [pairName]: candles, last: now });
+  },
+
+  '/0/public/Depth': query => {
+    const [pairName, pair] = findPair(query.get('pair'));
+    if (!pair) return fail('EQuery:Unknown asset pair');
+    const count = Math.min(Number(query.get('count') || 100), 500);
+    const tick = parseFloat(pair.tick_size);
+    const now = Math.floor(Date.now() / 1000);
+    // Skew one side of the book so the imbalance moves around between calls
+    const bidWeight = 0.5 + Math.random();
+    const level = (offset, weight) => [
+      (pair.price + offset * tick * 10).toFixed(pair.pair_decimals),
+      (weight * parseFloat(pair.ordermin) * (10 + Math.random() * 90)).toFixed(8),
+      now
+    ];
+    return ok({
+      [pairName]: {
+        asks: Array.from({ length: count }, (_, i) => level(i + 1, 1)),
+        bids: Array.from({ length: count }, (_, i) => level(-(i + 1), bidWeight))
+      }
+    });
+  },
+
+  '/0/public/Trades': query => {
+    const [pairName, pair] = findPair(query.get('pair'));
+    if (!pair) return fail('EQuery:Unknown asset pair');
+    const now = Date.now() / 1000;
+    const recent = Array.from({ length: 100 }, (_, i) => [
+      (pair.price * (1 + (Math.random() - 0.5) * 0.004)).toFixed(pair.pair_decimals),
+      (parseFloat(pair.ordermin) * (1 + Math.random() * 20)).toFixed(8),
+      now - (100 - i) * 2,
+      Math.random() > 0.5 ? 'b' : 's',
+      Math.random() > 0.3 ? 'l' : 'm',
+      '',
+      i + 1
+    ]);
+    return ok({ [pairName]: recent, last: String(Math.floor(now * 1e9)) });
+  }
+};
+
+// Private feed, WebSocket v1 style: [[{ id: payload }], channelName, { sequence }]
+const pushPrivate = (channelName, entries) => {
+  privateClients.forEach(client => {
+    if (!client.subscriptions.has(channelName)) return;
+    client.sequences[channelName] = (client.sequences[channelName] || 0) + 1;
+    client.connection.send([[entries], channelName, { sequence: client.sequences[channelName] }]);
+  });
+};
+
+const handlePrivateMessage = (client, message) => {
+  if (message.event === 'ping') {
+    return client.connection.send({ event: 'pong', reqid: message.reqid });
+  }
+
+  const name = message.subscription?.name;
+  const status = (extra) => client.connection.send({ event: 'subscriptionStatus', channelName: name, subscription: { name }, reqid: message.reqid, ...extra });
+
+  if (message.event === 'unsubscribe') {
+    client.subscriptions.delete(name);
+    return status({ status: 'unsubscribed' });
+  }
+  if (message.event !== 'subscribe') return;
+
+  if (!['ownTrades', 'openOrders'].includes(name)) return status({ status: 'error', errorMessage: 'Subscription name invalid' });
+  if (!wsTokens.has(message.subscription.token)) return status({ status: 'error', errorMessage: 'EGeneral:Invalid arguments:token' });
+
+  client.subscriptions.add(name);
+  status({ status: 'subscribed' });
+
+  // openOrders always starts with a snapshot of the currently open orders
+  if (name === 'openOrders') {
+    client.sequences.openOrders = 1;
+    const open = [...orders.values()].filter(o => o.status === 'open' || o.status === 'pending');
+    client.connection.send([open.map(o => ({ [o.txid]: orderInfo(o) })), 'openOrders', { sequence: 1 }]);
+  }
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, api-key, api-sign',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = req => new Promise(resolve => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+});
+
+const takeInjectedError = action => {
+  const index = injectedErrors.findIndex(e => !e.action || e.action === action);
+  if (index === -1) return null;
+  const injected = injectedErrors[index];
+  injected.count -= 1;
+  if (injected.count <= 0) injectedErrors.splice(index, 1);
+  return injected;
+};
+
+const sendInjected = (res, injected) => {
+  if (injected.status) return send(res, injected.status, { message: 'Injected failure' });
+  send(res, 200, fail(injected.error));
+};
+
+const credentialStatus = () => ok(storedCredentials
+  ? { configured: true, keyHint: storedCredentials.keyHint, updatedAt: storedCredentials.updatedAt }
+  : { configured: false });
+
+// The edge function's own actions, for the keys it stores server-side
+const credentialActions = {
+  saveCredentials: params => {
+    if (!params.apiKey || !params.apiSecret) return fail('EGeneral:Invalid arguments:apiKey');
+    storedCredentials = { keyHint: String(params.apiKey).slice(-4), updatedAt: new Date().toISOString() };
+    return credentialStatus();
+  },
+  deleteCredentials: () => {
+    storedCredentials = null;
+    return ok({ configured: false });
+  },
+  credentialStatus
+};
+
+const runAction = (res, action, params) => {
+  const handler = actions[action];
+  console.log(`action ${action}`);
+  if (!handler) return send(res, 200, fail(`EGeneral:Unknown action ${action}`));
+
+  const injected = takeInjectedError(action);
+  if (injected && !injected.after) return sendInjected(res, injected);
+
+  const response = handler(params);
+  if (injected) return sendInjected(res, injected);
+  send(res, 200, response);
+};
+
+// API-Sign = HMAC-SHA512(path + SHA256(nonce + body)) keyed with the decoded secret
+const checkSignature = (req, path, body, nonce) => {
+  const digest = crypto.createHash('sha256').update(nonce + body).digest();
+  const expected = crypto.createHmac('sha512', Buffer.from(MOCK_API_SECRET, 'base64')).update(Buffer.concat([Buffer.from(path), digest])).digest('base64');
+  return req.headers['api-sign'] === expected;
+};
+
+const handlePrivateRest = (req, res, path, body) => {
+  const method = path.slice('/0/private/'.length);
+  const params = Object.fromEntries(new URLSearchParams(body));
+  const apiKey = req.headers['api-key'];
+  if (!apiKey) return send(res, 200, fail('EAPI:Invalid key'));
+  if (!checkSignature(req, path, body, params.nonce || '')) return send(res, 200, fail('EAPI:Invalid signature'));
+
+  const nonce = Number(params.nonce);
+  if (!(nonce > (lastNonces.get(apiKey) || 0))) return send(res, 200, fail('EAPI:Invalid nonce'));
+  lastNonces.set(apiKey, nonce);
+
+  if (!privateMethods[method]) return send(res, 200, fail('EGeneral:Unknown method'));
+  runAction(res, privateMethods[method], params);
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const body = await readBody(req);
+
+  if (req.method === 'POST' && url.pathname === '/__mock/error') {
+    const { error, status, action, count = 1, after = false } = JSON.parse(body || '{}');
+    if (!error && !status) return send(res, 400, { message: 'error or status is required' });
+    injectedErrors.push({ error, status, action, count, after });
+    return send(res, 200, { armed: injectedErrors.length });
+  }
+
+  // Fills part (or the rest) of a resting order at its limit price:
+  //   curl -X POST localhost:8082/__mock/fill -d '{"txid":"O...","volume":0.0005}'
+  if (req.method === 'POST' && url.pathname === '/__mock/fill') {
+    const { txid, volume } = JSON.parse(body || '{}');
+    const order = orders.get(txid);
+    if (!order || order.status !== 'open') return send(res, 400, { message: 'No open order with that txid' });
+    const [, pair] = findPair(order.pair);
+    const remaining = parseFloat(order.vol) - parseFloat(order.vol_exec);
+    fill(order, pair, parseFloat(order.price) || pair.price, Math.min(volume || remaining, remaining), FEES.maker);
+    return send(res, 200, orderInfo(order));
+  }
+
+  if (publicRoutes[url.pathname]) {
+    return send(res, 200, publicRoutes[url.pathname](url.searchParams));
+  }
+
+  if (req.method === 'POST' && url.pathname.startsWith('/0/private/')) {
+    return handlePrivateRest(req, res, url.pathname, body);
+  }
+
+  if (req.method !== 'POST' || url.pathname !== '/kraken-api') {
+    return send(res, 404, { message: `Unknown route ${req.method} ${url.pathname}` });
+  }
+
+  let params;
+  try {
+    params = JSON.parse(body || '{}');
+  } catch (error) {
+    return send(res, 400, { message: 'Invalid JSON body' });
+  }
+
+  if (credentialActions[params.action]) {
+    console.log(`action ${params.action}`);
+    return send(res, 200, credentialActions[params.action](params));
+  }
+  if (!storedCredentials && actions[params.action]) return send(res, 200, fail('ESession:No credentials'));
+  runAction(res, params.action, params);
+});
+
+server.on('upgrade', (req, socket) => {
+  if (!req.url.startsWith('/ws-auth')) return socket.destroy();
+
+  const client = { connection: null, subscriptions: new Set(), sequences: {} };
+  let heartbeat;
+  client.connection = acceptWebSocket(req, socket, {
+    onMessage: message => handlePrivateMessage(client, message),
+    onClose: () => {
+      clearInterval(heartbeat);
+      privateClients.delete(client);
+      console.log('private feed disconnected');
+    }
+  });
+  if (!client.connection) return;
+
+  privateClients.add(client);
+  console.log('private feed connected');
+  client.connection.send({ event: 'systemStatus', connectionID: Date.now(), status: 'online', version: 'mock' });
+  heartbeat = setInterval(() => client.connection.send({ event: 'heartbeat' }), 1000);
+});
+
+seedHistory();
+
+server.listen(PORT, () => {
+  console.log(`Mock kraken-api listening on http://localhost:${PORT}/kraken-api`);
+});
@@ -0,0 +1,147 @@
+// Local stand-in for Kraken's public WebSocket v2 feed. Answers subscribe and
+// unsubscribe requests the way Kraken does, then replays the recorded
+// messages for that channel and symbol from mocks/recordings/.
+//
+//   node mocks/kraken-ws-replay.mjs [recording.jsonl] [--loop]
+//   VITE_KRAKEN_WS_URL=ws://localhost:8083/v2 npm run dev
+//
+// Each recording line is { "at": <ms since start>, "message": <v2 message> }.
+// Two control endpoints exercise the client's recovery paths:
+//
+//   curl -X POST localhost:8083/__mock/drop      # close every connection
+//   curl -X POST localhost:8083/__mock/corrupt   # next book message gets a bad checksum
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { acceptWebSocket } from './websocket.mjs';
+
+const PORT = Number(process.env.MOCK_KRAKEN_WS_PORT || 8083);
+const args = process.argv.slice(2);
+const loop = args.includes('--loop');
+const recordingPath = args.find(arg => !arg.startsWith('--'))
+  || path.join(path.dirname(fileURLToPath(import.meta.url)), 'recordings', 'kraken-ws-v2.jsonl');
+
+const recording = fs.readFileSync(recordingPath, 'utf8')
+  .split('\n')
+  .filter(Boolean)
+  .map(line => JSON.parse(line));
+
+const clients = new Set();
+let corruptNextBook = false;
+
+const send = (client, message) => client.connection.send(message);
+
+const messagesFor = (channel, symbol) => recording.filter(({ message }) =>
+  message.channel === channel && message.data?.some(entry => entry.symbol === symbol));
+
+const replay = (client, channel, symbol) => {
+  const entries = messagesFor(channel, symbol);
+  if (entries.length === 0) return;
+
+  const key = `${channel}:${symbol}`;
+  const start = entries[0].at;
+  const duration = entries[entries.length - 1].at - start + 1000;
+  const timers = [];
+
+  const schedule = (round) => {
+    entries.forEach(({ at, message }) => {
+      timers.push(setTimeout(() => {
+        let outgoing = message;
+        if (channel === 'book' && message.type === 'update' && corruptNextBook) {
+          corruptNextBook = false;
+          outgoing = { ...message, data: message.data.map(entry => ({ ...entry, checksum: (entry.checksum + 1) >>> 0 })) };
+        }
+        send(client, outgoing);
+      }, round * duration + at - start));
+    });
+    if (loop) timers.push(setTimeout(() => schedule(round + 1), duration));
+  };
+
+  client.replays.set(key, timers);
+  schedule(0);
+};
+
+const stopReplay = (client, key) => {
+  (client.replays.get(key) || []).forEach(clearTimeout);
+  client.replays.delete(key);
+};
+
+const handleRequest = (client, request) => {
+  const { method, params = {}, req_id } = request;
+  const timeIn = new Date().toISOString();
+
+  if (method === 'ping') {
+    return send(client, { method: 'pong', req_id, time_in: timeIn, time_out: new Date().toISOString() });
+  }
+
+  if (method !== 'subscribe' && method !== 'unsubscribe') {
+    return send(client, { error: `Method not found`, method, req_id, success: false, time_in: timeIn, time_out: new Date().toISOString() });
+  }
+
+  for (const symbol of params.symbol || []) {
+    const key = `${params.channel}:${symbol}`;
+    const known = messagesFor(params.channel, symbol).length > 0;
+    send(client, {
+      method,
+      req_id,
+      success: known,
+      ...(known
+        ? { result: { channel: params.channel, symbol, ...(params.depth ? { depth: params.depth } : {}) } }
+        : { error: `Currency pair not supported ${symbol}` }),
+      time_in: timeIn,
+      time_out: new Date().toISOString()
+    });
+
+    stopReplay(client, key);
+    if (known && method === 'subscribe') replay(client, params.channel, symbol);
+  }
+};
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  if (req.method === 'POST' && req.url === '/__mock/drop') {
+    const count = clients.size;
+    clients.forEach(client => client.connection.drop());
+    res.end(JSON.stringify({ dropped: count }));
+    return;
+  }
+  if (req.method === 'POST' && req.url === '/__mock/corrupt') {
+    corruptNextBook = true;
+    res.end(JSON.stringify({ armed: true }));
+    return;
+  }
+  res.writeHead(426);
+  res.end('WebSocket upgrade required');
+});
+
+server.on('upgrade', (req, socket) => {
+  const client = { connection: null, replays: new Map() };
+  let heartbeat;
+
+  client.connection = acceptWebSocket(req, socket, {
+    onMessage: request => {
+      console.log(`${request.method} ${request.params?.channel || ''} ${(request.params?.symbol || []).join(',')}`);
+      handleRequest(client, request);
+    },
+    onClose: () => {
+      clearInterval(heartbeat);
+      [...client.replays.keys()].forEach(replayKey => stopReplay(client, replayKey));
+      if (clients.delete(client)) console.log(`client disconnected (${clients.size} open)`);
+    }
+  });
+  if (!client.connection) return;
+
+  clients.add(client);
+  console.log(`client connected (${clients.size} open)`);
+
+  send(client, { channel: 'status', type: 'update', data: [{ api_version: 'v2', connection_id: Date.now(), system: 'online', version: 'mock' }] });
+  heartbeat = setInterval(() => {
+    if (client.replays.size > 0) send(client, { channel: 'heartbeat' });
+  }, 1000);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Kraken WebSocket v2 replaying ${path.basename(recordingPath)} (${recording.length} messages) on ws://localhost:${PORT}/v2`);
+});
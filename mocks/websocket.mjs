@@ -0,0 +1,120 @@
+// Just enough of RFC 6455 for the mocks: the upgrade handshake and
+// unfragmented text frames, without pulling in a WebSocket dependency.
+
+import crypto from 'node:crypto';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const encodeFrame = (payload, opcode = 0x1) => {
+  const data = Buffer.from(payload);
+  let header;
+  if (data.length < 126) {
+    header = Buffer.from([0x80 | opcode, data.length]);
+  } else if (data.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+  return Buffer.concat([header, data]);
+};
+
+// Client frames are always masked; returns the complete frames found and what is left over
+const decodeFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (buffer.length < cursor + 4 + length) break;
+
+    const mask = buffer.subarray(cursor, cursor + 4);
+    const payload = Buffer.from(buffer.subarray(cursor + 4, cursor + 4 + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + 4 + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+/**
+ * Completes the upgrade for an http server 'upgrade' event. `onMessage`
+ * receives each parsed JSON message; the returned connection sends JSON.
+ */
+export const acceptWebSocket = (req, socket, { onMessage, onClose }) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return null;
+  }
+
+  const accept = crypto.createHash('sha1').update(`${key}${HANDSHAKE_GUID}`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  let buffer = Buffer.alloc(0);
+  let closed = false;
+  const connection = {
+    send: message => {
+      if (socket.writable) socket.write(encodeFrame(JSON.stringify(message)));
+    },
+    drop: () => socket.destroy()
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    onClose?.();
+  };
+
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffer, chunk]));
+    buffer = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(Buffer.alloc(0), 0x8));
+        close();
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(payload, 0xa));
+        continue;
+      }
+      if (opcode !== 0x1) continue;
+
+      let message;
+      try {
+        message = JSON.parse(payload.toString('utf8'));
+      } catch (error) {
+        connection.send({ error: 'Malformed request', success: false });
+        continue;
+      }
+      onMessage(message);
+    }
+  });
+  socket.on('close', close);
+  socket.on('error', close);
+
+  return connection;
+};
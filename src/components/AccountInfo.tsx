@@ -4,35 +4,32 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { RefreshCw, DollarSign } from 'lucide-react';
 import { useTradingContext } from '@/contexts/TradingContext';
-import { createKrakenService } from '@/services/krakenService';
+import { ExchangeBalance } from '@/services/exchangeAdapter';
+import { getAssetLabel } from '@/lib/assets';
+import { priceOracle } from '@/services/priceOracle';
+
+// Shown while not trading live
+const PAPER_BALANCE: ExchangeBalance = { ZUSD: '1000.00', XXBT: '0.05' };
 
 const AccountInfo: React.FC = () => {
-  const { apiKeys, isLiveMode } = useTradingContext();
-  const [balance, setBalance] = useState<any>({});
+  const { apiKeys, isLiveMode, getAdapter } = useTradingContext();
+  const [balance, setBalance] = useState<ExchangeBalance>({});
   const [totalUSD, setTotalUSD] = useState(0);
+  const [unpriced, setUnpriced] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
 
   const fetchBalance = async () => {
-    if (!apiKeys.kraken.key || !isLiveMode) {
-      setBalance({ ZUSD: '1000.00', XXBT: '0.05' });
-      setTotalUSD(3250);
-      return;
-    }
-    
     setLoading(true);
     try {
-      const krakenService = createKrakenService(apiKeys.kraken.key, apiKeys.kraken.secret);
-      const bal = await krakenService.getAccountBalance();
+      // The shared adapter keeps balance requests within the rate limit budget
+      const adapter = isLiveMode ? getAdapter('kraken') : null;
+      const bal: ExchangeBalance = adapter ? await adapter.getAccountBalance() : PAPER_BALANCE;
       setBalance(bal);
       
-      let total = 0;
-      Object.entries(bal).forEach(([currency, amount]) => {
-        const num = parseFloat(amount as string);
-        if (currency === 'ZUSD') total += num;
-        else if (currency === 'XXBT') total += num * 45000;
-        else if (currency === 'XETH') total += num * 2500;
-      });
+      const prices = await priceOracle.getPrices(Object.keys(bal));
+      const { total, unpriced: missing } = prices.valueBalances(bal);
       setTotalUSD(total);
+      setUnpriced(missing);
     } catch (error) {
       console.error('Balance fetch failed:', error);
     } finally {
@@ -63,15 +60,19 @@ const AccountInfo: React.FC = () => {
               ${totalUSD.toLocaleString()}
             </Badge>
           </div>
+          {unpriced.length > 0 && (
+            <p className="text-xs text-amber-400">
+              Excludes {unpriced.map(getAssetLabel).join(', ')} (no fresh price)
+            </p>
+          )}
           
           <div className="space-y-2">
             {Object.entries(balance).map(([currency, amount]) => {
               const num = parseFloat(amount as string);
               if (num < 0.001) return null;
-              const clean = currency.replace(/^[XZ]/, '');
               return (
                 <div key={currency} className="flex justify-between text-sm">
-                  <span className="text-slate-400">{clean}:</span>
+                  <span className="text-slate-400">{getAssetLabel(currency)}:</span>
                   <span className="text-white">{num.toFixed(4)}</span>
                 </div>
               );
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LogIn, LogOut, UserPlus } from 'lucide-react';
+import { toast } from '@/components/ui/use-toast';
+import { supabase } from '@/lib/supabase';
+import { createLogger } from '@/lib/logger';
+import { useSupabaseSession } from '@/hooks/use-session';
+
+const logError = createLogger('Account');
+
+// Kraken keys stored server-side belong to this account
+const AccountSignIn: React.FC = () => {
+  const session = useSupabaseSession();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const canSubmit = !!email.trim() && !!password && !isLoading;
+
+  const run = async (label: string, action: () => Promise<{ error: { message: string } | null }>) => {
+    setIsLoading(true);
+    try {
+      const { error } = await action();
+      if (error) {
+        logError('error', `${label} failed`, error.message);
+        toast({ title: `${label} Failed`, description: error.message, variant: 'destructive' });
+      } else {
+        logError('info', `${label} successful`);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignIn = () => run('Sign In', () => supabase.auth.signInWithPassword({ email: email.trim(), password }));
+
+  const handleSignUp = () => run('Sign Up', async () => {
+    const { data, error } = await supabase.auth.signUp({ email: email.trim(), password });
+    if (!error && !data.session) {
+      toast({ title: 'Check Your Email', description: 'Confirm your address, then sign in' });
+    }
+    return { error };
+  });
+
+  const handleSignOut = () => run('Sign Out', () => supabase.auth.signOut());
+
+  if (session) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-between pt-6">
+          <span className="text-sm">
+            Signed in as <span className="font-medium">{session.user.email}</span>
+          </span>
+          <Button variant="outline" size="sm" onClick={handleSignOut} disabled={isLoading}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Sign in to store Kraken keys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="account-email">Email</Label>
+          <Input id="account-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="account-password">Password</Label>
+          <Input id="account-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleSignIn} className="flex-1" disabled={!canSubmit}>
+            <LogIn className="w-4 h-4 mr-2" />
+            Sign In
+          </Button>
+          <Button onClick={handleSignUp} variant="outline" disabled={!canSubmit}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Create Account
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccountSignIn;
@@ -8,20 +8,37 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Key, TestTube, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
 import { useTradingContext } from '@/contexts/TradingContext';
+import { ExchangeId } from '@/services/exchangeAdapter';
+import { hasCredentials, requiresPassphrase, storesCredentialsServerSide } from '@/services/exchangeFactory';
+import AccountSignIn from './AccountSignIn';
 
 interface ApiKeyFormProps {
-  exchange: 'binance' | 'kucoin' | 'kraken';
+  exchange: ExchangeId;
 }
 
 const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ exchange }) => {
   const { apiKeys, updateApiKey, testConnection, clearApiKey } = useTradingContext();
-  const [key, setKey] = useState(apiKeys[exchange].key || '');
+  const serverSide = storesCredentialsServerSide(exchange);
+  // Server-side keys only leave a hint behind, which is not worth prefilling
+  const [key, setKey] = useState(serverSide ? '' : apiKeys[exchange].key || '');
   const [secret, setSecret] = useState(apiKeys[exchange].secret || '');
+  const [passphrase, setPassphrase] = useState(apiKeys[exchange].passphrase || '');
   const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const needsPassphrase = requiresPassphrase(exchange);
+  const canSave = !!key.trim() && !!secret.trim() && (!needsPassphrase || !!passphrase.trim()) && !isSaving;
 
-  const handleSave = () => {
-    if (key.trim() && secret.trim()) {
-      updateApiKey(exchange, key.trim(), secret.trim());
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      await updateApiKey(exchange, key.trim(), secret.trim(), needsPassphrase ? passphrase.trim() : undefined);
+      if (serverSide) {
+        setKey('');
+        setSecret('');
+      }
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -34,10 +51,11 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ exchange }) => {
     }
   };
 
-  const handleClear = () => {
-    clearApiKey(exchange);
+  const handleClear = async () => {
+    await clearApiKey(exchange);
     setKey('');
     setSecret('');
+    setPassphrase('');
   };
 
   const getStatusBadge = () => {
@@ -68,7 +86,7 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ exchange }) => {
             type="password"
             value={key}
             onChange={(e) => setKey(e.target.value)}
-            placeholder="Enter your API key"
+            placeholder={serverSide && apiKeys[exchange].key ? `Stored on the server (${apiKeys[exchange].key})` : 'Enter your API key'}
           />
         </div>
         <div className="space-y-2">
@@ -81,15 +99,27 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ exchange }) => {
             placeholder="Enter your API secret"
           />
         </div>
+        {needsPassphrase && (
+          <div className="space-y-2">
+            <Label htmlFor={`${exchange}-passphrase`}>API Passphrase</Label>
+            <Input
+              id={`${exchange}-passphrase`}
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Enter the passphrase set when creating the key"
+            />
+          </div>
+        )}
         <div className="flex gap-2">
-          <Button onClick={handleSave} className="flex-1" disabled={!key.trim() || !secret.trim()}>
+          <Button onClick={handleSave} className="flex-1" disabled={!canSave}>
             <Key className="w-4 h-4 mr-2" />
-            Save Keys
+            {isSaving ? 'Saving...' : 'Save Keys'}
           </Button>
           <Button 
             onClick={handleTest} 
             variant="outline" 
-            disabled={!apiKeys[exchange].key || !apiKeys[exchange].secret || isLoading}
+            disabled={!hasCredentials(exchange, apiKeys[exchange]) || isLoading}
           >
             <TestTube className="w-4 h-4 mr-2" />
             {isLoading ? 'Testing...' : 'Test'}
@@ -129,7 +159,8 @@ const ApiKeyManager: React.FC = () => {
             <TabsTrigger value="binance">Binance</TabsTrigger>
             <TabsTrigger value="kucoin">KuCoin</TabsTrigger>
           </TabsList>
-          <TabsContent value="kraken" className="mt-4">
+          <TabsContent value="kraken" className="mt-4 space-y-4">
+            {storesCredentialsServerSide('kraken') && <AccountSignIn />}
             <ApiKeyForm exchange="kraken" />
           </TabsContent>
           <TabsContent value="binance" className="mt-4">
@@ -142,7 +173,10 @@ const ApiKeyManager: React.FC = () => {
         <div className="mt-4 p-4 bg-muted rounded-lg">
           <p className="text-sm text-muted-foreground">
             <AlertCircle className="w-4 h-4 inline mr-1" />
-            Your API keys are stored locally in your browser. For security, ensure your keys have only trading permissions and no withdrawal access.
+            {storesCredentialsServerSide('kraken')
+              ? 'Kraken keys are stored encrypted on the server for your account; other keys are stored locally in your browser.'
+              : 'Your API keys are stored locally in your browser.'}
+            {' '}For security, ensure your keys have only trading permissions and no withdrawal access.
           </p>
         </div>
       </DialogContent>
@@ -1,100 +1,48 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { DollarSign, AlertTriangle, Bitcoin, Coins } from 'lucide-react';
 import { useTradingContext } from '@/contexts/TradingContext';
-import { createKrakenService } from '@/services/krakenService';
+import { getAssetLabel, getAssetName, toTicker } from '@/lib/assets';
+import { priceOracle } from '@/services/priceOracle';
 
 interface BudgetAllocation {
   currency: string;
   displayName: string;
   balance: number;
-  usdValue: number;
+  usdValue?: number; // Unset when there is no fresh price
   allocated: number;
   available: number;
   percentage: number;
   icon: React.ReactNode;
 }
 
-interface CryptoPrice {
-  [key: string]: number;
-}
+const getCurrencyIcon = (currency: string) => {
+  switch (toTicker(currency)) {
+    case 'BTC': return <Bitcoin className="h-4 w-4 text-orange-400" />;
+    case 'ETH': return <Coins className="h-4 w-4 text-blue-400" />;
+    case 'USD': return <DollarSign className="h-4 w-4 text-green-400" />;
+    default: return <Coins className="h-4 w-4 text-gray-400" />;
+  }
+};
 
 const BudgetManager: React.FC = () => {
-  const { apiKeys, isLiveMode } = useTradingContext();
+  const { isLiveMode, getAdapter } = useTradingContext();
   const [budgetAllocations, setBudgetAllocations] = useState<BudgetAllocation[]>([]);
   const [totalUsdValue, setTotalUsdValue] = useState(0);
   const [loading, setLoading] = useState(false);
-  const [cryptoPrices, setCryptoPrices] = useState<CryptoPrice>({});
 
-  // Fetch crypto prices from a public API
-  const fetchCryptoPrices = async () => {
-    try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=bitcoin,ethereum,ripple,litecoin,cardano,polkadot&vs_currencies=usd');
-      const data = await response.json();
-      
-      setCryptoPrices({
-        'XBT': data.bitcoin?.usd || 45000,
-        'XXBT': data.bitcoin?.usd || 45000,
-        'ETH': data.ethereum?.usd || 2500,
-        'XETH': data.ethereum?.usd || 2500,
-        'XRP': data.ripple?.usd || 0.6,
-        'XXRP': data.ripple?.usd || 0.6,
-        'LTC': data.litecoin?.usd || 100,
-        'XLTC': data.litecoin?.usd || 100,
-        'ADA': data.cardano?.usd || 0.5,
-        'DOT': data.polkadot?.usd || 7,
-        'USD': 1,
-        'ZUSD': 1
-      });
-    } catch (error) {
-      console.error('Failed to fetch crypto prices:', error);
-      // Fallback prices
-      setCryptoPrices({
-        'XBT': 45000, 'XXBT': 45000,
-        'ETH': 2500, 'XETH': 2500,
-        'XRP': 0.6, 'XXRP': 0.6,
-        'LTC': 100, 'XLTC': 100,
-        'ADA': 0.5, 'DOT': 7,
-        'USD': 1, 'ZUSD': 1
-      });
-    }
-  };
+  // Adapters are cached, so this only changes when live mode or the Kraken keys do
+  const adapter = isLiveMode ? getAdapter('kraken') : null;
 
-  const getCurrencyIcon = (currency: string) => {
-    const normalizedCurrency = currency.replace('X', '').replace('Z', '');
-    switch (normalizedCurrency) {
-      case 'BTC': return <Bitcoin className="h-4 w-4 text-orange-400" />;
-      case 'ETH': return <Coins className="h-4 w-4 text-blue-400" />;
-      case 'USD': return <DollarSign className="h-4 w-4 text-green-400" />;
-      default: return <Coins className="h-4 w-4 text-gray-400" />;
-    }
-  };
-
-  const getCurrencyDisplayName = (currency: string) => {
-    const normalizedCurrency = currency.replace('X', '').replace('Z', '');
-    const names: { [key: string]: string } = {
-      'BTC': 'Bitcoin',
-      'ETH': 'Ethereum',
-      'XRP': 'Ripple',
-      'LTC': 'Litecoin',
-      'ADA': 'Cardano',
-      'DOT': 'Polkadot',
-      'USD': 'US Dollar'
-    };
-    return names[normalizedCurrency] || normalizedCurrency;
-  };
-
-  const fetchBalances = async () => {
-    if (!apiKeys.kraken.key || !apiKeys.kraken.secret || !isLiveMode) return;
+  const fetchBalances = useCallback(async () => {
+    if (!adapter) return;
     
     setLoading(true);
     try {
-      await fetchCryptoPrices();
-      
-      const krakenService = createKrakenService(apiKeys.kraken.key, apiKeys.kraken.secret);
-      const balances = await krakenService.getAccountBalance();
+      const balances = await adapter.getAccountBalance();
+      const prices = await priceOracle.getPrices(Object.keys(balances));
       
       const allocations: BudgetAllocation[] = [];
       let totalUsd = 0;
@@ -103,19 +51,16 @@ const BudgetManager: React.FC = () => {
       Object.entries(balances).forEach(([currency, balance]) => {
         const numBalance = parseFloat(balance);
         if (numBalance > 0.0001) { // Show even small balances for crypto
-          const price = cryptoPrices[currency] || 1;
-          const usdValue = numBalance * price;
+          const price = prices.getPrice(currency);
+          const usdValue = price !== undefined ? numBalance * price : undefined;
           
           // Calculate allocation (reserve 20% for safety)
           const allocated = numBalance * 0.8;
           const available = numBalance - allocated;
           
-          const displayName = getCurrencyDisplayName(currency);
-          const normalizedCurrency = currency.replace('X', '').replace('Z', '');
-          
           allocations.push({
-            currency: normalizedCurrency,
-            displayName,
+            currency: getAssetLabel(currency),
+            displayName: getAssetName(currency),
             balance: numBalance,
             usdValue,
             allocated,
@@ -124,17 +69,17 @@ const BudgetManager: React.FC = () => {
             icon: getCurrencyIcon(currency)
           });
           
-          totalUsd += usdValue;
+          totalUsd += usdValue || 0;
         }
       });
       
       // Sort by USD value (largest first)
-      allocations.sort((a, b) => b.usdValue - a.usdValue);
+      allocations.sort((a, b) => (b.usdValue || 0) - (a.usdValue || 0));
       
       // Calculate percentages
       const allocationsWithPercentages = allocations.map(alloc => ({
         ...alloc,
-        percentage: totalUsd > 0 ? (alloc.usdValue / totalUsd) * 100 : 0
+        percentage: totalUsd > 0 ? ((alloc.usdValue || 0) / totalUsd) * 100 : 0
       }));
       
       setBudgetAllocations(allocationsWithPercentages);
@@ -144,13 +89,13 @@ const BudgetManager: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [adapter]);
 
   useEffect(() => {
     fetchBalances();
     const interval = setInterval(fetchBalances, 60000); // Update every minute
     return () => clearInterval(interval);
-  }, [apiKeys.kraken, isLiveMode]);
+  }, [fetchBalances]);
 
   const getTradeSize = (currency: string, percentage: number = 2): number => {
     const allocation = budgetAllocations.find(a => a.currency === currency);
@@ -213,9 +158,13 @@ const BudgetManager: React.FC = () => {
                     <span className="text-sm text-slate-400">
                       {allocation.percentage.toFixed(1)}%
                     </span>
-                    <p className="text-xs text-green-400">
-                      ${allocation.usdValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
-                    </p>
+                    {allocation.usdValue !== undefined ? (
+                      <p className="text-xs text-green-400">
+                        ${allocation.usdValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-amber-400">No fresh price</p>
+                    )}
                   </div>
                 </div>
                 <Progress 
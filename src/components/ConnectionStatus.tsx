@@ -2,6 +2,7 @@ import React from 'react';
 import { Badge } from '@/components/ui/badge';
 import { AlertCircle, CheckCircle, Clock } from 'lucide-react';
 import { useTradingContext } from '@/contexts/TradingContext';
+import { hasCredentials } from '@/services/exchangeFactory';
 
 interface ConnectionStatusProps {
   exchange: 'binance' | 'kucoin' | 'kraken';
@@ -11,7 +12,7 @@ interface ConnectionStatusProps {
 const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ exchange, showLabel = true }) => {
   const { apiKeys } = useTradingContext();
   const status = apiKeys[exchange].status;
-  const hasKeys = apiKeys[exchange].key && apiKeys[exchange].secret;
+  const hasKeys = hasCredentials(exchange, apiKeys[exchange]);
 
   const getStatusDisplay = () => {
     if (!hasKeys) {
@@ -22,7 +22,7 @@ const ErrorLogger: React.FC = () => {
 
   useEffect(() => {
     // Set up global error logging function
-    (window as any).logError = (type: 'error' | 'warning' | 'info', message: string, details?: string, source?: string) => {
+    window.logError = (type, message, details, source) => {
       const newLog: LogEntry = {
         id: `${Date.now()}-${Math.random()}`,
         timestamp: new Date(),
@@ -36,10 +36,10 @@ const ErrorLogger: React.FC = () => {
     };
 
     // Log initial message
-    (window as any).logError('info', 'Error logging system initialized', 'Ready to capture trading errors');
+    window.logError('info', 'Error logging system initialized', 'Ready to capture trading errors');
 
     return () => {
-      delete (window as any).logError;
+      delete window.logError;
     };
   }, []);
 
@@ -69,7 +69,7 @@ const ErrorLogger: React.FC = () => {
 
   const clearLogs = () => {
     setLogs([]);
-    (window as any).logError('info', 'Error logs cleared');
+    window.logError?.('info', 'Error logs cleared');
   };
 
   const exportLogs = () => {
@@ -1,11 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { AlertTriangle, Play, Pause, TrendingUp, CheckCircle, XCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Play, Pause, TrendingUp, CheckCircle, XCircle, Ban, ShieldAlert } from 'lucide-react';
 import { useTradingContext } from '@/contexts/TradingContext';
 import { toast } from '@/components/ui/use-toast';
+import { createLogger } from '@/lib/logger';
+import { ExchangeErrorType, ExchangeOrder } from '@/services/exchangeAdapter';
+import { DEAD_MAN_TIMEOUTS, DeadManSwitchStatus, KrakenDeadManSwitch, loadDeadManTimeout, saveDeadManTimeout } from '@/services/deadManSwitch';
+import { krakenStream, StreamStatus } from '@/services/krakenStream';
+import { marketData } from '@/services/marketData';
+import { realisedPnl } from '@/services/pnl';
+import { getStrategySignal, StrategyType } from '@/services/strategySignals';
+
+type LiveTradeStatus = 'pending' | 'open' | 'partial' | 'filled' | 'canceled' | 'expired' | 'failed';
 
 interface LiveTrade {
   id: string;
@@ -14,30 +24,98 @@ interface LiveTrade {
   side: 'buy' | 'sell';
   amount: number;
   price: number;
-  status: 'pending' | 'filled' | 'failed' | 'adjusted';
+  status: LiveTradeStatus;
   timestamp: Date;
-  profit?: number;
+  orderIds: string[];
+  filledAmount: number;
+  fee: number; // Quote currency, across all fills of the order
   error?: string;
 }
 
+const ORDER_POLL_INTERVAL = 5000;
+const STRATEGY_PAIRS = ['BTC/USD', 'ETH/USD', 'XRP/USD'];
+const STRATEGY_ORDER_USD = 50;
+// Failures no later signal can succeed past, so the engine stops instead of retrying every tick
+const ENGINE_HALTING_ERRORS: ExchangeErrorType[] = ['auth', 'permission', 'lockout'];
+
+const DEAD_MAN_LABELS: Record<DeadManSwitchStatus['state'], string> = {
+  disarmed: 'Disarmed',
+  armed: 'Armed',
+  failing: 'Heartbeat failing',
+  lapsing: 'Lapsing'
+};
+
+const logError = createLogger('Live Trading Engine');
+
+const isTracked = (trade: LiveTrade) => trade.orderIds.length > 0 && ['pending', 'open', 'partial'].includes(trade.status);
+
+const toTradeStatus = (order: Pick<ExchangeOrder, 'status' | 'filledVolume'>): LiveTradeStatus => {
+  switch (order.status) {
+    case 'closed': return 'filled';
+    case 'canceled': return 'canceled';
+    case 'expired': return 'expired';
+    case 'open': return order.filledVolume > 0 ? 'partial' : 'open';
+    default: return 'pending';
+  }
+};
+
 const LiveTradingEngine: React.FC = () => {
-  const { isLiveMode, apiKeys, executeValidatedTrade } = useTradingContext();
+  const { isLiveMode, apiKeys, executeValidatedTrade, getAdapter, krakenPrivateStream } = useTradingContext();
+  const [privateStreamStatus, setPrivateStreamStatus] = useState<StreamStatus>('idle');
   const [isEngineRunning, setIsEngineRunning] = useState(false);
   const [liveTrades, setLiveTrades] = useState<LiveTrade[]>([]);
-  const [totalProfit, setTotalProfit] = useState(0);
+  const [deadManTimeout, setDeadManTimeout] = useState(loadDeadManTimeout);
+  const [deadManStatus, setDeadManStatus] = useState<DeadManSwitchStatus>({ state: 'disarmed', timeout: deadManTimeout });
+  const deadManSwitch = useRef<KrakenDeadManSwitch | null>(null);
   const [activeStrategies, setActiveStrategies] = useState({
     scalping: false,
     arbitrage: false,
     momentum: false
   });
 
-  const logError = (type: 'error' | 'warning' | 'info', message: string, details?: string) => {
-    if (typeof window !== 'undefined' && (window as any).logError) {
-      (window as any).logError(type, message, details, 'Live Trading Engine');
+  // Cached per credentials, so this only changes when the Kraken keys do
+  const krakenAdapter = getAdapter('kraken');
+
+  const refreshTrackedOrders = useCallback(async (trades: LiveTrade[]) => {
+    if (!krakenAdapter) return;
+
+    const updates = new Map<string, ExchangeOrder>();
+    for (const trade of trades.filter(isTracked)) {
+      try {
+        const order = await krakenAdapter.getOrder(trade.orderIds[0]);
+        if (order) updates.set(trade.id, order);
+      } catch (error) {
+        logError('warning', `Failed to refresh order ${trade.orderIds[0]}`, error instanceof Error ? error.message : 'Unknown error');
+      }
     }
-  };
+    if (updates.size === 0) return;
 
-  const executeKrakenTrade = async (pair: string, side: 'buy' | 'sell', volume: number) => {
+    setLiveTrades(prev => prev.map(trade => {
+      const order = updates.get(trade.id);
+      if (!order) return trade;
+
+      const status = toTradeStatus(order);
+      if (status !== trade.status) {
+        logError('info', `Order ${order.id} is now ${status}`, `${order.filledVolume}/${order.volume} filled`);
+      }
+      return {
+        ...trade,
+        status,
+        filledAmount: order.filledVolume,
+        price: order.averagePrice ?? order.price ?? trade.price,
+        fee: order.fee ?? trade.fee
+      };
+    }));
+  }, [krakenAdapter]);
+
+  const haltEngine = useCallback((reason: string, remedy = 'Fix the API key and restart the engine') => {
+    setIsEngineRunning(false);
+    setActiveStrategies({ scalping: false, arbitrage: false, momentum: false });
+    logError('error', 'Live trading engine stopped', reason);
+    toast({ title: 'Live Trading Halted', description: `${reason}. ${remedy}.`, variant: 'destructive' });
+  }, []);
+
+  const executeKrakenTrade = useCallback(async (pair: string, side: 'buy' | 'sell', volume: number, strategy?: StrategyType) => {
     const tradeId = `trade_${Date.now()}`;
     const newTrade: LiveTrade = {
       id: tradeId,
@@ -47,29 +125,41 @@ const LiveTradingEngine: React.FC = () => {
       amount: volume,
       price: 0,
       status: 'pending',
-      timestamp: new Date()
+      timestamp: new Date(),
+      orderIds: [],
+      filledAmount: 0,
+      fee: 0
     };
     
     setLiveTrades(prev => [newTrade, ...prev]);
     logError('info', `Executing ${side} trade: ${volume} ${pair}`);
     
     try {
-      const success = await executeValidatedTrade('kraken', pair, side, volume);
+      const result = await executeValidatedTrade('kraken', pair, side, volume, { type: 'market', strategy });
       
       setLiveTrades(prev => prev.map(trade => 
         trade.id === tradeId 
           ? { 
               ...trade, 
-              status: success ? 'filled' : 'failed', 
-              profit: success ? Math.random() * 20 - 10 : undefined 
+              status: result.success ? 'open' : 'failed',
+              amount: result.adjustedVolume ?? trade.amount,
+              orderIds: result.orderIds,
+              error: result.error
             }
           : trade
       ));
       
-      if (success) {
-        logError('info', `Trade executed successfully: ${side} ${volume} ${pair}`);
+      if (result.success) {
+        logError('info', `Order accepted: ${side} ${volume} ${pair}`, `Order IDs: ${result.orderIds.join(', ')}`);
+        // Streamed updates can beat the order response, so catch up on anything already missed
+        await refreshTrackedOrders([{ ...newTrade, status: 'open', orderIds: result.orderIds }]);
+      } else if (result.errorType && ENGINE_HALTING_ERRORS.includes(result.errorType)) {
+        logError('error', `Trade failed: ${side} ${volume} ${pair}, stopping engine`, result.error);
+        haltEngine(result.error || 'Kraken rejected the API key', result.errorType === 'lockout' ? 'Restart the engine once the lockout has passed' : undefined);
       } else {
-        logError('error', `Trade failed: ${side} ${volume} ${pair}`);
+        // Rate limits and connection problems clear up on their own; the next signal tries again
+        const transient = result.errorType === 'rateLimit' || result.errorType === 'transport';
+        logError(transient ? 'warning' : 'error', `Trade failed: ${side} ${volume} ${pair}`, result.error);
       }
       
     } catch (error) {
@@ -82,6 +172,36 @@ const LiveTradingEngine: React.FC = () => {
           : trade
       ));
     }
+  }, [executeValidatedTrade, refreshTrackedOrders, haltEngine]);
+
+  const cancelTrade = async (trade: LiveTrade) => {
+    const adapter = getAdapter('kraken');
+    if (!adapter) return;
+
+    try {
+      const cancelled = await adapter.cancelOrder(trade.orderIds[0]);
+      logError('info', `Cancel ${cancelled ? 'accepted' : 'not needed'} for order ${trade.orderIds[0]}`);
+      await refreshTrackedOrders([trade]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('error', `Failed to cancel order ${trade.orderIds[0]}`, errorMessage);
+      toast({ title: 'Cancel Failed', description: errorMessage, variant: 'destructive' });
+    }
+  };
+
+  const cancelAllOrders = async () => {
+    const adapter = getAdapter('kraken');
+    if (!adapter) return;
+
+    try {
+      const count = await adapter.cancelAllOrders();
+      toast({ title: 'Orders Cancelled', description: `${count} open orders cancelled` });
+      await refreshTrackedOrders(liveTrades);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('error', 'Failed to cancel all orders', errorMessage);
+      toast({ title: 'Cancel Failed', description: errorMessage, variant: 'destructive' });
+    }
   };
 
   const toggleStrategy = (strategy: keyof typeof activeStrategies) => {
@@ -119,45 +239,128 @@ const LiveTradingEngine: React.FC = () => {
     toast({ title: 'Live Trading Started', description: 'Engine is now executing trades' });
   };
 
-  const stopEngine = () => {
-    setIsEngineRunning(false);
+  // Only a deliberate stop disarms the switch; halts and unmounts leave it to cancel resting orders.
+  // The switch is torn down once disarmed, so its last status still reaches the badge.
+  const stopEngine = async () => {
     setActiveStrategies({ scalping: false, arbitrage: false, momentum: false });
+    await deadManSwitch.current?.disarm();
+    setIsEngineRunning(false);
     logError('info', 'Live trading engine stopped');
     toast({ title: 'Live Trading Stopped', description: 'All strategies deactivated' });
   };
 
+  const updateDeadManTimeout = (timeout: number) => {
+    setDeadManTimeout(timeout);
+    saveDeadManTimeout(timeout);
+    logError('info', `Dead man's switch timeout set to ${timeout}s`);
+  };
+
+  // Kraken cancels every open order if this tab stops refreshing the timer
+  useEffect(() => {
+    if (!isEngineRunning || !isLiveMode || !krakenAdapter?.cancelAllOrdersAfter) return;
+
+    const dms = new KrakenDeadManSwitch(krakenAdapter, deadManTimeout);
+    deadManSwitch.current = dms;
+    const offChange = dms.onChange(setDeadManStatus);
+    dms.start();
+    return () => {
+      dms.release();
+      offChange();
+      if (deadManSwitch.current === dms) deadManSwitch.current = null;
+    };
+  }, [isEngineRunning, isLiveMode, deadManTimeout, krakenAdapter]);
+
   useEffect(() => {
     if (!isEngineRunning || !isLiveMode) return;
     
-    const interval = setInterval(() => {
+    const interval = setInterval(async () => {
       const strategies = Object.entries(activeStrategies).filter(([_, active]) => active);
       if (strategies.length === 0) return;
       
-      // Convert pair format for Kraken
-      const pairs = ['BTC/USD', 'ETH/USD', 'XRP/USD'];
-      const randomPair = pairs[Math.floor(Math.random() * pairs.length)];
-      const randomSide = Math.random() > 0.5 ? 'buy' : 'sell';
-      const randomVolume = Math.random() * 0.01 + 0.005;
-      
-      // Only execute trades occasionally to avoid spam
-      if (Math.random() > 0.7) {
-        executeKrakenTrade(randomPair, randomSide, randomVolume);
+      for (const [strategy] of strategies) {
+        const pair = STRATEGY_PAIRS[Math.floor(Math.random() * STRATEGY_PAIRS.length)];
+        try {
+          const signal = await getStrategySignal(strategy as StrategyType, marketData, pair);
+          if (!signal) continue;
+
+          logError('info', `${strategy} signal: ${signal.side} ${pair}`, signal.reason);
+          executeKrakenTrade(pair, signal.side, STRATEGY_ORDER_USD / signal.price, signal.strategy);
+        } catch (error) {
+          logError('warning', `${strategy} signal failed for ${pair}`, error instanceof Error ? error.message : 'Unknown error');
+        }
       }
     }, 20000); // Increased interval to 20 seconds
     
     return () => clearInterval(interval);
-  }, [isEngineRunning, activeStrategies, isLiveMode]);
+  }, [isEngineRunning, activeStrategies, isLiveMode, executeKrakenTrade]);
+
+  // Keep streamed books live for the scalping signal while it can trade
+  useEffect(() => {
+    if (!isEngineRunning || !isLiveMode || !activeStrategies.scalping) return;
+
+    const unsubscribes = STRATEGY_PAIRS.map(pair => krakenStream.subscribeBook(pair, () => {}));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [isEngineRunning, isLiveMode, activeStrategies.scalping]);
 
   useEffect(() => {
-    const profit = liveTrades.reduce((sum, trade) => sum + (trade.profit || 0), 0);
-    setTotalProfit(profit);
+    if (!krakenPrivateStream) return;
+
+    const offStatus = krakenPrivateStream.onStatus(setPrivateStreamStatus);
+    const offOrders = krakenPrivateStream.onOrderUpdate(update => {
+      setLiveTrades(prev => prev.map(trade => {
+        if (!trade.orderIds.includes(update.orderId)) return trade;
+
+        const filledAmount = update.filledVolume ?? trade.filledAmount;
+        const status = update.status
+          ? toTradeStatus({ status: update.status, filledVolume: filledAmount })
+          : filledAmount > 0 && trade.status === 'open' ? 'partial' : trade.status;
+        if (status !== trade.status) {
+          logError('info', `Order ${update.orderId} is now ${status}`, `${filledAmount}/${trade.amount} filled`);
+        }
+        return { ...trade, status, filledAmount, price: update.averagePrice ?? trade.price, fee: update.fee ?? trade.fee };
+      }));
+    });
+
+    return () => {
+      offStatus();
+      offOrders();
+      setPrivateStreamStatus('idle');
+    };
+  }, [krakenPrivateStream]);
+
+  // The poll reads the latest trades when it fires, so trade updates don't restart its interval
+  const liveTradesRef = useRef(liveTrades);
+  useEffect(() => {
+    liveTradesRef.current = liveTrades;
   }, [liveTrades]);
+  const hasTrackedTrades = liveTrades.some(isTracked);
+
+  // Polling is only the fallback for when the private feed is down
+  useEffect(() => {
+    if (privateStreamStatus === 'open' || !hasTrackedTrades) return;
+
+    const interval = setInterval(() => refreshTrackedOrders(liveTradesRef.current), ORDER_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasTrackedTrades, privateStreamStatus, refreshTrackedOrders]);
+
+  // Sells realise P&L against the engine's own earlier buys; open positions are not marked to market
+  const tradeProfits = useMemo(() => realisedPnl(
+    liveTrades
+      .filter(trade => trade.filledAmount > 0)
+      .reverse()
+      .map(trade => ({ id: trade.id, pair: trade.pair, side: trade.side, volume: trade.filledAmount, price: trade.price }))
+  ), [liveTrades]);
+  // Fees are a realised cost whether or not the position has been closed
+  const totalFees = liveTrades.reduce((sum, trade) => sum + trade.fee, 0);
+  const totalProfit = [...tradeProfits.values()].reduce((sum, profit) => sum + profit, 0) - totalFees;
 
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'filled': return <CheckCircle className="h-4 w-4 text-green-400" />;
       case 'failed': return <XCircle className="h-4 w-4 text-red-400" />;
-      case 'adjusted': return <AlertTriangle className="h-4 w-4 text-yellow-400" />;
+      case 'canceled':
+      case 'expired': return <Ban className="h-4 w-4 text-slate-400" />;
+      case 'partial': return <AlertTriangle className="h-4 w-4 text-yellow-400" />;
       default: return <div className="w-4 h-4 bg-blue-400 rounded-full animate-pulse" />;
     }
   };
@@ -190,13 +393,45 @@ const LiveTradingEngine: React.FC = () => {
               </div>
             </div>
             <div className="text-right">
-              <p className="text-sm text-slate-400">Total P&L</p>
+              <p className="text-sm text-slate-400">Realised P&L</p>
               <p className={`text-lg font-bold ${totalProfit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
                 ${totalProfit.toFixed(2)}
               </p>
+              <p className="text-xs text-slate-400">after ${totalFees.toFixed(2)} fees</p>
             </div>
           </div>
           
+          <div className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4 text-slate-400" />
+              <span className="text-slate-300 text-sm">Dead man's switch</span>
+              <Badge
+                variant={deadManStatus.state === 'armed' ? 'default' : deadManStatus.state === 'disarmed' ? 'outline' : 'destructive'}
+                className="text-xs"
+                title={deadManStatus.error}
+              >
+                {DEAD_MAN_LABELS[deadManStatus.state]}
+              </Badge>
+              {deadManStatus.state !== 'disarmed' && deadManStatus.triggerTime && (
+                <span className="text-xs text-slate-400">
+                  Cancels all orders at {deadManStatus.triggerTime.toLocaleTimeString()} unless refreshed
+                </span>
+              )}
+            </div>
+            <Select value={String(deadManTimeout)} onValueChange={value => updateDeadManTimeout(Number(value))}>
+              <SelectTrigger className="w-28 bg-slate-700 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEAD_MAN_TIMEOUTS.map(timeout => (
+                  <SelectItem key={timeout} value={String(timeout)}>
+                    {timeout < 60 ? `${timeout}s` : `${timeout / 60}m`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="grid grid-cols-3 gap-4">
             {Object.entries(activeStrategies).map(([strategy, active]) => (
               <div key={strategy} className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
@@ -214,7 +449,17 @@ const LiveTradingEngine: React.FC = () => {
       
       <Card className="bg-slate-800/50 border-slate-700">
         <CardHeader>
-          <CardTitle className="text-white">Recent Live Trades</CardTitle>
+          <CardTitle className="text-white flex items-center justify-between">
+            Recent Live Trades
+            <Button
+              onClick={cancelAllOrders}
+              variant="outline"
+              size="sm"
+              disabled={!liveTrades.some(isTracked)}
+            >
+              Cancel All
+            </Button>
+          </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-3 max-h-96 overflow-y-auto">
@@ -232,10 +477,18 @@ const LiveTradingEngine: React.FC = () => {
                     <span className="text-xs text-slate-400">{trade.exchange}</span>
                   </div>
                   <div className="flex items-center gap-3">
-                    <span className="text-sm text-slate-400">{trade.amount.toFixed(6)}</span>
-                    {trade.profit !== undefined && (
-                      <span className={`text-sm font-semibold ${trade.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                        ${trade.profit.toFixed(2)}
+                    <Badge variant="outline" className="text-xs capitalize">{trade.status}</Badge>
+                    <span className="text-sm text-slate-400">
+                      {trade.filledAmount > 0 && trade.filledAmount < trade.amount
+                        ? `${trade.filledAmount.toFixed(6)}/${trade.amount.toFixed(6)}`
+                        : trade.amount.toFixed(6)}
+                    </span>
+                    {trade.price > 0 && (
+                      <span className="text-sm text-slate-300">@ ${trade.price.toLocaleString()}</span>
+                    )}
+                    {tradeProfits.has(trade.id) && (
+                      <span className={`text-sm font-semibold ${tradeProfits.get(trade.id) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        ${tradeProfits.get(trade.id).toFixed(2)}
                       </span>
                     )}
                     {trade.error && (
@@ -243,6 +496,11 @@ const LiveTradingEngine: React.FC = () => {
                         {trade.error}
                       </span>
                     )}
+                    {isTracked(trade) && (
+                      <Button onClick={() => cancelTrade(trade)} variant="ghost" size="sm">
+                        <XCircle className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))
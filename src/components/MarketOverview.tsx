@@ -1,39 +1,86 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { TrendingUp, TrendingDown } from 'lucide-react';
+import { ExchangeTicker } from '@/services/exchangeAdapter';
+import { marketData } from '@/services/marketData';
+import { useStreamStatus, useTickerStream } from '@/hooks/use-market-stream';
+
+const OVERVIEW_PAIRS = ['BTC/USD', 'ETH/USD', 'XRP/USD'];
+const REFRESH_INTERVAL = 15000;
+
+const formatVolume = (usd: number) => {
+  if (usd >= 1e9) return `${(usd / 1e9).toFixed(1)}B`;
+  if (usd >= 1e6) return `${(usd / 1e6).toFixed(1)}M`;
+  if (usd >= 1e3) return `${(usd / 1e3).toFixed(1)}K`;
+  return usd.toFixed(0);
+};
+
+// Streamed ticker updates take over from the polled snapshot once they arrive
+const MarketRow: React.FC<{ snapshot: ExchangeTicker }> = ({ snapshot }) => {
+  const streamed = useTickerStream(snapshot.pair);
+  const item = streamed
+    ? { ...snapshot, last: streamed.last, volume24h: streamed.volume, change24h: streamed.changePct }
+    : snapshot;
+
+  return (
+    <div className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
+      <div>
+        <p className="text-slate-300 font-medium">{item.pair}</p>
+        <p className="text-xs text-slate-400">Vol: {formatVolume(item.volume24h * item.last)}</p>
+      </div>
+      <div className="text-right">
+        <p className="text-white font-semibold">${item.last.toLocaleString()}</p>
+        <Badge variant={item.change24h >= 0 ? 'default' : 'destructive'} className="text-xs">
+          {item.change24h >= 0 ? <TrendingUp className="h-3 w-3 mr-1" /> : <TrendingDown className="h-3 w-3 mr-1" />}
+          {item.change24h >= 0 ? '+' : ''}{item.change24h.toFixed(2)}%
+        </Badge>
+      </div>
+    </div>
+  );
+};
 
 const MarketOverview: React.FC = () => {
-  const marketData = [
-    { symbol: 'BTC/USD', price: 43250.50, change: 2.45, volume: '1.2B' },
-    { symbol: 'ETH/USD', price: 2680.75, change: -1.23, volume: '850M' },
-    { symbol: 'XRP/USD', price: 0.6234, change: 0.89, volume: '420M' }
-  ];
+  const streamStatus = useStreamStatus();
+  const [tickers, setTickers] = useState<ExchangeTicker[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTickers = async () => {
+      try {
+        setTickers(await marketData.getTickers(OVERVIEW_PAIRS));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load market data');
+      }
+    };
+
+    fetchTickers();
+    const interval = setInterval(fetchTickers, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
 
   return (
     <Card className="bg-slate-800/50 border-slate-700">
       <CardHeader>
-        <CardTitle className="text-white">Market Overview</CardTitle>
+        <CardTitle className="text-white flex items-center justify-between">
+          Market Overview
+          <Badge variant={streamStatus === 'open' ? 'default' : 'secondary'} className="text-xs">
+            {streamStatus === 'open' ? 'Live' : 'Polling'}
+          </Badge>
+        </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {marketData.map((item) => (
-          <div key={item.symbol} className="flex items-center justify-between p-3 bg-slate-700/30 rounded-lg">
-            <div>
-              <p className="text-slate-300 font-medium">{item.symbol}</p>
-              <p className="text-xs text-slate-400">Vol: {item.volume}</p>
-            </div>
-            <div className="text-right">
-              <p className="text-white font-semibold">${item.price.toLocaleString()}</p>
-              <Badge variant={item.change >= 0 ? 'default' : 'destructive'} className="text-xs">
-                {item.change >= 0 ? <TrendingUp className="h-3 w-3 mr-1" /> : <TrendingDown className="h-3 w-3 mr-1" />}
-                {item.change >= 0 ? '+' : ''}{item.change}%
-              </Badge>
-            </div>
-          </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {tickers.length === 0 && !error && (
+          <p className="text-slate-400 text-center py-4">Loading market data...</p>
+        )}
+        {tickers.map((item) => (
+          <MarketRow key={item.pair} snapshot={item} />
         ))}
       </CardContent>
     </Card>
   );
 };
 
-export default MarketOverview;
\ No newline at end of file
+export default MarketOverview;
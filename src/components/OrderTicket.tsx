@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { AlertTriangle, Send } from 'lucide-react';
+import { useTradingContext } from '@/contexts/TradingContext';
+import { ExchangeId, ORDER_TYPES_WITH_LIMIT, ORDER_TYPES_WITH_TRIGGER, OrderOptions, OrderType, TimeInForce } from '@/services/exchangeAdapter';
+import { getSupportedExchanges } from '@/services/exchangeFactory';
+import { marketData } from '@/services/marketData';
+import { estimateSlippage, SlippageEstimate } from '@/services/slippage';
+import { loadRuleConfig, resolveRuleSettings } from '@/services/validationRules';
+
+const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  'market': 'Market',
+  'limit': 'Limit',
+  'stop-loss': 'Stop Loss',
+  'take-profit': 'Take Profit',
+  'stop-loss-limit': 'Stop Loss Limit',
+  'take-profit-limit': 'Take Profit Limit'
+};
+
+// Same depth the Kraken adapter validates market orders against
+const SLIPPAGE_BOOK_DEPTH = 100;
+const SLIPPAGE_REFRESH_INTERVAL = 5000;
+
+const OrderTicket: React.FC = () => {
+  const { isLiveMode, executeValidatedTrade } = useTradingContext();
+  const [exchange, setExchange] = useState<ExchangeId>('kraken');
+  const [pair, setPair] = useState('BTC/USD');
+  const [side, setSide] = useState<'buy' | 'sell'>('buy');
+  const [orderType, setOrderType] = useState<OrderType>('market');
+  const [volume, setVolume] = useState('0.001');
+  const [price, setPrice] = useState('');
+  const [price2, setPrice2] = useState('');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('GTC');
+  const [expiry, setExpiry] = useState('');
+  const [postOnly, setPostOnly] = useState(false);
+  const [reduceOnly, setReduceOnly] = useState(false);
+  const [leverage, setLeverage] = useState('none');
+  const [submitting, setSubmitting] = useState(false);
+  const [slippage, setSlippage] = useState<SlippageEstimate | undefined>();
+  // An order held back by a confirmation threshold, with the reason, until the user decides
+  const [pendingConfirmation, setPendingConfirmation] = useState<{ options: OrderOptions; reason: string } | null>(null);
+
+  const hasTrigger = ORDER_TYPES_WITH_TRIGGER.includes(orderType);
+  const hasLimit = ORDER_TYPES_WITH_LIMIT.includes(orderType);
+  const isLeveraged = leverage !== 'none';
+  const amount = parseFloat(volume);
+  // The book comes from Kraken's public API, so other exchanges get no estimate
+  const estimatesSlippage = exchange === 'kraken' && orderType === 'market' && amount > 0;
+  const slippageRule = resolveRuleSettings(loadRuleConfig(), pair).slippage;
+  const maxSlippageBps = slippageRule.enabled ? slippageRule.maxSlippageBps : undefined;
+  const overSlippageLimit = !!slippage && (slippage.filledVolume < slippage.volume || (maxSlippageBps !== undefined && slippage.impactBps > maxSlippageBps));
+
+  // Market orders take the book as it stands, so the estimate follows it while the ticket is open
+  useEffect(() => {
+    if (!estimatesSlippage) {
+      setSlippage(undefined);
+      return;
+    }
+    let cancelled = false;
+    const refresh = async () => {
+      try {
+        const book = await marketData.getOrderBook(pair, SLIPPAGE_BOOK_DEPTH);
+        if (!cancelled) setSlippage(estimateSlippage(book, side, amount));
+      } catch (error) {
+        if (!cancelled) setSlippage(undefined);
+      }
+    };
+    refresh();
+    const timer = setInterval(refresh, SLIPPAGE_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [estimatesSlippage, pair, side, amount]);
+
+  const submit = async (options: OrderOptions) => {
+    setSubmitting(true);
+    try {
+      const result = await executeValidatedTrade(exchange, pair, side, amount, options);
+      if (result.errorType === 'confirmationRequired') {
+        setPendingConfirmation({ options, reason: result.error || 'The order is over a confirmation threshold' });
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const options: OrderOptions = {
+      type: orderType,
+      price: orderType !== 'market' && price ? parseFloat(price) : undefined,
+      price2: orderType.endsWith('-limit') && price2 ? parseFloat(price2) : undefined,
+      timeInForce: orderType !== 'market' ? timeInForce : undefined,
+      expireTime: timeInForce === 'GTD' && expiry ? Math.floor(new Date(expiry).getTime() / 1000) : undefined,
+      postOnly: hasLimit && postOnly,
+      reduceOnly: isLeveraged && reduceOnly,
+      leverage: isLeveraged ? parseFloat(leverage) : undefined
+    };
+    submit(options);
+  };
+
+  const confirmOrder = () => {
+    if (!pendingConfirmation) return;
+    const { options } = pendingConfirmation;
+    setPendingConfirmation(null);
+    submit({ ...options, confirmed: true });
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          Order Ticket
+          {!isLiveMode && <Badge variant="secondary" className="ml-2">Live mode required</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label className="text-slate-300">Exchange</Label>
+            <Select value={exchange} onValueChange={(value: ExchangeId) => setExchange(value)}>
+              <SelectTrigger className="bg-slate-700 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getSupportedExchanges().map(id => (
+                  <SelectItem key={id} value={id} className="capitalize">{id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-slate-300">Pair</Label>
+            <Input
+              value={pair}
+              onChange={(e) => setPair(e.target.value.toUpperCase())}
+              placeholder="BTC/USD"
+              className="bg-slate-700 border-slate-600"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300">Side</Label>
+            <Select value={side} onValueChange={(value: 'buy' | 'sell') => setSide(value)}>
+              <SelectTrigger className="bg-slate-700 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="buy">Buy</SelectItem>
+                <SelectItem value="sell">Sell</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="text-slate-300">Order Type</Label>
+            <Select value={orderType} onValueChange={(value: OrderType) => setOrderType(value)}>
+              <SelectTrigger className="bg-slate-700 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ORDER_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-slate-300">Volume</Label>
+            <Input
+              value={volume}
+              onChange={(e) => setVolume(e.target.value)}
+              placeholder="0.001"
+              className="bg-slate-700 border-slate-600"
+            />
+          </div>
+        </div>
+
+        {estimatesSlippage && slippage && (
+          <p className={`text-xs ${overSlippageLimit ? 'text-red-400' : 'text-slate-400'}`}>
+            Expected fill {slippage.averagePrice.toPrecision(8)} average, {slippage.worstPrice} worst ({slippage.impactBps.toFixed(1)} bps from mid)
+            {slippage.filledVolume < slippage.volume && ` - the book only shows ${slippage.filledVolume.toFixed(6)}`}
+            {maxSlippageBps !== undefined && slippage.impactBps > maxSlippageBps && ` - above the ${maxSlippageBps} bps limit`}
+          </p>
+        )}
+
+        {orderType !== 'market' && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="text-slate-300">{hasTrigger ? 'Trigger Price' : 'Limit Price'}</Label>
+              <Input
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="bg-slate-700 border-slate-600"
+              />
+            </div>
+            {orderType.endsWith('-limit') && (
+              <div>
+                <Label className="text-slate-300">Limit Price</Label>
+                <Input
+                  value={price2}
+                  onChange={(e) => setPrice2(e.target.value)}
+                  className="bg-slate-700 border-slate-600"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="text-slate-300">Time in Force</Label>
+            <Select
+              value={timeInForce}
+              onValueChange={(value: TimeInForce) => setTimeInForce(value)}
+              disabled={orderType === 'market'}
+            >
+              <SelectTrigger className="bg-slate-700 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="GTC">Good til cancelled</SelectItem>
+                <SelectItem value="IOC">Immediate or cancel</SelectItem>
+                <SelectItem value="GTD">Good til date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-slate-300">Leverage</Label>
+            <Select value={leverage} onValueChange={setLeverage}>
+              <SelectTrigger className="bg-slate-700 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (spot)</SelectItem>
+                {['2', '3', '4', '5'].map(value => (
+                  <SelectItem key={value} value={value}>{value}x</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {timeInForce === 'GTD' && orderType !== 'market' && (
+          <div>
+            <Label className="text-slate-300">Expires At</Label>
+            <Input
+              type="datetime-local"
+              value={expiry}
+              onChange={(e) => setExpiry(e.target.value)}
+              className="bg-slate-700 border-slate-600"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center gap-6">
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <Switch checked={postOnly} onCheckedChange={setPostOnly} disabled={!hasLimit} />
+            Post-only
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <Switch checked={reduceOnly} onCheckedChange={setReduceOnly} disabled={!isLeveraged} />
+            Reduce-only
+          </label>
+        </div>
+
+        <Button
+          onClick={handleSubmit}
+          disabled={!isLiveMode || submitting || !(parseFloat(volume) > 0)}
+          className={`w-full ${side === 'buy' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+        >
+          {submitting ? 'Submitting...' : `${side === 'buy' ? 'Buy' : 'Sell'} ${volume} ${pair}`}
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={!!pendingConfirmation} onOpenChange={(open) => !open && setPendingConfirmation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2 text-red-600">
+              <AlertTriangle className="w-5 h-5" />
+              Confirm Order
+            </AlertDialogTitle>
+            <AlertDialogDescription className="space-y-2">
+              <p className="font-semibold">{side === 'buy' ? 'Buy' : 'Sell'} {volume} {pair}</p>
+              <p>{pendingConfirmation?.reason}</p>
+              <p className="text-sm">Check the price and volume for a misplaced digit before placing it.</p>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmOrder} className="bg-red-600 hover:bg-red-700">
+              Place Order Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default OrderTicket;
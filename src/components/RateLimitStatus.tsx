@@ -0,0 +1,66 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Gauge } from 'lucide-react';
+import { useTradingContext } from '@/contexts/TradingContext';
+import { useKrakenRateLimit } from '@/hooks/use-rate-limit';
+import { KrakenTier } from '@/services/krakenRateLimiter';
+
+const RateLimitStatus: React.FC = () => {
+  const { apiKeys } = useTradingContext();
+  const { status, setTier } = useKrakenRateLimit(apiKeys.kraken.keyId || apiKeys.kraken.key);
+
+  if (!apiKeys.kraken.key) return null;
+
+  const remainingPercent = (status.remaining / status.max) * 100;
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Kraken API Budget
+          </span>
+          <Select value={status.tier} onValueChange={(value: KrakenTier) => setTier(value)}>
+            <SelectTrigger className="w-36 bg-slate-700 border-slate-600">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="starter">Starter</SelectItem>
+              <SelectItem value="intermediate">Intermediate</SelectItem>
+              <SelectItem value="pro">Pro</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-slate-400">API calls remaining</span>
+            <span className={remainingPercent < 25 ? 'text-amber-400' : 'text-white'}>
+              {status.remaining.toFixed(1)} / {status.max}
+            </span>
+          </div>
+          <Progress value={remainingPercent} />
+        </div>
+        {status.queued > 0 && (
+          <Badge variant="secondary">{status.queued} queued</Badge>
+        )}
+        {status.pairs.map(pair => (
+          <div key={pair.pair}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-slate-400">{pair.pair} order budget</span>
+              <span className="text-white">{(pair.max - pair.counter).toFixed(0)} / {pair.max}</span>
+            </div>
+            <Progress value={((pair.max - pair.counter) / pair.max) * 100} className="h-1" />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RateLimitStatus;
@@ -7,9 +7,52 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertCircle, Play, CheckCircle, XCircle } from 'lucide-react';
 import { useTradingContext } from '@/contexts/TradingContext';
-import { createKrakenService } from '@/services/krakenService';
+import { ExchangeId } from '@/services/exchangeAdapter';
+import { createExchangeAdapter, getSupportedExchanges, hasCredentials } from '@/services/exchangeFactory';
+import { marketData } from '@/services/marketData';
+import { SlippageEstimate } from '@/services/slippage';
+import { TradeCostEstimate } from '@/services/tradeValidator';
+import { RULE_LABELS, RuleOutcome } from '@/services/validationRules';
 import { toast } from '@/components/ui/use-toast';
 
+// Offered when the exchange's own pair listing is not available
+const DEFAULT_PAIRS = ['BTC/USD', 'ETH/USD', 'XRP/USD'];
+
+const formatCost = (cost: TradeCostEstimate | undefined, side: 'buy' | 'sell'): string => {
+  if (!cost) return 'No price available for a cost estimate';
+  // Crypto quotes need more decimals, and a USD figure alongside
+  const usd = cost.quote === 'USD';
+  const format = (value: number) => usd
+    ? value.toFixed(2)
+    : `${value.toFixed(8)} ${cost.quote}${cost.quoteUsd ? ` (≈ $${(value * cost.quoteUsd).toFixed(2)})` : ''}`;
+  return [
+    `Price: ${cost.price}${usd ? '' : ` ${cost.quote}`}`,
+    `Order value: ${format(cost.notional)}`,
+    `Fee: ${(cost.feeRate * 100).toFixed(2)}% ${cost.liquidity}${cost.feeTierKnown ? '' : ' (default tier)'} = ${format(cost.fee)}`,
+    `${side === 'buy' ? 'Total cost' : 'Net proceeds'}: ${format(cost.total)}`
+  ].join('\n');
+};
+
+const formatSlippage = (slippage: SlippageEstimate | undefined): string => {
+  if (!slippage) return 'No order book for a slippage estimate';
+  const depth = slippage.filledVolume < slippage.volume ? ` (book depth covers only ${slippage.filledVolume.toFixed(6)})` : '';
+  return [
+    `Mid: ${slippage.midPrice}`,
+    `Average fill: ${slippage.averagePrice.toPrecision(8)}, ${slippage.impactBps.toFixed(1)} bps${depth}`,
+    `Worst fill: ${slippage.worstPrice}, ${slippage.worstImpactBps.toFixed(1)} bps`
+  ].join('\n');
+};
+
+const RULE_MARKS: Record<RuleOutcome['status'], string> = { passed: '✓', failed: '✗', skipped: '-', disabled: ' ' };
+
+const formatRules = (rules: RuleOutcome[]): string => rules
+  .map(outcome => {
+    const mark = outcome.status === 'failed' && outcome.severity === 'warning' ? '!' : RULE_MARKS[outcome.status];
+    const detail = outcome.message || (outcome.status === 'disabled' ? 'Disabled' : '');
+    return `${mark} ${RULE_LABELS[outcome.rule]}${detail ? `: ${detail}` : ''}`;
+  })
+  .join('\n');
+
 interface DebugStep {
   id: string;
   name: string;
@@ -20,11 +63,33 @@ interface DebugStep {
 
 const TradeDebugger: React.FC = () => {
   const { apiKeys, isLiveMode } = useTradingContext();
+  const [exchange, setExchange] = useState<ExchangeId>('kraken');
   const [pair, setPair] = useState('ETH/USD');
   const [side, setSide] = useState<'buy' | 'sell'>('buy');
   const [amount, setAmount] = useState('0.01');
   const [isDebugging, setIsDebugging] = useState(false);
   const [debugSteps, setDebugSteps] = useState<DebugStep[]>([]);
+  const [pairs, setPairs] = useState<string[]>(DEFAULT_PAIRS);
+
+  useEffect(() => {
+    if (exchange !== 'kraken') {
+      setPairs(DEFAULT_PAIRS);
+      return;
+    }
+
+    let cancelled = false;
+    marketData.getAssetPairs()
+      .then(assetPairs => {
+        if (cancelled) return;
+        setPairs(assetPairs.filter(info => info.status !== 'cancel_only').map(info => info.symbol));
+      })
+      .catch(error => {
+        console.error('Failed to load Kraken pairs:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [exchange]);
 
   const initializeSteps = (): DebugStep[] => [
     { id: 'api-check', name: 'Check API Keys', status: 'pending' },
@@ -47,9 +112,9 @@ const TradeDebugger: React.FC = () => {
     try {
       // Step 1: Check API Keys
       updateStep('api-check', 'running');
-      const { key, secret, status } = apiKeys.kraken;
+      const { key, secret, passphrase, keyId, status } = apiKeys[exchange];
       
-      if (!key || !secret) {
+      if (!hasCredentials(exchange, { key, secret, passphrase })) {
         updateStep('api-check', 'error', 'API keys not configured');
         return;
       }
@@ -63,10 +128,10 @@ const TradeDebugger: React.FC = () => {
       
       // Step 2: Test Connection
       updateStep('connection', 'running');
-      const krakenService = createKrakenService(key, secret);
+      const adapter = createExchangeAdapter(exchange, { key, secret, passphrase, keyId });
       
       try {
-        const connectionTest = await krakenService.testConnection();
+        const connectionTest = await adapter.testConnection();
         if (connectionTest) {
           updateStep('connection', 'success', 'Connection successful');
         } else {
@@ -81,7 +146,7 @@ const TradeDebugger: React.FC = () => {
       // Step 3: Fetch Balance
       updateStep('balance', 'running');
       try {
-        const balance = await krakenService.getAccountBalance();
+        const balance = await adapter.getAccountBalance();
         const balanceKeys = Object.keys(balance);
         updateStep('balance', 'success', `Found ${balanceKeys.length} currencies`, JSON.stringify(balance, null, 2));
       } catch (error) {
@@ -92,23 +157,26 @@ const TradeDebugger: React.FC = () => {
       // Step 4: Validate Trade
       updateStep('validation', 'running');
       try {
-        const validator = krakenService.getTradeValidator();
+        await Promise.all([adapter.loadFeeTiers?.([pair]), adapter.loadOrderBook?.(pair)]);
+        const validator = adapter.getTradeValidator();
         if (!validator) {
           updateStep('validation', 'error', 'Could not create trade validator');
           return;
         }
         
-        const validation = validator.validateTrade({
+        const trade = {
           pair,
           side,
           amount: parseFloat(amount),
           price: undefined
-        });
+        };
+        const validation = validator.validateTrade(trade);
+        const details = `${formatRules(validation.rules)}\n\n${formatCost(validator.estimateCost(trade), side)}\n\n${formatSlippage(validator.estimateSlippage(trade))}`;
         
         if (validation.isValid) {
-          updateStep('validation', 'success', 'Trade validation passed');
+          updateStep('validation', 'success', validation.error ? 'Trade validation passed with warnings' : 'Trade validation passed', details);
         } else {
-          updateStep('validation', 'error', 'Trade validation failed', validation.error);
+          updateStep('validation', 'error', 'Trade validation failed', `${validation.error}\n\n${details}`);
           if (!isLiveMode) return; // Don't continue if validation fails and not in live mode
         }
       } catch (error) {
@@ -124,23 +192,17 @@ const TradeDebugger: React.FC = () => {
       }
       
       try {
-        let krakenPair = pair.replace('/', '').toUpperCase();
-        if (krakenPair === 'BTCUSD') krakenPair = 'XBTUSD';
-        if (krakenPair === 'ETHUSD') krakenPair = 'ETHUSD';
-        
-        const result = await krakenService.placeValidatedOrder({
-          pair: krakenPair,
-          type: side,
-          ordertype: 'market',
-          volume: amount
+        const result = await adapter.submitOrder({
+          pair,
+          side,
+          type: 'market',
+          volume: parseFloat(amount)
         });
         
-        if (result.error && result.error.length > 0) {
-          updateStep('order', 'error', 'Order failed', result.error[0]);
-        } else if (result.result) {
-          updateStep('order', 'success', 'Order placed successfully', `TxID: ${result.result.txid?.[0] || 'N/A'}`);
+        if (result.success) {
+          updateStep('order', 'success', 'Order placed successfully', `Order IDs: ${result.orderIds.join(', ') || 'N/A'}`);
         } else {
-          updateStep('order', 'error', 'No result returned');
+          updateStep('order', 'error', 'Order failed', result.error);
         }
       } catch (error) {
         updateStep('order', 'error', 'Order placement failed', error instanceof Error ? error.message : 'Unknown error');
@@ -169,7 +231,20 @@ const TradeDebugger: React.FC = () => {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label className="text-slate-300">Exchange</Label>
+            <Select value={exchange} onValueChange={(value: ExchangeId) => setExchange(value)}>
+              <SelectTrigger className="bg-slate-700 border-slate-600">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getSupportedExchanges().map(id => (
+                  <SelectItem key={id} value={id} className="capitalize">{id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <div>
             <Label className="text-slate-300">Trading Pair</Label>
             <Select value={pair} onValueChange={setPair}>
@@ -177,9 +252,9 @@ const TradeDebugger: React.FC = () => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="BTC/USD">BTC/USD</SelectItem>
-                <SelectItem value="ETH/USD">ETH/USD</SelectItem>
-                <SelectItem value="XRP/USD">XRP/USD</SelectItem>
+                {pairs.map(symbol => (
+                  <SelectItem key={symbol} value={symbol}>{symbol}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, RefreshCw } from 'lucide-react';
+import { useTradingContext } from '@/contexts/TradingContext';
+import { toast } from '@/components/ui/use-toast';
+import { createLogger } from '@/lib/logger';
+import { createHistoryStore } from '@/services/historyStore';
+import { syncKrakenHistory } from '@/services/historySync';
+import { buildFeeReport, FeeReportInterval } from '@/services/feeReport';
+import { AssetPair, marketData } from '@/services/marketData';
+
+const VISIBLE_FILLS = 20;
+const VISIBLE_FEE_PERIODS = 6;
+
+const logError = createLogger('Trade History');
+
+const formatPeriod = (start: number, interval: FeeReportInterval) => {
+  const date = new Date(start * 1000);
+  if (interval === 'month') return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  return interval === 'week' ? `Week of ${date.toLocaleDateString()}` : date.toLocaleDateString();
+};
+
+const formatAmounts = (amounts: { [quote: string]: number }) =>
+  Object.entries(amounts).map(([quote, amount]) => `${amount.toFixed(quote === 'USD' ? 2 : 6)} ${quote}`).join(', ');
+
+const TradeHistory: React.FC = () => {
+  const { apiKeys, getAdapter } = useTradingContext();
+  const store = useMemo(() => createHistoryStore('kraken'), []);
+  const [fills, setFills] = useState(() => store.getFills());
+  const [ledgerCount, setLedgerCount] = useState(() => store.getLedgerEntries().length);
+  const [lastSyncAt, setLastSyncAt] = useState(() => store.getCursor().lastSyncAt);
+  const [syncing, setSyncing] = useState(false);
+  const [feeInterval, setFeeInterval] = useState<FeeReportInterval>('month');
+  const [assetPairs, setAssetPairs] = useState<AssetPair[]>([]);
+
+  useEffect(() => {
+    marketData.getAssetPairs()
+      .then(setAssetPairs)
+      .catch(error => logError('warning', 'Failed to load Kraken pairs', error instanceof Error ? error.message : 'Unknown error'));
+  }, []);
+
+  const feeReport = useMemo(() => buildFeeReport(fills, feeInterval, assetPairs), [fills, feeInterval, assetPairs]);
+
+  const canSync = apiKeys.kraken.status === 'saved' && !syncing;
+
+  const handleSync = async (full: boolean) => {
+    setSyncing(true);
+    try {
+      const adapter = getAdapter('kraken');
+      if (!adapter?.getTradesHistory || !adapter.getLedgers) {
+        throw new Error('Kraken API keys are not configured');
+      }
+      const result = await syncKrakenHistory(adapter, store, { full });
+      setFills(store.getFills());
+      setLedgerCount(result.totalLedgerEntries);
+      setLastSyncAt(store.getCursor().lastSyncAt);
+      toast({
+        title: 'History Synced',
+        description: `${result.newFills} new fills, ${result.newLedgerEntries} new ledger entries`
+      });
+    } catch (error) {
+      toast({
+        title: 'History Sync Failed',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Trade History
+          </span>
+          <div className="flex items-center gap-2">
+            <Button onClick={() => handleSync(true)} disabled={!canSync} variant="outline" size="sm">
+              Full Resync
+            </Button>
+            <Button onClick={() => handleSync(false)} disabled={!canSync} variant="outline" size="sm">
+              <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-3 mb-4 text-sm text-slate-400">
+          <Badge variant="secondary">{fills.length} fills</Badge>
+          <Badge variant="secondary">{ledgerCount} ledger entries</Badge>
+          <span>{lastSyncAt ? `Last synced ${new Date(lastSyncAt).toLocaleString()}` : 'Never synced'}</span>
+        </div>
+        {feeReport.length > 0 && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-slate-300">Fees paid</h4>
+              <Select value={feeInterval} onValueChange={(value: FeeReportInterval) => setFeeInterval(value)}>
+                <SelectTrigger className="w-28 h-8 bg-slate-700 border-slate-600">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="day">Daily</SelectItem>
+                  <SelectItem value="week">Weekly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              {feeReport.slice(0, VISIBLE_FEE_PERIODS).map(row => (
+                <div key={row.start} className="flex items-center justify-between text-sm p-2 bg-slate-700/30 rounded">
+                  <span className="text-slate-300">{formatPeriod(row.start, feeInterval)}</span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-slate-400 text-xs">{row.fills} fills, {formatAmounts(row.volume)} traded</span>
+                    <span className="text-white">{formatAmounts(row.fees)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {fills.length === 0 ? (
+          <p className="text-slate-400 text-center py-4">No fills stored locally</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {fills.slice(0, VISIBLE_FILLS).map(fill => (
+              <div key={fill.id} className="flex items-center justify-between p-2 bg-slate-700/50 rounded text-sm">
+                <div className="flex items-center gap-3">
+                  <Badge variant={fill.side === 'buy' ? 'default' : 'destructive'}>
+                    {fill.side.toUpperCase()}
+                  </Badge>
+                  <span className="text-white">{fill.pair}</span>
+                  <span className="text-slate-400">{fill.volume.toFixed(6)} @ {fill.price.toLocaleString()}</span>
+                </div>
+                <div className="flex items-center gap-3 text-slate-400">
+                  <span>fee {fill.fee.toFixed(4)}</span>
+                  <span className="text-xs">{new Date(fill.time * 1000).toLocaleString()}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TradeHistory;
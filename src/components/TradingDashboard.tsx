@@ -9,7 +9,11 @@ import ApiKeyManager from './ApiKeyManager';
 import BudgetManager from './BudgetManager';
 import LiveTradingEngine from './LiveTradingEngine';
 import MarketOverview from './MarketOverview';
+import OrderTicket from './OrderTicket';
+import TradeHistory from './TradeHistory';
 import ErrorLogger from './ErrorLogger';
+import RateLimitStatus from './RateLimitStatus';
+import ValidationRules from './ValidationRules';
 import TradeDebugger from './TradeDebugger';
 import { useState } from 'react';
 
@@ -96,12 +100,16 @@ const TradingDashboard: React.FC = () => {
           {/* Left Column */}
           <div className="lg:col-span-2 space-y-6">
             <MarketOverview />
+            <OrderTicket />
             <LiveTradingEngine />
+            <TradeHistory />
           </div>
           
           {/* Right Column */}
           <div className="space-y-6">
             <BudgetManager />
+            <RateLimitStatus />
+            <ValidationRules />
             <ErrorLogger />
           </div>
         </div>
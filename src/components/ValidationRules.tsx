@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListChecks } from 'lucide-react';
+import { StrategyType } from '@/services/strategySignals';
+import {
+  CONFIGURABLE_RULES,
+  ConfigurableRuleId,
+  loadRuleConfig,
+  resolveRuleSettings,
+  RuleOverrides,
+  RuleSettings,
+  RuleSeverity,
+  saveRuleConfig,
+  ValidationRuleConfig
+} from '@/services/validationRules';
+
+const RULE_PAIRS = ['BTC/USD', 'ETH/USD', 'XRP/USD'];
+const STRATEGIES: StrategyType[] = ['scalping', 'arbitrage', 'momentum'];
+
+// 'defaults', 'pair:BTC/USD' or 'strategy:scalping'
+type Scope = string;
+
+const scopeLayer = (config: ValidationRuleConfig, scope: Scope): RuleOverrides => {
+  if (scope.startsWith('pair:')) return config.pairs[scope.slice(5)] || {};
+  if (scope.startsWith('strategy:')) return config.strategies[scope.slice(9)] || {};
+  return config.defaults;
+};
+
+const withScopeLayer = (config: ValidationRuleConfig, scope: Scope, layer: RuleOverrides): ValidationRuleConfig => {
+  if (scope.startsWith('pair:')) return { ...config, pairs: { ...config.pairs, [scope.slice(5)]: layer } };
+  if (scope.startsWith('strategy:')) return { ...config, strategies: { ...config.strategies, [scope.slice(9)]: layer } };
+  return { ...config, defaults: layer };
+};
+
+const toPercent = (fraction: number | undefined) => fraction !== undefined ? fraction * 100 : undefined;
+
+// What orders in this scope get, before any more specific layer applies
+const scopeSettings = (config: ValidationRuleConfig, scope: Scope) => {
+  if (scope.startsWith('pair:')) return resolveRuleSettings({ ...config, strategies: {} }, scope.slice(5));
+  if (scope.startsWith('strategy:')) return resolveRuleSettings({ ...config, pairs: {} }, '', scope.slice(9));
+  return resolveRuleSettings({ ...config, pairs: {}, strategies: {} }, '');
+};
+
+const ValidationRules: React.FC = () => {
+  const [config, setConfig] = useState<ValidationRuleConfig>(() => loadRuleConfig());
+  const [scope, setScope] = useState<Scope>('defaults');
+  const settings = scopeSettings(config, scope);
+  const layer = scopeLayer(config, scope);
+
+  const update = (next: ValidationRuleConfig) => {
+    setConfig(next);
+    saveRuleConfig(next);
+  };
+
+  const updateRule = (id: ConfigurableRuleId, changes: Partial<RuleSettings>) => {
+    update(withScopeLayer(config, scope, { ...layer, [id]: { ...layer[id], ...changes } }));
+  };
+
+  const numberInput = (id: ConfigurableRuleId, value: number | undefined, onChange: (value: number) => void, suffix: string) => (
+    <div className="flex items-center gap-1">
+      <Input
+        type="number"
+        value={value ?? ''}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (!isNaN(parsed)) onChange(parsed);
+        }}
+        className="h-7 w-20 bg-slate-700 border-slate-600 text-white text-xs"
+        aria-label={`${id} ${suffix}`}
+      />
+      <span className="text-xs text-slate-400">{suffix}</span>
+    </div>
+  );
+
+  const ruleParams = (id: ConfigurableRuleId, rule: RuleSettings) => {
+    switch (id) {
+      case 'priceBand':
+        return (
+          <div className="flex flex-wrap gap-2">
+            {numberInput(id, toPercent(rule.maxDeviation), value => updateRule(id, { maxDeviation: value / 100 }), '% from mid')}
+            {numberInput(id, toPercent(rule.confirmDeviation), value => updateRule(id, { confirmDeviation: value / 100 }), '% to confirm')}
+          </div>
+        );
+      case 'riskLimits':
+        return (
+          <div className="flex flex-wrap gap-2">
+            {numberInput(id, rule.maxNotional, value => updateRule(id, { maxNotional: value }), 'USD max')}
+            {numberInput(id, rule.confirmNotional, value => updateRule(id, { confirmNotional: value }), 'USD to confirm')}
+            {numberInput(id, toPercent(rule.maxBalanceShare), value => updateRule(id, { maxBalanceShare: value / 100 }), '% of balance max')}
+            {numberInput(id, toPercent(rule.confirmBalanceShare), value => updateRule(id, { confirmBalanceShare: value / 100 }), '% to confirm')}
+            {numberInput(id, rule.maxLeverage, value => updateRule(id, { maxLeverage: value }), 'x leverage')}
+          </div>
+        );
+      case 'slippage':
+        return numberInput(id, rule.maxSlippageBps, value => updateRule(id, { maxSlippageBps: value }), 'bps max');
+      case 'tradingHours': {
+        const hours = rule.tradingHours || { start: 0, end: 24 };
+        return (
+          <div className="flex gap-2">
+            {numberInput(id, hours.start, value => updateRule(id, { tradingHours: { ...hours, start: value } }), 'from (UTC)')}
+            {numberInput(id, hours.end, value => updateRule(id, { tradingHours: { ...hours, end: value } }), 'to')}
+          </div>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Validation Rules
+          </span>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-40 bg-slate-700 border-slate-600">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="defaults">All orders</SelectItem>
+              {RULE_PAIRS.map(pair => (
+                <SelectItem key={pair} value={`pair:${pair}`}>{pair}</SelectItem>
+              ))}
+              {STRATEGIES.map(strategy => (
+                <SelectItem key={strategy} value={`strategy:${strategy}`} className="capitalize">{strategy} strategy</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {CONFIGURABLE_RULES.map(({ id: ruleId, label }) => {
+          const id = ruleId as ConfigurableRuleId;
+          const rule = settings[id];
+          return (
+            <div key={id} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`text-sm ${layer[id] ? 'text-white font-medium' : 'text-slate-300'}`}>{label}</span>
+                <div className="flex items-center gap-2">
+                  <Select value={rule.severity} onValueChange={(value: RuleSeverity) => updateRule(id, { severity: value })}>
+                    <SelectTrigger className="h-7 w-24 bg-slate-700 border-slate-600 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="error">Block</SelectItem>
+                      <SelectItem value="warning">Warn</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Switch checked={rule.enabled} onCheckedChange={(checked) => updateRule(id, { enabled: checked })} />
+                </div>
+              </div>
+              {rule.enabled && ruleParams(id, rule)}
+            </div>
+          );
+        })}
+        {scope !== 'defaults' && Object.keys(layer).length > 0 && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => update(withScopeLayer(config, scope, {}))}>
+            Use settings for all orders
+          </Button>
+        )}
+        <p className="text-xs text-slate-500">
+          Rules in bold are set here. Strategy settings override pair settings, which override the ones for all orders.
+          Orders past a "to confirm" limit are held until you confirm them in the order ticket.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ValidationRules;
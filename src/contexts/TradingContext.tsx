@@ -1,42 +1,72 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef } from 'react';
 import { toast } from '@/components/ui/use-toast';
-import { createKrakenService } from '@/services/krakenService';
+import { ExchangeAdapter, ExchangeCredentials, ExchangeErrorType, ExchangeId, ExchangeOrderResult, OrderOptions } from '@/services/exchangeAdapter';
+import { createExchangeAdapter, hasCredentials, isExchangeSupported, requiresPassphrase, storesCredentialsServerSide } from '@/services/exchangeFactory';
+import { KrakenError } from '@/services/krakenErrors';
+import { KrakenPrivateStreamClient } from '@/services/krakenPrivateStream';
+import { removeKrakenCredentials, storeKrakenCredentials } from '@/services/krakenCredentials';
+import { sha256Hex } from '@/lib/crypto';
+import { createLogger } from '@/lib/logger';
+
+type ApiKeyStatus = 'none' | 'saved' | 'error';
+
+interface ApiKeyEntry {
+  key: string; // For keys stored server-side, just a hint like …a1b2
+  secret: string; // Empty for keys stored server-side
+  passphrase?: string;
+  keyId?: string; // SHA-256 of a key stored server-side, which tells keys with the same hint apart
+  status: ApiKeyStatus;
+}
 
 interface TradingContextType {
   isLiveMode: boolean;
   setIsLiveMode: (value: boolean) => void;
   showLiveWarning: boolean;
   setShowLiveWarning: (value: boolean) => void;
-  apiKeys: {
-    binance: { key: string; secret: string; status: 'none' | 'saved' | 'error' };
-    kucoin: { key: string; secret: string; status: 'none' | 'saved' | 'error' };
-    kraken: { key: string; secret: string; status: 'none' | 'saved' | 'error' };
-  };
-  updateApiKey: (exchange: 'binance' | 'kucoin' | 'kraken', key: string, secret: string) => void;
-  testConnection: (exchange: 'binance' | 'kucoin' | 'kraken') => Promise<void>;
-  clearApiKey: (exchange: 'binance' | 'kucoin' | 'kraken') => void;
-  executeValidatedTrade: (exchange: string, pair: string, side: 'buy' | 'sell', amount: number) => Promise<boolean>;
+  apiKeys: Record<ExchangeId, ApiKeyEntry>;
+  updateApiKey: (exchange: ExchangeId, key: string, secret: string, passphrase?: string) => Promise<void>;
+  testConnection: (exchange: ExchangeId) => Promise<void>;
+  clearApiKey: (exchange: ExchangeId) => Promise<void>;
+  executeValidatedTrade: (exchange: string, pair: string, side: 'buy' | 'sell', amount: number, options?: OrderOptions) => Promise<ExchangeOrderResult>;
+  getAdapter: (exchange: ExchangeId) => ExchangeAdapter | null;
+  krakenPrivateStream: KrakenPrivateStreamClient | null;
 }
 
 const TradingContext = createContext<TradingContextType>({} as TradingContextType);
 
 export const useTradingContext = () => useContext(TradingContext);
 
-const logError = (type: 'error' | 'warning' | 'info', message: string, details?: string) => {
-  console.log(`[${type.toUpperCase()}] ${message}`, details || '');
-  if (typeof window !== 'undefined' && (window as any).logError) {
-    (window as any).logError(type, message, details, 'Trading Context');
-  }
+// Toast titles by failure type; the description is the error's own message
+const TRADE_ERROR_TITLES: Record<ExchangeErrorType, string> = {
+  auth: 'Invalid API Credentials',
+  permission: 'Permission Denied',
+  nonce: 'Request Out of Sync',
+  rateLimit: 'Rate Limited',
+  lockout: 'API Key Locked Out',
+  insufficientFunds: 'Insufficient Funds',
+  invalidOrder: 'Order Rejected',
+  marketClosed: 'Market Closed',
+  transport: 'Connection Problem',
+  confirmationRequired: 'Confirmation Required',
+  unknown: 'Trade Failed'
 };
 
+const logError = createLogger('Trading Context');
+
 export const TradingProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [isLiveMode, setIsLiveModeState] = useState(false);
   const [showLiveWarning, setShowLiveWarning] = useState(false);
-  const [apiKeys, setApiKeys] = useState({
-    binance: { key: '', secret: '', status: 'none' as const },
-    kucoin: { key: '', secret: '', status: 'none' as const },
-    kraken: { key: '', secret: '', status: 'none' as const }
+  const [apiKeys, setApiKeys] = useState<Record<ExchangeId, ApiKeyEntry>>({
+    binance: { key: '', secret: '', status: 'none' },
+    kucoin: { key: '', secret: '', passphrase: '', status: 'none' },
+    kraken: { key: '', secret: '', status: 'none' }
   });
+  const [krakenPrivateStream, setKrakenPrivateStream] = useState<KrakenPrivateStreamClient | null>(null);
+  // Adapters hold balance and market caches, so one instance is kept per exchange and API key.
+  // Secrets never go into the cache key; saving or clearing keys drops the exchange's adapter instead.
+  const adapterCache = useRef(new Map<string, ExchangeAdapter>());
+  // The cached adapters for exchanges whose keys are usable, picked after each change to the keys
+  const [adapters, setAdapters] = useState<Partial<Record<ExchangeId, ExchangeAdapter>>>({});
 
   useEffect(() => {
     const savedMode = localStorage.getItem('tradingMode');
@@ -49,6 +79,17 @@ export const TradingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     if (savedKeys) {
       try {
         const parsed = JSON.parse(savedKeys);
+        // Secrets saved in the browser before Kraken keys moved server-side are dropped
+        if (storesCredentialsServerSide('kraken') && parsed.kraken?.secret) {
+          parsed.kraken = { key: '', secret: '', status: 'none' };
+          localStorage.setItem('apiKeys', JSON.stringify(parsed));
+          logError('warning', 'Kraken API keys removed from browser storage', 'Save them again to store them server-side');
+        } else if (storesCredentialsServerSide('kraken') && parsed.kraken?.key && !parsed.kraken.keyId) {
+          // Saved before key ids were kept, so the hint alone cannot tell this key from another
+          parsed.kraken = { key: '', secret: '', status: 'none' };
+          localStorage.setItem('apiKeys', JSON.stringify(parsed));
+          logError('warning', 'Kraken API keys need to be saved again', 'They were stored without an id for the key');
+        }
         setApiKeys(prev => ({
           binance: parsed.binance || prev.binance,
           kucoin: parsed.kucoin || prev.kucoin,
@@ -67,27 +108,48 @@ export const TradingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     logError('info', `Trading mode changed to ${value ? 'LIVE' : 'PAPER'}`);
   };
 
-  const updateApiKey = (exchange: 'binance' | 'kucoin' | 'kraken', key: string, secret: string) => {
+  const updateApiKey = async (exchange: ExchangeId, key: string, secret: string, passphrase?: string) => {
     if (!key.trim() || !secret.trim()) {
       logError('error', 'API key and secret validation failed', 'Both fields are required');
       toast({ title: 'Error', description: 'API key and secret are required', variant: 'destructive' });
       return;
     }
 
-    const newKeys = {
-      ...apiKeys,
-      [exchange]: { key: key.trim(), secret: secret.trim(), status: 'saved' as const }
-    };
+    if (requiresPassphrase(exchange) && !passphrase?.trim()) {
+      logError('error', `${exchange} API passphrase validation failed`, 'Passphrase is required');
+      toast({ title: 'Error', description: `${exchange} API passphrase is required`, variant: 'destructive' });
+      return;
+    }
+
+    let entry: ApiKeyEntry = { key: key.trim(), secret: secret.trim(), status: 'saved' };
+    if (requiresPassphrase(exchange)) {
+      entry.passphrase = passphrase.trim();
+    }
+
+    if (storesCredentialsServerSide(exchange)) {
+      try {
+        const stored = await storeKrakenCredentials(entry.key, entry.secret);
+        entry = { key: `…${stored.keyHint || entry.key.slice(-4)}`, secret: '', keyId: await sha256Hex(entry.key), status: 'saved' };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logError('error', `${exchange} API keys could not be stored`, errorMessage);
+        toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+        return;
+      }
+    }
+
+    const newKeys = { ...apiKeys, [exchange]: entry };
     
+    dropCachedAdapters(exchange);
     setApiKeys(newKeys);
     localStorage.setItem('apiKeys', JSON.stringify(newKeys));
     logError('info', `${exchange} API keys updated successfully`);
     toast({ title: 'Success', description: `${exchange} API keys saved successfully` });
   };
 
-  const testConnection = async (exchange: 'binance' | 'kucoin' | 'kraken') => {
-    const { key, secret } = apiKeys[exchange];
-    if (!key || !secret) {
+  const testConnection = async (exchange: ExchangeId) => {
+    const { key, secret, passphrase, keyId } = apiKeys[exchange];
+    if (!hasCredentials(exchange, { key, secret, passphrase })) {
       logError('error', `${exchange} connection test failed`, 'API keys not configured');
       toast({ title: 'Error', description: 'Please save API keys first', variant: 'destructive' });
       return;
@@ -96,23 +158,15 @@ export const TradingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     logError('info', `Testing ${exchange} connection...`);
     
     try {
-      if (exchange === 'kraken') {
-        const krakenService = createKrakenService(key, secret);
-        const success = await krakenService.testConnection();
-        
-        if (success) {
-          setApiKeys(prev => ({ ...prev, [exchange]: { ...prev[exchange], status: 'saved' } }));
-          logError('info', 'Kraken connection test successful');
-          toast({ title: 'Success', description: 'Kraken connection test successful' });
-        } else {
-          throw new Error('Connection test failed');
-        }
-      } else {
-        // Simulate connection test for other exchanges
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      const adapter = createExchangeAdapter(exchange, { key, secret, passphrase, keyId });
+      const success = await adapter.testConnection();
+      
+      if (success) {
         setApiKeys(prev => ({ ...prev, [exchange]: { ...prev[exchange], status: 'saved' } }));
-        logError('info', `${exchange} connection test successful`);
-        toast({ title: 'Success', description: `${exchange} connection test successful` });
+        logError('info', `${adapter.displayName} connection test successful`);
+        toast({ title: 'Success', description: `${adapter.displayName} connection test successful` });
+      } else {
+        throw new Error('Connection test failed');
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -122,117 +176,157 @@ export const TradingProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const clearApiKey = (exchange: 'binance' | 'kucoin' | 'kraken') => {
-    const newKeys = { ...apiKeys, [exchange]: { key: '', secret: '', status: 'none' as const } };
+  const clearApiKey = async (exchange: ExchangeId) => {
+    if (storesCredentialsServerSide(exchange) && apiKeys[exchange].key) {
+      try {
+        await removeKrakenCredentials();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logError('error', `${exchange} API keys could not be removed`, errorMessage);
+        toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+        return;
+      }
+    }
+
+    const cleared: ApiKeyEntry = requiresPassphrase(exchange)
+      ? { key: '', secret: '', passphrase: '', status: 'none' }
+      : { key: '', secret: '', status: 'none' };
+    const newKeys = { ...apiKeys, [exchange]: cleared };
+    dropCachedAdapters(exchange);
     setApiKeys(newKeys);
     localStorage.setItem('apiKeys', JSON.stringify(newKeys));
     logError('info', `${exchange} API keys cleared`);
     toast({ title: 'Success', description: `${exchange} API keys cleared` });
   };
 
-  const executeValidatedTrade = async (exchange: string, pair: string, side: 'buy' | 'sell', amount: number): Promise<boolean> => {
+  const notifyTradeError = useCallback((exchange: ExchangeId, errorType: ExchangeErrorType, message: string) => {
+    toast({ title: TRADE_ERROR_TITLES[errorType], description: message, variant: 'destructive' });
+    // Rejected credentials will fail every call until they are fixed and tested again
+    if (errorType === 'auth') {
+      setApiKeys(prev => ({ ...prev, [exchange]: { ...prev[exchange], status: 'error' } }));
+    }
+  }, []);
+
+  // Adapters start loading market data as they are built, so they are built here rather than during render
+  useEffect(() => {
+    const usable: Partial<Record<ExchangeId, ExchangeAdapter>> = {};
+    (Object.keys(apiKeys) as ExchangeId[]).forEach(exchange => {
+      const { key, secret, passphrase, keyId, status } = apiKeys[exchange];
+      const credentials: ExchangeCredentials = { key, secret, passphrase, keyId };
+      if (!hasCredentials(exchange, credentials) || status !== 'saved' || !isExchangeSupported(exchange)) return;
+
+      const cacheKey = `${exchange}:${keyId || key}`;
+      let adapter = adapterCache.current.get(cacheKey);
+      if (!adapter) {
+        adapter = createExchangeAdapter(exchange, credentials);
+        adapterCache.current.set(cacheKey, adapter);
+      }
+      usable[exchange] = adapter;
+    });
+    setAdapters(usable);
+  }, [apiKeys]);
+
+  const executeValidatedTrade = useCallback(async (
+    exchange: string,
+    pair: string,
+    side: 'buy' | 'sell',
+    amount: number,
+    options: OrderOptions = { type: 'market' }
+  ): Promise<ExchangeOrderResult> => {
+    const failed = (error: string): ExchangeOrderResult => ({ success: false, orderIds: [], error });
+
     if (!isLiveMode) {
       logError('error', 'Trade execution blocked', 'Live mode not enabled');
       toast({ title: 'Error', description: 'Live mode must be enabled for real trades', variant: 'destructive' });
-      return false;
+      return failed('Live mode not enabled');
     }
 
-    logError('info', `Executing ${exchange} trade`, `${side} ${amount} ${pair}`);
+    logError('info', `Executing ${exchange} trade`, `${side} ${amount} ${pair} (${options.type})`);
 
-    if (exchange.toLowerCase() === 'kraken') {
-      const { key, secret, status } = apiKeys.kraken;
-      if (!key || !secret || status !== 'saved') {
-        logError('error', 'Kraken trade execution failed', 'API keys not configured or invalid');
-        toast({ title: 'Error', description: 'Kraken API keys not configured or invalid', variant: 'destructive' });
-        return false;
-      }
+    if (!isExchangeSupported(exchange)) {
+      logError('error', `${exchange} trading not implemented`);
+      toast({ title: 'Error', description: `${exchange} trading not implemented`, variant: 'destructive' });
+      return failed(`${exchange} trading not implemented`);
+    }
 
-      try {
-        logError('info', 'Creating Kraken service instance...');
-        const krakenService = createKrakenService(key, secret);
-        
-        // Convert pair format for Kraken API
-        let krakenPair = pair.replace('/', '').toUpperCase();
-        if (krakenPair === 'BTCUSD') krakenPair = 'XBTUSD';
-        if (krakenPair === 'ETHUSD') krakenPair = 'ETHUSD';
-        
-        logError('info', 'Placing validated order...', `Pair: ${krakenPair}, Side: ${side}, Amount: ${amount}`);
-        
-        const result = await krakenService.placeValidatedOrder({
-          pair: krakenPair,
-          type: side,
-          ordertype: 'market',
-          volume: amount.toString()
-        });
-
-        logError('info', 'Order result received', JSON.stringify(result));
-
-        if (result.error && result.error.length > 0) {
-          const errorMsg = result.error[0];
-          logError('error', 'Kraken order failed', errorMsg);
-          
-          // Handle specific error cases with detailed logging
-          if (errorMsg.includes('Insufficient funds')) {
-            logError('error', 'Trade failed: Insufficient funds', 'Check account balance');
-            toast({ title: 'Trade Failed', description: 'Insufficient funds for this trade', variant: 'destructive' });
-          } else if (errorMsg.includes('Order minimum not met')) {
-            logError('error', 'Trade failed: Order minimum not met', `Amount: ${amount}, Pair: ${krakenPair}`);
-            toast({ title: 'Trade Failed', description: 'Order size below minimum requirement', variant: 'destructive' });
-          } else if (errorMsg.includes('Invalid arguments')) {
-            logError('error', 'Trade failed: Invalid arguments', `Pair: ${krakenPair}, Type: ${side}, Volume: ${amount}`);
-            toast({ title: 'Trade Failed', description: 'Invalid order parameters', variant: 'destructive' });
-          } else if (errorMsg.includes('Unknown asset pair')) {
-            logError('error', 'Trade failed: Unknown asset pair', `Pair: ${krakenPair}`);
-            toast({ title: 'Trade Failed', description: 'Invalid trading pair', variant: 'destructive' });
-          } else if (errorMsg.includes('Invalid key')) {
-            logError('error', 'Trade failed: Invalid API key', 'Check API key configuration');
-            toast({ title: 'Trade Failed', description: 'Invalid API key', variant: 'destructive' });
-          } else if (errorMsg.includes('Permission denied')) {
-            logError('error', 'Trade failed: Permission denied', 'Check API key permissions');
-            toast({ title: 'Trade Failed', description: 'API key lacks trading permissions', variant: 'destructive' });
-          } else {
-            logError('error', 'Trade failed: Unknown error', errorMsg);
-            toast({ title: 'Trade Failed', description: errorMsg, variant: 'destructive' });
-          }
-          
-          return false;
-        }
+    const exchangeId = exchange.toLowerCase() as ExchangeId;
+    const adapter = adapters[exchangeId];
+    if (!adapter || apiKeys[exchangeId].status !== 'saved') {
+      logError('error', `${exchange} trade execution failed`, 'API keys not configured or invalid');
+      toast({ title: 'Error', description: `${exchange} API keys not configured or invalid`, variant: 'destructive' });
+      return failed('API keys not configured or invalid');
+    }
 
-        if (result.result) {
-          logError('info', 'Kraken trade executed successfully', `TxID: ${result.result.txid?.[0] || 'N/A'}`);
-          toast({ title: 'Trade Executed', description: `${side.toUpperCase()} ${amount} ${pair} on Kraken` });
-          return true;
-        }
+    try {
+      logError('info', 'Placing validated order...', `Pair: ${pair}, Side: ${side}, Amount: ${amount}, Type: ${options.type}`);
+      
+      const result = await adapter.submitOrder({
+        ...options,
+        pair,
+        side,
+        volume: amount
+      });
 
-        logError('error', 'Kraken trade failed', 'No result returned from API');
-        toast({ title: 'Trade Failed', description: 'No result returned from Kraken API', variant: 'destructive' });
-        return false;
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Trade execution failed';
-        logError('error', 'Kraken trade execution error', errorMessage);
-        
-        // Provide more specific error messages
-        if (errorMessage.includes('Function invocation failed')) {
-          toast({ title: 'Trade Failed', description: 'API connection failed - check your internet connection', variant: 'destructive' });
-        } else if (errorMessage.includes('Invalid API')) {
-          toast({ title: 'Trade Failed', description: 'Invalid API credentials', variant: 'destructive' });
-        } else {
-          toast({ title: 'Trade Failed', description: errorMessage, variant: 'destructive' });
-        }
-        
-        return false;
+      logError('info', 'Order result received', JSON.stringify(result));
+
+      if (!result.success) {
+        const errorMsg = result.error || 'No result returned from API';
+        const errorType = result.errorType || 'unknown';
+        logError('error', `${adapter.displayName} order failed: ${errorType}`, `${errorMsg} (${side} ${amount} ${pair})`);
+        notifyTradeError(exchangeId, errorType, errorMsg);
+        return { ...result, error: errorMsg, errorType };
       }
+
+      logError('info', `${adapter.displayName} trade executed successfully`, `Order IDs: ${result.orderIds.join(', ') || 'N/A'}`);
+      toast({ title: 'Trade Executed', description: `${side.toUpperCase()} ${result.adjustedVolume ?? amount} ${pair} on ${adapter.displayName}` });
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Trade execution failed';
+      const errorType = error instanceof KrakenError ? error.type : 'unknown';
+      logError('error', `${exchange} trade execution error: ${errorType}`, errorMessage);
+      notifyTradeError(exchangeId, errorType, errorMessage);
+      return { ...failed(errorMessage), errorType };
     }
+  }, [isLiveMode, apiKeys, adapters, notifyTradeError]);
 
-    logError('error', `${exchange} trading not implemented`);
-    toast({ title: 'Error', description: `${exchange} trading not implemented`, variant: 'destructive' });
-    return false;
+  const dropCachedAdapters = (exchange: ExchangeId) => {
+    for (const cacheKey of [...adapterCache.current.keys()]) {
+      if (cacheKey.startsWith(`${exchange}:`)) adapterCache.current.delete(cacheKey);
+    }
   };
 
+  const getAdapter = useCallback((exchange: ExchangeId): ExchangeAdapter | null => adapters[exchange] || null, [adapters]);
+
+  // Fills and order changes stream in while live trading on Kraken. Adapters are cached, so this
+  // only changes when the Kraken keys do
+  const krakenAdapter = isLiveMode ? adapters.kraken || null : null;
+
+  useEffect(() => {
+    if (!krakenAdapter?.getWebSocketsToken) return;
+
+    const stream = new KrakenPrivateStreamClient(() => krakenAdapter.getWebSocketsToken());
+    const offFill = stream.onFill(fill => {
+      krakenAdapter.applyFill?.(fill);
+      logError('info', `Fill received: ${fill.side} ${fill.volume} ${fill.pair} @ ${fill.price}`, `Order ${fill.orderId}`);
+    });
+    const offStatus = stream.onStatus(status => krakenAdapter.setFillStreamActive?.(status === 'open'));
+
+    stream.start();
+    setKrakenPrivateStream(stream);
+    return () => {
+      offFill();
+      offStatus();
+      stream.stop();
+      krakenAdapter.setFillStreamActive?.(false);
+      setKrakenPrivateStream(null);
+    };
+  }, [krakenAdapter]);
+
   return (
     <TradingContext.Provider value={{
       isLiveMode, setIsLiveMode, showLiveWarning, setShowLiveWarning,
-      apiKeys, updateApiKey, testConnection, clearApiKey, executeValidatedTrade
+      apiKeys, updateApiKey, testConnection, clearApiKey, executeValidatedTrade, getAdapter,
+      krakenPrivateStream
     }}>
       {children}
     </TradingContext.Provider>
@@ -0,0 +1,18 @@
+import * as React from "react"
+import { krakenStream, StreamStatus, StreamTicker } from "@/services/krakenStream"
+
+export function useTickerStream(symbol: string) {
+  const [ticker, setTicker] = React.useState<StreamTicker | null>(() => krakenStream.getTicker(symbol));
+
+  React.useEffect(() => krakenStream.subscribeTicker(symbol, setTicker), [symbol]);
+
+  return ticker;
+}
+
+export function useStreamStatus() {
+  const [status, setStatus] = React.useState<StreamStatus>(() => krakenStream.getStatus());
+
+  React.useEffect(() => krakenStream.onStatus(setStatus), []);
+
+  return status;
+}
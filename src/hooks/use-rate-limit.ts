@@ -0,0 +1,24 @@
+import * as React from "react"
+import { getKrakenRateLimiter, KrakenTier, RateLimitStatus } from "@/services/krakenRateLimiter"
+
+// Counters decay continuously, so the status is re-read every second as well as on changes
+const REFRESH_INTERVAL = 1000;
+
+export function useKrakenRateLimit(apiKey: string) {
+  const limiter = React.useMemo(() => getKrakenRateLimiter(apiKey), [apiKey]);
+  const [status, setStatus] = React.useState<RateLimitStatus>(() => limiter.getStatus());
+
+  React.useEffect(() => {
+    setStatus(limiter.getStatus());
+    const unsubscribe = limiter.onChange(setStatus);
+    const timer = setInterval(() => setStatus(limiter.getStatus()), REFRESH_INTERVAL);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [limiter]);
+
+  const setTier = React.useCallback((tier: KrakenTier) => limiter.setTier(tier), [limiter]);
+
+  return { status, setTier };
+}
@@ -0,0 +1,16 @@
+import * as React from "react"
+import { Session } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabase"
+
+// The Supabase session whose token the kraken-api edge function authenticates
+export function useSupabaseSession() {
+  const [session, setSession] = React.useState<Session | null>(null);
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session));
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  return session;
+}
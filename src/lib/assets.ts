@@ -0,0 +1,143 @@
+export interface AssetInfo {
+  ticker: string; // Common ticker, e.g. BTC
+  krakenCode: string; // Balance and ledger code, e.g. XXBT
+  altname: string; // Used in pair names, e.g. XBT in XBTUSD
+  name: string;
+  coingeckoId?: string;
+  aliases?: string[];
+  decimals?: number; // Display precision; crypto defaults to 8
+}
+
+export type StakingSuffix = '.S' | '.M' | '.F';
+
+export interface ParsedAsset {
+  asset: AssetInfo;
+  suffix?: StakingSuffix;
+}
+
+// Older Kraken listings carry an X (crypto) or Z (fiat) prefix on their
+// balance codes, and Bitcoin and Dogecoin trade under XBT and XDG
+const ASSETS: AssetInfo[] = [
+  { ticker: 'BTC', krakenCode: 'XXBT', altname: 'XBT', name: 'Bitcoin', coingeckoId: 'bitcoin', aliases: ['BITCOIN'] },
+  { ticker: 'ETH', krakenCode: 'XETH', altname: 'ETH', name: 'Ethereum', coingeckoId: 'ethereum', aliases: ['ETHEREUM', 'ETH2'] },
+  { ticker: 'XRP', krakenCode: 'XXRP', altname: 'XRP', name: 'Ripple', coingeckoId: 'ripple', aliases: ['RIPPLE'] },
+  { ticker: 'LTC', krakenCode: 'XLTC', altname: 'LTC', name: 'Litecoin', coingeckoId: 'litecoin', aliases: ['LITECOIN'] },
+  { ticker: 'XLM', krakenCode: 'XXLM', altname: 'XLM', name: 'Stellar', coingeckoId: 'stellar' },
+  { ticker: 'DOGE', krakenCode: 'XXDG', altname: 'XDG', name: 'Dogecoin', coingeckoId: 'dogecoin' },
+  { ticker: 'ETC', krakenCode: 'XETC', altname: 'ETC', name: 'Ethereum Classic', coingeckoId: 'ethereum-classic' },
+  { ticker: 'XMR', krakenCode: 'XXMR', altname: 'XMR', name: 'Monero', coingeckoId: 'monero' },
+  { ticker: 'ZEC', krakenCode: 'XZEC', altname: 'ZEC', name: 'Zcash', coingeckoId: 'zcash' },
+  { ticker: 'ADA', krakenCode: 'ADA', altname: 'ADA', name: 'Cardano', coingeckoId: 'cardano' },
+  { ticker: 'DOT', krakenCode: 'DOT', altname: 'DOT', name: 'Polkadot', coingeckoId: 'polkadot' },
+  { ticker: 'SOL', krakenCode: 'SOL', altname: 'SOL', name: 'Solana', coingeckoId: 'solana' },
+  { ticker: 'USDT', krakenCode: 'USDT', altname: 'USDT', name: 'Tether', coingeckoId: 'tether', decimals: 2 },
+  { ticker: 'USDC', krakenCode: 'USDC', altname: 'USDC', name: 'USD Coin', coingeckoId: 'usd-coin', decimals: 2 },
+  { ticker: 'USD', krakenCode: 'ZUSD', altname: 'USD', name: 'US Dollar', decimals: 2 },
+  { ticker: 'EUR', krakenCode: 'ZEUR', altname: 'EUR', name: 'Euro', decimals: 2 },
+  { ticker: 'GBP', krakenCode: 'ZGBP', altname: 'GBP', name: 'British Pound', decimals: 2 },
+  { ticker: 'CAD', krakenCode: 'ZCAD', altname: 'CAD', name: 'Canadian Dollar', decimals: 2 },
+  { ticker: 'JPY', krakenCode: 'ZJPY', altname: 'JPY', name: 'Japanese Yen', decimals: 0 },
+  { ticker: 'AUD', krakenCode: 'ZAUD', altname: 'AUD', name: 'Australian Dollar', decimals: 2 },
+  { ticker: 'CHF', krakenCode: 'CHF', altname: 'CHF', name: 'Swiss Franc', decimals: 2 }
+];
+
+const STAKING_SUFFIXES: StakingSuffix[] = ['.S', '.M', '.F'];
+
+const STAKING_LABELS: Record<StakingSuffix, string> = {
+  '.S': 'staked',
+  '.M': 'opt-in rewards',
+  '.F': 'auto-earn'
+};
+
+const byCode = new Map<string, AssetInfo>();
+ASSETS.forEach(asset => {
+  [asset.ticker, asset.krakenCode, asset.altname, ...(asset.aliases || [])].forEach(code => byCode.set(code, asset));
+});
+
+/**
+ * Resolves any name an asset goes by (XXBT, XBT, BTC, DOT.S) to its registry
+ * entry. Assets the registry does not know are passed through unchanged, so
+ * newer listings without X/Z prefixes still work.
+ */
+export const parseAsset = (code: string): ParsedAsset => {
+  const upper = code.trim().toUpperCase();
+  const suffix = STAKING_SUFFIXES.find(candidate => upper.endsWith(candidate));
+  const bare = suffix ? upper.slice(0, -suffix.length) : upper;
+  const asset = byCode.get(bare) || { ticker: bare, krakenCode: bare, altname: bare, name: bare };
+  return suffix ? { asset, suffix } : { asset };
+};
+
+export const toTicker = (code: string): string => parseAsset(code).asset.ticker;
+
+/** Kraken balance code for an asset, keeping any staking suffix. */
+export const toKrakenAsset = (code: string): string => {
+  const { asset, suffix } = parseAsset(code);
+  return suffix ? `${asset.altname}${suffix}` : asset.krakenCode;
+};
+
+export const getAssetDecimals = (code: string): number => parseAsset(code).asset.decimals ?? 8;
+
+export const toKrakenAltname = (code: string): string => parseAsset(code).asset.altname;
+
+export const getAssetName = (code: string): string => {
+  const { asset, suffix } = parseAsset(code);
+  return suffix ? `${asset.name} (${STAKING_LABELS[suffix]})` : asset.name;
+};
+
+/** Ticker plus staking suffix, e.g. BTC or DOT.S, for compact balance lists. */
+export const getAssetLabel = (code: string): string => {
+  const { asset, suffix } = parseAsset(code);
+  return `${asset.ticker}${suffix || ''}`;
+};
+
+export const isStakedAsset = (code: string): boolean => parseAsset(code).suffix !== undefined;
+
+export const isSameAsset = (a: string, b: string): boolean => {
+  const left = parseAsset(a);
+  const right = parseAsset(b);
+  return left.asset.ticker === right.asset.ticker && left.suffix === right.suffix;
+};
+
+/** Key under which `asset` is held in a balance map, whichever code the exchange used. */
+export const findBalanceCode = (balances: { [code: string]: unknown }, asset: string): string | undefined =>
+  Object.keys(balances).find(code => isSameAsset(code, asset));
+
+/** Kraken pair name from any slash form, e.g. BTC/USD or XBT/USD to XBTUSD. */
+export const toKrakenPair = (pair: string): string => {
+  if (!pair.includes('/')) {
+    // Without a separator the base cannot be split off reliably; only Bitcoin needs renaming in practice
+    const compact = pair.toUpperCase();
+    return compact.startsWith('BTC') ? `XBT${compact.slice(3)}` : compact;
+  }
+  const [base, quote] = pair.split('/');
+  return `${toKrakenAltname(base)}${toKrakenAltname(quote)}`;
+};
+
+// Assets Kraken lists pairs against, by ticker
+const QUOTE_TICKERS = ['USD', 'EUR', 'GBP', 'CAD', 'JPY', 'AUD', 'CHF', 'USDT', 'USDC', 'BTC', 'ETH', 'DOT'];
+
+// Every code a quote may appear under in a compact name, longest first so USDT wins over USD
+const QUOTE_CODES = ASSETS
+  .filter(asset => QUOTE_TICKERS.includes(asset.ticker))
+  .flatMap(asset => [asset.ticker, asset.krakenCode, asset.altname])
+  .filter((code, index, codes) => codes.indexOf(code) === index)
+  .sort((a, b) => b.length - a.length);
+
+/**
+ * Base and quote codes of a pair in any form: BTC/USD, ETHXBT, SOLUSDT or
+ * XXBTZUSD. Compact names are split on a known quote suffix; names without
+ * one are assumed to be quoted in USD.
+ */
+export const splitPair = (pair: string): [string, string] => {
+  if (pair.includes('/')) {
+    const [base, quote] = pair.split('/');
+    return [base, quote];
+  }
+  const compact = pair.toUpperCase();
+  const quote = QUOTE_CODES.find(code => compact.length > code.length && compact.endsWith(code));
+  return quote ? [compact.slice(0, -quote.length), quote] : [compact, 'USD'];
+};
+
+/** Dashboard pair form from Kraken's wsname, e.g. XBT/USD to BTC/USD. */
+export const toDisplayPair = (pair: string): string =>
+  pair.split('/').map(toTicker).join('/');
@@ -0,0 +1,46 @@
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  let binary = '';
+  new Uint8Array(buffer).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+};
+
+const hmacSha256 = async (secret: string, message: string): Promise<ArrayBuffer> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', key, encoder.encode(message));
+};
+
+export const hmacSha256Hex = async (secret: string, message: string): Promise<string> => {
+  return toHex(await hmacSha256(secret, message));
+};
+
+export const hmacSha256Base64 = async (secret: string, message: string): Promise<string> => {
+  return toBase64(await hmacSha256(secret, message));
+};
+
+export const sha256 = async (message: string): Promise<Uint8Array> => {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(message)));
+};
+
+export const sha256Hex = async (message: string): Promise<string> => {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(message)));
+};
+
+// Some exchanges (e.g. Kraken) issue base64 secrets that are used as raw key bytes
+export const hmacSha512Base64 = async (secretBase64: string, message: Uint8Array): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', fromBase64(secretBase64), { name: 'HMAC', hash: 'SHA-512' }, false, ['sign']);
+  return toBase64(await crypto.subtle.sign('HMAC', key, message));
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { signKrakenRequest } from './krakenApi';
+
+describe('signKrakenRequest', () => {
+  it('reproduces the example signature from Kraken\'s REST authentication docs', async () => {
+    const signature = await signKrakenRequest(
+      '/0/private/AddOrder',
+      '1616492376594',
+      'nonce=1616492376594&ordertype=limit&pair=XBTUSD&price=37500&type=buy&volume=1.25',
+      'kQH5HW/8p1uGOVjbgWA7FunAmGO8lsSUXNsu3eow76sz84Q18fWxnyRzBHCd3pd5nE9qa99HAZtuZuj6F1huXg=='
+    );
+
+    expect(signature).toBe('4/dpxb3iT4tp/ZCVEwSnEsLxx0bqyhLpdfOpc6fn7OR8+UClSV5n9E6aSS8MPtnRfp32bAb0nmbRn6H8ndwLUQ==');
+  });
+});
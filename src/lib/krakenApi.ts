@@ -0,0 +1,164 @@
+import { supabase } from './supabase';
+import { hmacSha512Base64, sha256 } from './crypto';
+
+// When set, private Kraken calls go to this URL (e.g. the local mock in
+// mocks/kraken-api-server.mjs) instead of the hosted Supabase edge function.
+const KRAKEN_API_URL = import.meta.env.VITE_KRAKEN_API_URL;
+
+export const KRAKEN_PUBLIC_URL = (import.meta.env.VITE_KRAKEN_PUBLIC_URL || 'https://api.kraken.com').replace(/\/$/, '');
+
+export const KRAKEN_WS_URL = import.meta.env.VITE_KRAKEN_WS_URL || 'wss://ws.kraken.com/v2';
+
+export const KRAKEN_WS_AUTH_URL = import.meta.env.VITE_KRAKEN_WS_AUTH_URL || 'wss://ws-auth.kraken.com';
+
+// edge: through the kraken-api edge function, which keeps the keys server-side;
+// direct: signed requests straight to Kraken's private REST API, or to the
+// mock's copy of it (Kraken itself does not allow browser origins)
+export type KrakenTransportKind = 'edge' | 'direct';
+
+export const KRAKEN_TRANSPORT: KrakenTransportKind = import.meta.env.VITE_KRAKEN_TRANSPORT === 'direct' ? 'direct' : 'edge';
+
+export interface KrakenApiEnvelope {
+  error?: string[];
+  result?: unknown;
+}
+
+export interface KrakenApiResponse {
+  data: KrakenApiEnvelope | null;
+  error: { message: string } | null;
+}
+
+export const invokeKrakenApi = async (body: Record<string, unknown>): Promise<KrakenApiResponse> => {
+  if (!KRAKEN_API_URL) {
+    return supabase.functions.invoke('kraken-api', { body });
+  }
+
+  try {
+    // supabase.functions.invoke attaches the session itself
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(KRAKEN_API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session ? { Authorization: `Bearer ${session.access_token}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      return { data: null, error: { message: `Edge Function returned a non-2xx status code (${response.status})` } };
+    }
+
+    return { data: await response.json(), error: null };
+  } catch (error) {
+    return { data: null, error: { message: error instanceof Error ? error.message : 'Failed to reach kraken-api' } };
+  }
+};
+
+export interface KrakenTransport {
+  readonly kind: KrakenTransportKind;
+  send(action: string, params: Record<string, unknown>): Promise<KrakenApiResponse>;
+}
+
+/**
+ * The edge function signs with the keys stored for the signed-in user, so
+ * only the session token travels with each call.
+ */
+export const createEdgeFunctionTransport = (): KrakenTransport => ({
+  kind: 'edge',
+  send: (action, params) => invokeKrakenApi({ action, ...params })
+});
+
+// Edge function action names to Kraken's private REST methods; the function
+// keeps its own copy in supabase/functions/kraken-api
+const PRIVATE_METHODS: { [action: string]: string } = {
+  getBalance: 'Balance',
+  getBalanceEx: 'BalanceEx',
+  tradeVolume: 'TradeVolume',
+  placeOrder: 'AddOrder',
+  editOrder: 'EditOrder',
+  cancelOrder: 'CancelOrder',
+  cancelAll: 'CancelAll',
+  cancelAllOrdersAfter: 'CancelAllOrdersAfter',
+  openOrders: 'OpenOrders',
+  closedOrders: 'ClosedOrders',
+  queryOrders: 'QueryOrders',
+  tradesHistory: 'TradesHistory',
+  ledgers: 'Ledgers',
+  getWebSocketsToken: 'GetWebSocketsToken'
+};
+
+/**
+ * Kraken's API-Sign header: HMAC-SHA512 of the URI path followed by
+ * SHA-256(nonce + POST data), keyed with the base64-decoded secret.
+ */
+export const signKrakenRequest = async (path: string, nonce: string, postData: string, secret: string): Promise<string> => {
+  const pathBytes = new TextEncoder().encode(path);
+  const digest = await sha256(nonce + postData);
+  const message = new Uint8Array(pathBytes.length + digest.length);
+  message.set(pathBytes);
+  message.set(digest, pathBytes.length);
+  return hmacSha512Base64(secret, message);
+};
+
+// Kraken rejects any nonce not above the last one it saw for a key, so every
+// direct transport sharing a key draws from the same counter
+const lastNonces = new Map<string, number>();
+
+const nextNonce = (apiKey: string): string => {
+  const nonce = Math.max(Date.now(), (lastNonces.get(apiKey) || 0) + 1);
+  lastNonces.set(apiKey, nonce);
+  return nonce.toString();
+};
+
+const encodeForm = (params: Record<string, unknown>): string => {
+  const form = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) form.append(key, String(value));
+  });
+  return form.toString();
+};
+
+/**
+ * Calls Kraken's private REST API directly, signing each request locally so
+ * the secret never leaves the process. Answers in the edge function's shape.
+ * Do not share a key with the edge function: its nonces would not be ordered
+ * against these.
+ */
+export const createDirectTransport = (apiKey: string, apiSecret: string, baseUrl: string = KRAKEN_PUBLIC_URL): KrakenTransport => ({
+  kind: 'direct',
+  send: async (action, params) => {
+    const method = PRIVATE_METHODS[action];
+    if (!method) {
+      return { data: { error: [`EGeneral:Unknown action ${action}`] }, error: null };
+    }
+
+    const path = `/0/private/${method}`;
+    const nonce = nextNonce(apiKey);
+    const postData = encodeForm({ nonce, ...params });
+
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8',
+          'API-Key': apiKey,
+          'API-Sign': await signKrakenRequest(path, nonce, postData, apiSecret)
+        },
+        body: postData
+      });
+
+      if (!response.ok) {
+        return { data: null, error: { message: `Kraken returned a non-2xx status code (${response.status})` } };
+      }
+
+      return { data: await response.json(), error: null };
+    } catch (error) {
+      return { data: null, error: { message: error instanceof Error ? error.message : 'Failed to reach Kraken' } };
+    }
+  }
+});
+
+export const createKrakenTransport = (apiKey: string, apiSecret: string, kind: KrakenTransportKind = KRAKEN_TRANSPORT): KrakenTransport => {
+  return kind === 'direct' ? createDirectTransport(apiKey, apiSecret) : createEdgeFunctionTransport();
+};
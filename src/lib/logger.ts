@@ -0,0 +1,14 @@
+export type LogLevel = 'error' | 'warning' | 'info';
+
+export type Logger = (type: LogLevel, message: string, details?: string) => void;
+
+/**
+ * Logger for one module: writes to the console and, while ErrorLogger is
+ * mounted, to its panel under `source`.
+ */
+export const createLogger = (source: string): Logger => (type, message, details) => {
+  console.log(`[${type.toUpperCase()}] ${message}`, details || '');
+  if (typeof window !== 'undefined' && window.logError) {
+    window.logError(type, message, details, source);
+  }
+};
@@ -0,0 +1,70 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { priceSnapshot } from '@/test/fixtures';
+import { BinanceService } from './binanceService';
+import { priceOracle } from './priceOracle';
+
+// mocks/binance-server.mjs checks signatures and symbol filters the way Binance does
+const PORT = 18081;
+const MOCK_URL = `http://localhost:${PORT}`;
+
+let server: ChildProcess;
+
+const startServer = () => new Promise<ChildProcess>((resolve, reject) => {
+  const child = spawn(process.execPath, ['mocks/binance-server.mjs'], { env: { ...process.env, MOCK_BINANCE_PORT: String(PORT) } });
+  child.stdout.on('data', chunk => {
+    if (String(chunk).includes('Mock Binance API')) resolve(child);
+  });
+  child.on('exit', code => reject(new Error(`Binance mock exited with ${code}`)));
+});
+
+describe('BinanceService', () => {
+  let service: BinanceService;
+
+  beforeAll(async () => {
+    server = await startServer();
+  });
+
+  afterAll(() => {
+    server?.kill();
+  });
+
+  beforeEach(() => {
+    service = new BinanceService('mock-key', 'mock-secret', MOCK_URL);
+    vi.spyOn(priceOracle, 'getSnapshot').mockReturnValue(priceSnapshot({ BTC: 60000, ETH: 3000, USDT: 1 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('validates orders against the symbol\'s own filters', async () => {
+    await service.getAccountBalance();
+    const validator = service.getTradeValidator();
+
+    // Below Kraken's default minimum size, but within BTCUSDT's
+    expect(validator.validateTrade({ pair: 'BTC/USDT', side: 'buy', amount: 0.0001 }).isValid).toBe(true);
+
+    const tooPrecise = validator.validateTrade({ pair: 'BTC/USDT', side: 'buy', amount: 0.000123 });
+    expect(tooPrecise.error).toBe('Order size 0.000123 has more than 5 decimals for BTC/USDT');
+    expect(tooPrecise.adjustedAmount).toBe(0.00012);
+
+    const tooSmall = validator.validateTrade({ pair: 'BTC/USDT', side: 'buy', amount: 0.00005 });
+    expect(tooSmall.error).toBe('Order value 3.00 is below minimum 5 USDT for BTC/USDT');
+  });
+
+  it('floors a market order to the symbol\'s lot step', async () => {
+    const result = await service.submitOrder({ pair: 'XRP/USDT', side: 'buy', type: 'market', volume: 20.7 });
+
+    expect(result).toMatchObject({ success: true, adjustedVolume: 20 });
+  });
+
+  it('reports orders under the dashboard pair rather than Binance\'s symbol', async () => {
+    const placed = await service.submitOrder({ pair: 'ETH/BTC', side: 'buy', type: 'limit', volume: 0.5, price: 0.04 });
+    expect(placed.success).toBe(true);
+
+    expect((await service.getOrder(placed.orderIds[0])).pair).toBe('ETH/BTC');
+    expect((await service.getOpenOrders()).map(order => order.pair)).toEqual(['ETH/BTC']);
+    expect(await service.cancelAllOrders()).toBe(1);
+  });
+});
@@ -0,0 +1,480 @@
+import { splitPair, toDisplayPair, toKrakenPair } from '@/lib/assets';
+import { hmacSha256Hex } from '@/lib/crypto';
+import { createLogger } from '@/lib/logger';
+import { AssetPair } from './marketData';
+import { priceOracle } from './priceOracle';
+import { TradeValidator } from './tradeValidator';
+import {
+  ExchangeAdapter,
+  ExchangeBalance,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeOrderStatus,
+  ExchangeTicker
+} from './exchangeAdapter';
+
+export interface BinanceSymbolFilters {
+  symbol: string;
+  status: string;
+  minQty: number;
+  maxQty: number;
+  stepSize: number;
+  minPrice: number;
+  maxPrice: number;
+  tickSize: number;
+  minNotional: number;
+}
+
+interface BinanceOrderPayload {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  cummulativeQuoteQty: string;
+  status: string;
+  type: string;
+  side: 'BUY' | 'SELL';
+  time?: number;
+  transactTime?: number;
+  updateTime?: number;
+}
+
+interface BinanceErrorPayload {
+  code: number;
+  msg: string;
+}
+
+const BINANCE_API_URL = import.meta.env.VITE_BINANCE_API_URL || 'https://api.binance.com';
+
+const logError = createLogger('Binance Service');
+
+// Binance quotes sizes and prices to at most 8 decimals
+const stepDecimals = (step: number): number => step ? Math.max(0, Math.round(-Math.log10(step))) : 8;
+
+// Round down to the exchange step so a rounded order never exceeds the request
+const floorToStep = (value: number, step: number): number => {
+  if (!step) return value;
+  return parseFloat((Math.floor(value / step + 1e-9) * step).toFixed(stepDecimals(step)));
+};
+
+const roundToStep = (value: number, step: number): number => {
+  if (!step) return value;
+  return parseFloat((Math.round(value / step) * step).toFixed(stepDecimals(step)));
+};
+
+// Dashboard form of a Binance symbol, e.g. BTCUSDT to BTC/USDT
+const toPair = (symbol: string): string => toDisplayPair(splitPair(symbol).join('/'));
+
+// A symbol's filters as the pair limits TradeValidator checks orders against
+const toAssetPair = (filters: BinanceSymbolFilters): AssetPair => {
+  const [base, quote] = splitPair(filters.symbol);
+  const symbol = toPair(filters.symbol);
+  return {
+    name: filters.symbol,
+    symbol,
+    altname: toKrakenPair(symbol), // What findAssetPair matches requested pairs against
+    wsname: symbol,
+    base,
+    quote,
+    orderMin: filters.minQty,
+    costMin: filters.minNotional,
+    lotDecimals: stepDecimals(filters.stepSize),
+    priceDecimals: stepDecimals(filters.tickSize),
+    tickSize: filters.tickSize,
+    status: filters.status === 'TRADING' ? 'online' : 'cancel_only'
+  };
+};
+
+export class BinanceService implements ExchangeAdapter {
+  readonly exchange = 'binance' as const;
+  readonly displayName = 'Binance';
+  private apiKey: string;
+  private apiSecret: string;
+  private baseUrl: string;
+  private recvWindow: number = 5000;
+  private cachedBalances: ExchangeBalance = {};
+  private lastBalanceUpdate: number = 0;
+  private balanceUpdateInterval: number = 30000;
+  private symbolFilters: { [symbol: string]: BinanceSymbolFilters } = {};
+  private lastExchangeInfoUpdate: number = 0;
+  private exchangeInfoInterval: number = 3600000;
+
+  constructor(apiKey: string, apiSecret: string, baseUrl: string = BINANCE_API_URL) {
+    this.apiKey = apiKey;
+    this.apiSecret = apiSecret;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async getAccountBalance(): Promise<ExchangeBalance> {
+    const now = Date.now();
+    if (now - this.lastBalanceUpdate < this.balanceUpdateInterval && Object.keys(this.cachedBalances).length > 0) {
+      return this.cachedBalances;
+    }
+
+    try {
+      logError('info', 'Fetching Binance account balance...');
+      const account = await this.signedRequest<{ balances: { asset: string; free: string; locked: string }[] }>('GET', '/api/v3/account');
+
+      const balances: ExchangeBalance = {};
+      account.balances.forEach(({ asset, free }) => {
+        if (parseFloat(free) > 0) {
+          balances[asset] = free;
+        }
+      });
+
+      this.cachedBalances = balances;
+      this.lastBalanceUpdate = now;
+      logError('info', 'Binance balance updated', `${Object.keys(balances).length} assets with balance`);
+
+      // getTradeValidator checks orders against the symbol filters; a failed refresh keeps the last ones
+      if (now - this.lastExchangeInfoUpdate > this.exchangeInfoInterval) {
+        await this.loadExchangeInfo().catch(error => {
+          logError('warning', 'Failed to load Binance exchange info', error instanceof Error ? error.message : 'Unknown error');
+        });
+      }
+
+      return this.cachedBalances;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch balance';
+      logError('error', 'Balance fetch failed', errorMessage);
+      throw error;
+    }
+  }
+
+  async getSymbolFilters(symbol: string): Promise<BinanceSymbolFilters> {
+    const now = Date.now();
+    if (now - this.lastExchangeInfoUpdate > this.exchangeInfoInterval || !this.symbolFilters[symbol]) {
+      await this.loadExchangeInfo();
+    }
+
+    const filters = this.symbolFilters[symbol];
+    if (!filters) {
+      throw new Error(`Invalid trading pair: ${symbol}`);
+    }
+    return filters;
+  }
+
+  async submitOrder(request: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    const symbol = this.toBinanceSymbol(request.pair);
+
+    if (request.type !== 'market' && request.type !== 'limit') {
+      return { success: false, orderIds: [], error: `${request.type} orders are not supported on Binance spot` };
+    }
+    if ((request.leverage && request.leverage > 1) || request.reduceOnly) {
+      return { success: false, orderIds: [], error: 'Leveraged orders are not supported on Binance spot' };
+    }
+    if (request.timeInForce === 'GTD') {
+      return { success: false, orderIds: [], error: 'Good-til-date orders are not supported on Binance spot' };
+    }
+
+    try {
+      const filters = await this.getSymbolFilters(symbol);
+      if (filters.status !== 'TRADING') {
+        return { success: false, orderIds: [], error: `${symbol} is not currently trading (${filters.status})` };
+      }
+
+      const quantity = floorToStep(request.volume, filters.stepSize);
+      const adjustedVolume = quantity !== request.volume ? quantity : undefined;
+
+      if (quantity < filters.minQty) {
+        return { success: false, orderIds: [], error: `Order size ${request.volume} is below minimum ${filters.minQty} for ${request.pair}` };
+      }
+      if (filters.maxQty && quantity > filters.maxQty) {
+        return { success: false, orderIds: [], error: `Order size ${request.volume} is above maximum ${filters.maxQty} for ${request.pair}` };
+      }
+
+      const params: Record<string, string> = {
+        symbol,
+        side: request.side.toUpperCase(),
+        type: request.type.toUpperCase(),
+        quantity: quantity.toString(),
+        newOrderRespType: 'RESULT'
+      };
+
+      let referencePrice = request.price;
+      if (request.type === 'limit') {
+        if (request.price === undefined) {
+          return { success: false, orderIds: [], error: 'Limit orders require a price' };
+        }
+        const price = roundToStep(request.price, filters.tickSize);
+        if (price < filters.minPrice || (filters.maxPrice && price > filters.maxPrice)) {
+          return { success: false, orderIds: [], error: `Invalid price specified for ${request.pair}` };
+        }
+        params.price = price.toString();
+        // Binance expresses post-only as its own LIMIT_MAKER order type
+        if (request.postOnly) {
+          params.type = 'LIMIT_MAKER';
+        } else {
+          params.timeInForce = request.timeInForce || 'GTC';
+        }
+        referencePrice = price;
+      } else if (referencePrice === undefined) {
+        referencePrice = (await this.getTicker(request.pair)).last;
+      }
+
+      if (filters.minNotional && quantity * referencePrice < filters.minNotional) {
+        return { success: false, orderIds: [], error: `Order value below minimum notional ${filters.minNotional} for ${request.pair}` };
+      }
+
+      if (request.side === 'sell') {
+        const balances = await this.getAccountBalance();
+        const baseAsset = request.pair.split('/')[0].toUpperCase();
+        const available = parseFloat(balances[baseAsset] || '0');
+        if (available < quantity) {
+          return { success: false, orderIds: [], error: `Insufficient funds: ${available} ${baseAsset} available` };
+        }
+      }
+
+      logError('info', 'Sending order to Binance API', JSON.stringify(params));
+      const order = await this.signedRequest<BinanceOrderPayload>('POST', '/api/v3/order', params);
+
+      this.lastBalanceUpdate = 0; // Invalidate balance cache
+      logError('info', 'Order placed successfully', `Order ID: ${order.orderId}`);
+
+      return {
+        success: true,
+        orderIds: [this.toOrderId(order)],
+        description: `${order.side.toLowerCase()} ${order.origQty} ${order.symbol} @ ${order.type.toLowerCase()}`,
+        adjustedVolume
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Order placement failed';
+      logError('error', 'Order placement error', errorMessage);
+      return { success: false, orderIds: [], error: errorMessage };
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    const [symbol, id] = this.parseOrderId(orderId);
+    logError('info', 'Cancelling Binance order', orderId);
+    const order = await this.signedRequest<BinanceOrderPayload>('DELETE', '/api/v3/order', { symbol, orderId: id });
+    this.lastBalanceUpdate = 0;
+    return order.status === 'CANCELED';
+  }
+
+  async cancelAllOrders(): Promise<number> {
+    // Binance only cancels all orders one symbol at a time
+    const openOrders = await this.getOpenOrders();
+    const symbols = [...new Set(openOrders.map(order => this.toBinanceSymbol(order.pair)))];
+    let count = 0;
+    for (const symbol of symbols) {
+      const cancelled = await this.signedRequest<BinanceOrderPayload[]>('DELETE', '/api/v3/openOrders', { symbol });
+      count += cancelled.length;
+    }
+    this.lastBalanceUpdate = 0;
+    logError('info', 'Binance orders cancelled', `Count: ${count}`);
+    return count;
+  }
+
+  async getOrder(orderId: string): Promise<ExchangeOrder | null> {
+    const [symbol, id] = this.parseOrderId(orderId);
+    try {
+      const order = await this.signedRequest<BinanceOrderPayload>('GET', '/api/v3/order', { symbol, orderId: id });
+      return this.toExchangeOrder(order);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Order does not exist')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getOpenOrders(): Promise<ExchangeOrder[]> {
+    const orders = await this.signedRequest<BinanceOrderPayload[]>('GET', '/api/v3/openOrders');
+    return orders.map(order => this.toExchangeOrder(order));
+  }
+
+  async getTicker(pair: string): Promise<ExchangeTicker> {
+    const symbol = this.toBinanceSymbol(pair);
+    const ticker = await this.publicRequest<{ bidPrice: string; askPrice: string; lastPrice: string; volume: string; priceChangePercent: string }>(
+      '/api/v3/ticker/24hr',
+      { symbol }
+    );
+
+    return {
+      pair,
+      bid: parseFloat(ticker.bidPrice),
+      ask: parseFloat(ticker.askPrice),
+      last: parseFloat(ticker.lastPrice),
+      volume24h: parseFloat(ticker.volume),
+      change24h: parseFloat(ticker.priceChangePercent)
+    };
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      logError('info', 'Testing Binance connection...');
+      await this.publicRequest('/api/v3/ping');
+      this.lastBalanceUpdate = 0;
+      await this.getAccountBalance();
+      logError('info', 'Binance connection test successful');
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Connection test failed';
+      logError('error', 'Binance connection test failed', errorMessage);
+      return false;
+    }
+  }
+
+  getTradeValidator(): TradeValidator | null {
+    if (Object.keys(this.cachedBalances).length === 0) {
+      return null;
+    }
+    return new TradeValidator(this.cachedBalances, priceOracle.getSnapshot(), Object.values(this.symbolFilters).map(toAssetPair));
+  }
+
+  toBinanceSymbol(pair: string): string {
+    return pair.replace('/', '').replace('-', '').toUpperCase();
+  }
+
+  private async loadExchangeInfo() {
+    const info = await this.publicRequest<{ symbols: { symbol: string; status: string; filters: Record<string, string>[] }[] }>('/api/v3/exchangeInfo');
+
+    const filters: { [symbol: string]: BinanceSymbolFilters } = {};
+    info.symbols.forEach(({ symbol, status, filters: symbolFilters }) => {
+      const find = (filterType: string) => symbolFilters.find(f => f.filterType === filterType) || {};
+      const lotSize = find('LOT_SIZE');
+      const priceFilter = find('PRICE_FILTER');
+      const notional = symbolFilters.find(f => f.filterType === 'NOTIONAL' || f.filterType === 'MIN_NOTIONAL') || {};
+
+      filters[symbol] = {
+        symbol,
+        status,
+        minQty: parseFloat(lotSize.minQty || '0'),
+        maxQty: parseFloat(lotSize.maxQty || '0'),
+        stepSize: parseFloat(lotSize.stepSize || '0'),
+        minPrice: parseFloat(priceFilter.minPrice || '0'),
+        maxPrice: parseFloat(priceFilter.maxPrice || '0'),
+        tickSize: parseFloat(priceFilter.tickSize || '0'),
+        minNotional: parseFloat(notional.minNotional || '0')
+      };
+    });
+
+    this.symbolFilters = filters;
+    this.lastExchangeInfoUpdate = Date.now();
+    logError('info', 'Binance exchange info loaded', `${info.symbols.length} symbols`);
+  }
+
+  private toOrderId(order: BinanceOrderPayload): string {
+    // Binance order ids are only unique per symbol, so the symbol travels with them
+    return `${order.symbol}:${order.orderId}`;
+  }
+
+  private parseOrderId(orderId: string): [string, string] {
+    const [symbol, id] = orderId.split(':');
+    if (!symbol || !id) {
+      throw new Error(`Invalid Binance order id: ${orderId}`);
+    }
+    return [symbol, id];
+  }
+
+  private toExchangeOrder(order: BinanceOrderPayload): ExchangeOrder {
+    const statuses: { [status: string]: ExchangeOrderStatus } = {
+      PENDING_NEW: 'pending',
+      NEW: 'open',
+      PARTIALLY_FILLED: 'open',
+      FILLED: 'closed',
+      CANCELED: 'canceled',
+      PENDING_CANCEL: 'open',
+      REJECTED: 'canceled',
+      EXPIRED: 'expired',
+      EXPIRED_IN_MATCH: 'expired'
+    };
+    const filledVolume = parseFloat(order.executedQty);
+    const status = statuses[order.status] || 'unknown';
+
+    return {
+      id: this.toOrderId(order),
+      pair: toPair(order.symbol),
+      side: order.side === 'BUY' ? 'buy' : 'sell',
+      type: order.type.toLowerCase(),
+      status,
+      volume: parseFloat(order.origQty),
+      filledVolume,
+      price: parseFloat(order.price) || undefined,
+      averagePrice: filledVolume > 0 ? parseFloat(order.cummulativeQuoteQty) / filledVolume : undefined,
+      openedAt: new Date(order.time || order.transactTime || Date.now()),
+      closedAt: status === 'open' || status === 'pending' ? undefined : new Date(order.updateTime || Date.now())
+    };
+  }
+
+  private async publicRequest<T>(path: string, params: Record<string, string> = {}): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${this.baseUrl}${path}${query ? `?${query}` : ''}`);
+    return this.handleResponse<T>(response, path);
+  }
+
+  private async signedRequest<T>(method: 'GET' | 'POST' | 'DELETE', path: string, params: Record<string, string> = {}): Promise<T> {
+    const query = new URLSearchParams({
+      ...params,
+      recvWindow: this.recvWindow.toString(),
+      timestamp: Date.now().toString()
+    }).toString();
+    const signature = await hmacSha256Hex(this.apiSecret, query);
+
+    const response = await fetch(`${this.baseUrl}${path}?${query}&signature=${signature}`, {
+      method,
+      headers: { 'X-MBX-APIKEY': this.apiKey }
+    });
+    return this.handleResponse<T>(response, path);
+  }
+
+  private async handleResponse<T>(response: Response, path: string): Promise<T> {
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      logError('error', `Binance returned a non-JSON response for ${path}`, `HTTP ${response.status}`);
+      throw new Error(`Binance request failed with HTTP ${response.status}`);
+    }
+
+    const payload = data as BinanceErrorPayload;
+    if (!response.ok || (typeof payload?.code === 'number' && payload.code < 0)) {
+      logError('error', `Binance API returned error for ${path}`, JSON.stringify(data));
+      throw new Error(this.mapBinanceError(payload));
+    }
+
+    return data as T;
+  }
+
+  private mapBinanceError(error: BinanceErrorPayload): string {
+    const msg = error?.msg || 'Unknown error';
+    switch (error?.code) {
+      case -2014:
+      case -2015:
+        return 'Invalid API key, IP or permissions - check your credentials';
+      case -1022:
+        return 'Invalid API signature - check your secret key';
+      case -1021:
+        return 'Timestamp outside recvWindow - time synchronization issue';
+      case -1003:
+        return 'Rate limit exceeded - too many requests';
+      case -1121:
+        return 'Invalid trading pair';
+      case -1013:
+        if (msg.includes('LOT_SIZE')) return 'Order size does not match lot size requirements';
+        if (msg.includes('NOTIONAL')) return 'Order size below minimum requirement';
+        if (msg.includes('PRICE_FILTER')) return 'Invalid price specified';
+        return 'Invalid order parameters';
+      case -2010:
+        if (msg.toLowerCase().includes('insufficient balance')) return 'Insufficient funds for this trade';
+        return `Order rejected: ${msg}`;
+      case -2011:
+        return `Cancel rejected: ${msg}`;
+      case -2013:
+        return 'Order does not exist';
+      default:
+        return `Binance Error: ${msg}`;
+    }
+  }
+}
+
+export const createBinanceService = (apiKey: string, apiSecret: string) => {
+  if (!apiKey || !apiSecret) {
+    throw new Error('API key and secret are required');
+  }
+  return new BinanceService(apiKey, apiSecret);
+};
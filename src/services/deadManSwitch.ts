@@ -0,0 +1,139 @@
+import { ExchangeAdapter } from './exchangeAdapter';
+import { createLogger } from '@/lib/logger';
+
+// lapsing: no longer refreshed, so Kraken cancels everything at triggerTime
+export type DeadManSwitchState = 'disarmed' | 'armed' | 'failing' | 'lapsing';
+
+export interface DeadManSwitchStatus {
+  state: DeadManSwitchState;
+  timeout: number; // Seconds
+  triggerTime?: Date;
+  lastHeartbeat?: Date;
+  error?: string;
+}
+
+type Listener = (status: DeadManSwitchStatus) => void;
+
+export const DEAD_MAN_TIMEOUTS = [30, 60, 120, 300];
+const DEFAULT_TIMEOUT = 60;
+const TIMEOUT_STORAGE_KEY = 'deadManSwitch:kraken:timeout';
+// Refreshes per timeout, so one or two failed heartbeats do not let the timer fire
+const HEARTBEATS_PER_TIMEOUT = 4;
+
+const logError = createLogger('Dead Man Switch');
+
+export const loadDeadManTimeout = (): number => {
+  const saved = Number(localStorage.getItem(TIMEOUT_STORAGE_KEY));
+  return DEAD_MAN_TIMEOUTS.includes(saved) ? saved : DEFAULT_TIMEOUT;
+};
+
+export const saveDeadManTimeout = (timeout: number) => {
+  localStorage.setItem(TIMEOUT_STORAGE_KEY, String(timeout));
+};
+
+/**
+ * Keeps Kraken's CancelAllOrdersAfter timer pushed back while the engine runs.
+ * If the tab dies or loses its connection the heartbeats stop and Kraken
+ * cancels every open order once the timeout passes. Only `disarm` turns the
+ * timer off; `release` just stops refreshing it, leaving it to fire. Works with
+ * any adapter that offers cancelAllOrdersAfter; callers check for it first.
+ */
+export class KrakenDeadManSwitch {
+  private adapter: Pick<ExchangeAdapter, 'cancelAllOrdersAfter'>;
+  private status: DeadManSwitchStatus;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pendingHeartbeat: Promise<void> | null = null;
+  private disarming: Promise<void> | null = null;
+  private listeners = new Set<Listener>();
+
+  constructor(adapter: Pick<ExchangeAdapter, 'cancelAllOrdersAfter'>, timeout: number) {
+    this.adapter = adapter;
+    this.status = { state: 'disarmed', timeout };
+  }
+
+  start() {
+    if (this.timer || this.disarming) return;
+    this.timer = setInterval(() => this.beat(), (this.status.timeout * 1000) / HEARTBEATS_PER_TIMEOUT);
+    this.beat();
+  }
+
+  // A disarm in progress settles the state itself
+  release() {
+    if (this.disarming) return;
+    this.stopTimer();
+    if (this.status.state !== 'disarmed') {
+      logError('warning', 'Dead man\'s switch left armed', this.status.triggerTime ? `Orders cancel at ${this.status.triggerTime.toISOString()}` : undefined);
+      this.update({ state: 'lapsing' });
+    }
+  }
+
+  disarm(): Promise<void> {
+    if (!this.disarming) this.disarming = this.sendDisarm();
+    return this.disarming;
+  }
+
+  private async sendDisarm() {
+    this.stopTimer();
+    // A heartbeat still in flight could re-arm the timer after the 0 below reached Kraken
+    await this.pendingHeartbeat;
+    try {
+      await this.adapter.cancelAllOrdersAfter(0);
+      logError('info', 'Dead man\'s switch disarmed');
+      this.update({ state: 'disarmed', triggerTime: undefined, error: undefined });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logError('error', 'Failed to disarm dead man\'s switch', errorMessage);
+      this.update({ state: 'lapsing', error: errorMessage });
+    }
+  }
+
+  getStatus(): DeadManSwitchStatus {
+    return this.status;
+  }
+
+  onChange(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // One heartbeat at a time, so disarm only has one to wait for
+  private beat() {
+    if (this.pendingHeartbeat) return;
+    this.pendingHeartbeat = this.heartbeat().finally(() => {
+      this.pendingHeartbeat = null;
+    });
+  }
+
+  private async heartbeat() {
+    try {
+      const { currentTime, triggerTime } = await this.adapter.cancelAllOrdersAfter(this.status.timeout);
+      if (!this.timer || this.disarming) return; // Released or disarmed while the call was in flight
+      // Kraken's clock may differ from ours, so only the offset it reports is trusted
+      const trigger = new Date(Date.now() + (Date.parse(triggerTime) - Date.parse(currentTime)));
+      if (this.status.state !== 'armed') {
+        logError('info', 'Dead man\'s switch armed', `Timeout ${this.status.timeout}s`);
+      }
+      this.update({ state: 'armed', triggerTime: trigger, lastHeartbeat: new Date(), error: undefined });
+    } catch (error) {
+      if (!this.timer || this.disarming) return;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const fired = this.status.triggerTime && Date.now() >= this.status.triggerTime.getTime();
+      logError(fired ? 'error' : 'warning', fired ? 'Dead man\'s switch heartbeat lapsed; Kraken may have cancelled all orders' : 'Dead man\'s switch heartbeat failed', errorMessage);
+      this.update({ state: 'failing', error: errorMessage });
+    }
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private update(changes: Partial<DeadManSwitchStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
@@ -0,0 +1,169 @@
+import { OrderBook } from './marketData';
+import { TradeValidator } from './tradeValidator';
+
+export type ExchangeId = 'binance' | 'kucoin' | 'kraken';
+
+export interface ExchangeCredentials {
+  key: string;
+  secret: string;
+  passphrase?: string; // Only KuCoin issues a passphrase with its keys
+  keyId?: string; // SHA-256 of a key stored server-side, where `key` is only a hint
+}
+
+export interface ExchangeBalance {
+  [currency: string]: string;
+}
+
+export type OrderSide = 'buy' | 'sell';
+
+export type OrderType = 'market' | 'limit' | 'stop-loss' | 'take-profit' | 'stop-loss-limit' | 'take-profit-limit';
+
+export type TimeInForce = 'GTC' | 'IOC' | 'GTD';
+
+export type ExchangeErrorType =
+  | 'auth'
+  | 'permission'
+  | 'nonce'
+  | 'rateLimit'
+  | 'lockout' // Key locked out for repeated rate limit breaches; retrying only extends it
+  | 'insufficientFunds'
+  | 'invalidOrder'
+  | 'marketClosed'
+  | 'transport'
+  | 'confirmationRequired' // Over a fat-finger threshold; resubmit with confirmed once the user agrees
+  | 'unknown';
+
+export interface ExchangeOrderRequest {
+  pair: string; // Display format, e.g. BTC/USD
+  side: OrderSide;
+  type: OrderType;
+  volume: number;
+  price?: number; // Limit price, or trigger price for stop-loss / take-profit orders
+  price2?: number; // Limit price once a stop-loss-limit / take-profit-limit triggers
+  timeInForce?: TimeInForce;
+  expireTime?: number; // Unix seconds, required for GTD
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  leverage?: number;
+  strategy?: string; // Strategy that generated the order, for its validation rules
+  confirmed?: boolean; // The user accepted it past the validation confirmation thresholds
+}
+
+export type OrderOptions = Omit<ExchangeOrderRequest, 'pair' | 'side' | 'volume'>;
+
+export const ORDER_TYPES_WITH_TRIGGER: OrderType[] = ['stop-loss', 'take-profit', 'stop-loss-limit', 'take-profit-limit'];
+
+export const ORDER_TYPES_WITH_LIMIT: OrderType[] = ['limit', 'stop-loss-limit', 'take-profit-limit'];
+
+export interface ExchangeOrderResult {
+  success: boolean;
+  orderIds: string[];
+  description?: string;
+  error?: string;
+  errorType?: ExchangeErrorType; // Left unset by adapters that only report a message
+  adjustedVolume?: number;
+}
+
+export type ExchangeOrderStatus = 'pending' | 'open' | 'closed' | 'canceled' | 'expired' | 'unknown';
+
+export interface ExchangeOrder {
+  id: string;
+  pair: string;
+  side: OrderSide;
+  type: string;
+  status: ExchangeOrderStatus;
+  volume: number;
+  filledVolume: number;
+  price?: number;
+  averagePrice?: number;
+  fee?: number; // Quote currency, across all fills so far
+  openedAt: Date;
+  closedAt?: Date;
+}
+
+export interface ExchangeFill {
+  id: string;
+  orderId: string;
+  pair: string;
+  side: OrderSide;
+  orderType: string;
+  price: number;
+  volume: number;
+  cost: number;
+  fee: number;
+  time: number; // Unix seconds, as reported by the exchange
+}
+
+export interface ExchangeLedgerEntry {
+  id: string;
+  refId: string; // Links ledger legs back to the trade or transfer that caused them
+  type: string;
+  subtype?: string;
+  asset: string;
+  amount: number;
+  fee: number;
+  balance: number;
+  time: number;
+}
+
+export interface ExchangeHistoryQuery {
+  offset?: number;
+  start?: number; // Unix seconds or entry id, exclusive
+  end?: number;
+}
+
+export interface ExchangeHistoryPage<T> {
+  entries: T[];
+  count: number; // Total entries matching the query, across all pages
+  nextOffset: number;
+}
+
+export interface FeeTier {
+  pair: string; // Exchange pair name
+  maker: number; // Fraction of the order value, e.g. 0.0016 for 0.16%
+  taker: number;
+}
+
+export interface ExchangeCancelAfterResult {
+  currentTime: string; // ISO 8601, the exchange's clock
+  triggerTime: string; // ISO 8601, or '0' when the timer is off
+}
+
+export interface ExchangeTicker {
+  pair: string;
+  bid: number;
+  ask: number;
+  last: number;
+  volume24h: number;
+  change24h: number; // Percent change against the day's open
+}
+
+/**
+ * Common contract every exchange integration implements. Components and the
+ * trading context only talk to this interface, so adding an exchange means
+ * writing one adapter and registering it in exchangeFactory.
+ */
+export interface ExchangeAdapter {
+  readonly exchange: ExchangeId;
+  readonly displayName: string;
+
+  getAccountBalance(): Promise<ExchangeBalance>;
+  submitOrder(order: ExchangeOrderRequest): Promise<ExchangeOrderResult>;
+  cancelOrder(orderId: string): Promise<boolean>;
+  cancelAllOrders(): Promise<number>;
+  getOrder(orderId: string): Promise<ExchangeOrder | null>;
+  getOpenOrders(): Promise<ExchangeOrder[]>;
+  getTicker(pair: string): Promise<ExchangeTicker>;
+  testConnection(): Promise<boolean>;
+  getTradeValidator(): TradeValidator | null;
+
+  // Optional capabilities; callers check for them before use
+  getWebSocketsToken?(): Promise<string>; // Authenticates the private WebSocket feed
+  applyFill?(fill: ExchangeFill): void; // Keeps cached balances current from streamed fills
+  setFillStreamActive?(active: boolean): void;
+  cancelAllOrdersAfter?(timeout: number): Promise<ExchangeCancelAfterResult>; // Dead man's switch; 0 disarms it
+  loadFeeTiers?(pairs: string[]): Promise<FeeTier[]>; // Primes getTradeValidator with the account's fees
+  loadOrderBook?(pair: string): Promise<OrderBook | undefined>; // Primes getTradeValidator's slippage estimate
+  getTradesHistory?(query?: ExchangeHistoryQuery): Promise<ExchangeHistoryPage<ExchangeFill>>; // Newest first
+  getLedgers?(query?: ExchangeHistoryQuery): Promise<ExchangeHistoryPage<ExchangeLedgerEntry>>; // Newest first
+}
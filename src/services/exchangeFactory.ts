@@ -0,0 +1,39 @@
+import { ExchangeAdapter, ExchangeCredentials, ExchangeId } from './exchangeAdapter';
+import { KRAKEN_TRANSPORT } from '@/lib/krakenApi';
+import { createKrakenService } from './krakenService';
+import { createBinanceService } from './binanceService';
+import { createKucoinService } from './kucoinService';
+
+type AdapterFactory = (credentials: ExchangeCredentials) => ExchangeAdapter;
+
+const adapterFactories: Partial<Record<ExchangeId, AdapterFactory>> = {
+  kraken: ({ key, secret, keyId }) => createKrakenService(keyId || key, secret),
+  binance: ({ key, secret }) => createBinanceService(key, secret),
+  kucoin: ({ key, secret, passphrase }) => createKucoinService(key, secret, passphrase || '')
+};
+
+export const requiresPassphrase = (exchange: ExchangeId): boolean => exchange === 'kucoin';
+
+// Kraken keys given to the edge function live server-side; only a hint of the key is kept locally
+export const storesCredentialsServerSide = (exchange: ExchangeId): boolean => exchange === 'kraken' && KRAKEN_TRANSPORT === 'edge';
+
+export const hasCredentials = (exchange: ExchangeId, { key, secret, passphrase }: ExchangeCredentials): boolean => {
+  if (storesCredentialsServerSide(exchange)) return !!key;
+  return !!key && !!secret && (!requiresPassphrase(exchange) || !!passphrase);
+};
+
+export const isExchangeSupported = (exchange: string): boolean => {
+  return exchange.toLowerCase() in adapterFactories;
+};
+
+export const getSupportedExchanges = (): ExchangeId[] => {
+  return Object.keys(adapterFactories) as ExchangeId[];
+};
+
+export const createExchangeAdapter = (exchange: string, credentials: ExchangeCredentials): ExchangeAdapter => {
+  const factory = adapterFactories[exchange.toLowerCase() as ExchangeId];
+  if (!factory) {
+    throw new Error(`${exchange} trading not implemented`);
+  }
+  return factory(credentials);
+};
@@ -0,0 +1,45 @@
+import { splitPair, toTicker } from '@/lib/assets';
+import { ExchangeFill } from './exchangeAdapter';
+import { AssetPair, findAssetPair } from './marketData';
+
+export type FeeReportInterval = 'day' | 'week' | 'month';
+
+export interface FeeReportRow {
+  start: number; // Unix seconds, start of the period in local time
+  fills: number;
+  fees: { [quote: string]: number }; // Fees are charged in the quote currency, so they are summed per quote
+  volume: { [quote: string]: number };
+}
+
+const periodStart = (time: number, interval: FeeReportInterval): number => {
+  const date = new Date(time * 1000);
+  date.setHours(0, 0, 0, 0);
+  if (interval === 'week') {
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7)); // Weeks start on Monday
+  } else if (interval === 'month') {
+    date.setDate(1);
+  }
+  return date.getTime() / 1000;
+};
+
+// Without metadata, Kraken names end in the quote, e.g. XXBTZUSD or ETHXBT
+const quoteOf = (pair: string, assetPairs: AssetPair[]): string => {
+  const pairInfo = findAssetPair(assetPairs, pair);
+  if (pairInfo) return toTicker(pairInfo.quote);
+  return toTicker(splitPair(pair)[1]);
+};
+
+/** Fees paid and volume traded per period, newest period first. */
+export const buildFeeReport = (fills: ExchangeFill[], interval: FeeReportInterval, assetPairs: AssetPair[] = []): FeeReportRow[] => {
+  const rows = new Map<number, FeeReportRow>();
+  fills.forEach(fill => {
+    const start = periodStart(fill.time, interval);
+    const quote = quoteOf(fill.pair, assetPairs);
+    const row = rows.get(start) || { start, fills: 0, fees: {}, volume: {} };
+    row.fills += 1;
+    row.fees[quote] = (row.fees[quote] || 0) + fill.fee;
+    row.volume[quote] = (row.volume[quote] || 0) + fill.cost;
+    rows.set(start, row);
+  });
+  return [...rows.values()].sort((a, b) => b.start - a.start);
+};
@@ -0,0 +1,82 @@
+import { ExchangeFill, ExchangeId, ExchangeLedgerEntry } from './exchangeAdapter';
+
+export interface HistoryCursor {
+  fillsSince: number; // Unix seconds of the newest synced fill
+  ledgerSince: number;
+  lastSyncAt: number | null; // Epoch ms of the last completed sync
+}
+
+const EMPTY_CURSOR: HistoryCursor = { fillsSince: 0, ledgerSince: 0, lastSyncAt: null };
+
+/**
+ * Local copy of an exchange's fills and ledger entries, persisted in
+ * localStorage. Entries are deduplicated by id and kept newest first, so
+ * overlapping sync pages are harmless.
+ */
+export class HistoryStore {
+  private exchange: ExchangeId;
+
+  constructor(exchange: ExchangeId) {
+    this.exchange = exchange;
+  }
+
+  getFills(): ExchangeFill[] {
+    return this.read<ExchangeFill[]>('fills', []);
+  }
+
+  getLedgerEntries(): ExchangeLedgerEntry[] {
+    return this.read<ExchangeLedgerEntry[]>('ledger', []);
+  }
+
+  getCursor(): HistoryCursor {
+    return { ...EMPTY_CURSOR, ...this.read<Partial<HistoryCursor>>('cursor', {}) };
+  }
+
+  setCursor(cursor: HistoryCursor) {
+    this.write('cursor', cursor);
+  }
+
+  /** Returns how many of the given fills were not stored yet. */
+  addFills(fills: ExchangeFill[]): number {
+    return this.merge('fills', this.getFills(), fills);
+  }
+
+  addLedgerEntries(entries: ExchangeLedgerEntry[]): number {
+    return this.merge('ledger', this.getLedgerEntries(), entries);
+  }
+
+  clear() {
+    ['fills', 'ledger', 'cursor'].forEach(kind => localStorage.removeItem(this.key(kind)));
+  }
+
+  private merge<T extends { id: string; time: number }>(kind: string, existing: T[], incoming: T[]): number {
+    const byId = new Map(existing.map(entry => [entry.id, entry]));
+    const before = byId.size;
+    incoming.forEach(entry => byId.set(entry.id, entry));
+
+    const merged = [...byId.values()].sort((a, b) => b.time - a.time);
+    this.write(kind, merged);
+    return merged.length - before;
+  }
+
+  private key(kind: string) {
+    return `history:${this.exchange}:${kind}`;
+  }
+
+  private read<T>(kind: string, fallback: T): T {
+    const saved = localStorage.getItem(this.key(kind));
+    if (!saved) return fallback;
+
+    try {
+      return JSON.parse(saved) as T;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private write(kind: string, value: unknown) {
+    localStorage.setItem(this.key(kind), JSON.stringify(value));
+  }
+}
+
+export const createHistoryStore = (exchange: ExchangeId) => new HistoryStore(exchange);
@@ -0,0 +1,42 @@
+import { invokeKrakenApi } from '@/lib/krakenApi';
+import { createLogger } from '@/lib/logger';
+import { KrakenTransportError, parseKrakenError } from './krakenErrors';
+
+export interface KrakenCredentialStatus {
+  configured: boolean;
+  keyHint?: string; // Last four characters of the stored key
+  updatedAt?: string;
+}
+
+const logError = createLogger('Kraken Credentials');
+
+const call = async (action: string, params: Record<string, unknown> = {}): Promise<KrakenCredentialStatus> => {
+  const { data, error } = await invokeKrakenApi({ action, ...params });
+  if (error) {
+    logError('error', `kraken-api ${action} failed`, error.message);
+    throw new KrakenTransportError('Could not reach the kraken-api function - check your internet connection');
+  }
+  if (data?.error && data.error.length > 0) {
+    const krakenError = parseKrakenError(data.error[0]);
+    logError('error', `kraken-api ${action} returned ${krakenError.type} error`, krakenError.code);
+    throw krakenError;
+  }
+  return (data?.result as KrakenCredentialStatus | undefined) || { configured: false };
+};
+
+/**
+ * Sends the key and secret to the edge function once; it checks them against
+ * Kraken, then stores them encrypted for the signed-in user.
+ */
+export const storeKrakenCredentials = async (apiKey: string, apiSecret: string): Promise<KrakenCredentialStatus> => {
+  const status = await call('saveCredentials', { apiKey, apiSecret });
+  logError('info', 'Kraken API keys stored server-side', status.keyHint ? `Key ending ${status.keyHint}` : undefined);
+  return status;
+};
+
+export const removeKrakenCredentials = async (): Promise<void> => {
+  await call('deleteCredentials');
+  logError('info', 'Kraken API keys removed from the server');
+};
+
+export const getKrakenCredentialStatus = (): Promise<KrakenCredentialStatus> => call('credentialStatus');
@@ -0,0 +1,155 @@
+import { ExchangeErrorType } from './exchangeAdapter';
+
+export interface KrakenErrorOptions {
+  code?: string; // Kraken's raw error, e.g. EOrder:Insufficient funds
+  retryable?: boolean; // Safe to send the same request again
+  ambiguous?: boolean; // The request may have taken effect even though it failed
+}
+
+/**
+ * A failed Kraken call. `message` is written for the user; the raw Kraken
+ * error, when there was one, is kept in `code` for logs.
+ */
+export class KrakenError extends Error {
+  readonly type: ExchangeErrorType;
+  readonly code?: string;
+  readonly category?: string; // Error category from the code, e.g. Order in EOrder:...
+  readonly retryable: boolean;
+  readonly ambiguous: boolean;
+
+  constructor(type: ExchangeErrorType, message: string, options: KrakenErrorOptions = {}) {
+    super(message);
+    this.name = 'KrakenError';
+    this.type = type;
+    this.code = options.code;
+    this.category = options.code ? splitKrakenError(options.code).category : undefined;
+    this.retryable = options.retryable ?? false;
+    this.ambiguous = options.ambiguous ?? false;
+  }
+}
+
+export class KrakenAuthError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('auth', message, options);
+    this.name = 'KrakenAuthError';
+  }
+}
+
+export class KrakenPermissionError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('permission', message, options);
+    this.name = 'KrakenPermissionError';
+  }
+}
+
+// A fresh nonce on the next request fixes it, so nonce errors are retryable
+export class KrakenNonceError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('nonce', message, { retryable: true, ...options });
+    this.name = 'KrakenNonceError';
+  }
+}
+
+export class KrakenRateLimitError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('rateLimit', message, { retryable: true, ...options });
+    this.name = 'KrakenRateLimitError';
+  }
+}
+
+// Kraken keeps the key locked for a while and restarts the clock on every call,
+// so unlike a plain rate limit it must not be retried
+export class KrakenLockoutError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('lockout', message, options);
+    this.name = 'KrakenLockoutError';
+  }
+}
+
+export class KrakenInsufficientFundsError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('insufficientFunds', message, options);
+    this.name = 'KrakenInsufficientFundsError';
+  }
+}
+
+export class KrakenInvalidOrderError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('invalidOrder', message, options);
+    this.name = 'KrakenInvalidOrderError';
+  }
+}
+
+export class KrakenMarketClosedError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('marketClosed', message, options);
+    this.name = 'KrakenMarketClosedError';
+  }
+}
+
+export class KrakenTransportError extends KrakenError {
+  constructor(message: string, options: KrakenErrorOptions = {}) {
+    super('transport', message, options);
+    this.name = 'KrakenTransportError';
+  }
+}
+
+type ErrorFactory = (options: KrakenErrorOptions, extra?: string) => KrakenError;
+
+// Keyed by category and type, without the severity letter or any extra info
+const KNOWN_ERRORS: { [key: string]: ErrorFactory } = {
+  'API:Invalid key': options => new KrakenAuthError('Invalid API key - check your credentials', options),
+  'API:Invalid signature': options => new KrakenAuthError('Invalid API signature - check your secret key', options),
+  'General:Permission denied': options => new KrakenPermissionError('API key lacks required permissions', options),
+  'API:Feature disabled': options => new KrakenPermissionError('This feature is disabled for your account', options),
+  'Order:Trading agreement required': options => new KrakenPermissionError('Accept the trading agreement on Kraken before trading this market', options),
+  'API:Invalid nonce': options => new KrakenNonceError('Invalid nonce - time synchronization issue', options),
+  'API:Rate limit exceeded': options => new KrakenRateLimitError('Kraken rate limit exceeded - wait before retrying', options),
+  'Order:Rate limit exceeded': options => new KrakenRateLimitError('Order rate limit exceeded for this pair - wait before retrying', options),
+  'General:Temporary lockout': options => new KrakenLockoutError('API key temporarily locked out for exceeding rate limits - wait about 15 minutes before trying again', options),
+  'Order:Insufficient funds': options => new KrakenInsufficientFundsError('Insufficient funds for this trade', options),
+  'Order:Insufficient margin': options => new KrakenInsufficientFundsError('Insufficient margin for this trade', options),
+  'General:Invalid arguments': (options, extra) => new KrakenInvalidOrderError(`Invalid order parameters${extra ? ` (${extra})` : ''}`, options),
+  'Order:Order minimum not met': options => new KrakenInvalidOrderError('Order size below minimum requirement', options),
+  'Order:Cost minimum not met': options => new KrakenInvalidOrderError('Order value below minimum requirement', options),
+  'Order:Tick size check failed': options => new KrakenInvalidOrderError('Price is not a multiple of the pair tick size', options),
+  'Order:Invalid price': options => new KrakenInvalidOrderError('Invalid price specified', options),
+  'Order:Unknown order': options => new KrakenInvalidOrderError('Unknown order', options),
+  'Order:Invalid order': options => new KrakenInvalidOrderError('Order can no longer be changed', options),
+  'Query:Unknown asset pair': options => new KrakenInvalidOrderError('Invalid trading pair', options),
+  'Service:Market in cancel_only mode': options => new KrakenMarketClosedError('Market is in cancel-only mode', options),
+  'Service:Market in post_only mode': options => new KrakenMarketClosedError('Market only accepts post-only orders right now', options),
+  'Service:Market in limit_only mode': options => new KrakenMarketClosedError('Market only accepts limit orders right now', options),
+  // Refused before reaching the matching engine
+  'Service:Unavailable': options => new KrakenTransportError('Kraken is temporarily unavailable', { retryable: true, ...options }),
+  'Service:Busy': options => new KrakenTransportError('Kraken is busy - try again shortly', { retryable: true, ...options }),
+  // Kraken gave up waiting on the engine; the order may still have been placed
+  'Service:Deadline elapsed': options => new KrakenTransportError('Kraken timed out - the order may or may not have been placed', { ambiguous: true, ...options }),
+  'Service:Timeout': options => new KrakenTransportError('Kraken timed out - the order may or may not have been placed', { ambiguous: true, ...options }),
+  'General:Internal error': options => new KrakenTransportError('Kraken internal error - the order may or may not have been placed', { ambiguous: true, ...options }),
+  // From our kraken-api edge function rather than Kraken
+  'Session:Not signed in': options => new KrakenAuthError('Sign in to use the Kraken keys stored for your account', options),
+  'Session:No credentials': options => new KrakenAuthError('No Kraken API keys are stored for your account - save them under API Keys', options)
+};
+
+/**
+ * Splits Kraken's `<severity><category>:<type>[:<extra>]` format, e.g.
+ * EGeneral:Invalid arguments:volume into E, General, Invalid arguments, volume.
+ */
+export const splitKrakenError = (code: string) => {
+  const match = /^([EW])([A-Za-z]+):([^:]*)(?::(.*))?$/.exec(code.trim());
+  if (!match) return { severity: 'E', category: 'General', type: code.trim(), extra: undefined };
+  return { severity: match[1], category: match[2], type: match[3], extra: match[4] };
+};
+
+/** Typed error for a raw Kraken error string; unrecognised errors keep Kraken's text. */
+export const parseKrakenError = (code: string): KrakenError => {
+  const { category, type, extra } = splitKrakenError(code);
+  const known = KNOWN_ERRORS[`${category}:${type}`];
+  if (known) return known({ code }, extra);
+
+  const message = `Kraken Error: ${code}`;
+  if (category === 'Order' || category === 'Query') return new KrakenInvalidOrderError(message, { code });
+  if (category === 'Service') return new KrakenTransportError(message, { code, ambiguous: true });
+  return new KrakenError('unknown', message, { code });
+};
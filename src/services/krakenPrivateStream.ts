@@ -0,0 +1,286 @@
+import { KRAKEN_WS_AUTH_URL } from '@/lib/krakenApi';
+import { createLogger } from '@/lib/logger';
+import { ExchangeFill, ExchangeOrderStatus } from './exchangeAdapter';
+import { StreamStatus } from './krakenStream';
+
+/**
+ * Change to a single order. Kraken sends the full order once and then only
+ * the fields that changed, so everything but the id is optional.
+ */
+export interface PrivateOrderUpdate {
+  orderId: string;
+  status?: ExchangeOrderStatus;
+  pair?: string;
+  volume?: number;
+  filledVolume?: number;
+  averagePrice?: number;
+  cost?: number;
+  fee?: number;
+}
+
+type Listener<T> = (value: T) => void;
+type PrivateChannel = 'ownTrades' | 'openOrders';
+
+interface RawOrder {
+  status?: string;
+  vol?: string;
+  vol_exec?: string;
+  avg_price?: string;
+  price?: string; // openOrders snapshots carry the average price here
+  cost?: string;
+  fee?: string;
+  descr?: { pair?: string };
+}
+
+interface RawTrade {
+  ordertxid: string;
+  pair: string;
+  time: string;
+  type: 'buy' | 'sell';
+  ordertype: string;
+  price: string;
+  cost: string;
+  fee: string;
+  vol: string;
+}
+
+const CHANNELS: PrivateChannel[] = ['ownTrades', 'openOrders'];
+const ORDER_STATUSES: ExchangeOrderStatus[] = ['pending', 'open', 'closed', 'canceled', 'expired'];
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+const STALE_CONNECTION_TIMEOUT = 15000;
+
+const logError = createLogger('Kraken Private Stream');
+
+const toNumber = (value?: string) => (value !== undefined ? parseFloat(value) : undefined);
+
+/**
+ * Authenticated Kraken WebSocket feed for the account's own fills
+ * (ownTrades) and order state (openOrders). A fresh token is requested for
+ * every connection attempt, since tokens only stay valid for establishing a
+ * connection for a few minutes. A gap in a channel's sequence numbers means
+ * updates were lost, so the connection is recycled to get a new snapshot.
+ */
+export class KrakenPrivateStreamClient {
+  private url: string;
+  private getToken: () => Promise<string>;
+  private socket: WebSocket | null = null;
+  private status: StreamStatus = 'idle';
+  private running = false;
+  private sequences: Partial<Record<PrivateChannel, number>> = {};
+  private fillListeners = new Set<Listener<ExchangeFill>>();
+  private orderListeners = new Set<Listener<PrivateOrderUpdate>>();
+  private statusListeners = new Set<Listener<StreamStatus>>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(getToken: () => Promise<string>, url: string = KRAKEN_WS_AUTH_URL) {
+    this.getToken = getToken;
+    this.url = url;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.connect();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearStaleTimer();
+    this.reconnectAttempts = 0;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus('closed');
+  }
+
+  onFill(listener: Listener<ExchangeFill>): () => void {
+    this.fillListeners.add(listener);
+    return () => {
+      this.fillListeners.delete(listener);
+    };
+  }
+
+  onOrderUpdate(listener: Listener<PrivateOrderUpdate>): () => void {
+    this.orderListeners.add(listener);
+    return () => {
+      this.orderListeners.delete(listener);
+    };
+  }
+
+  onStatus(listener: Listener<StreamStatus>): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  private async connect() {
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
+    let token: string;
+    try {
+      token = await this.getToken();
+    } catch (error) {
+      logError('error', 'Failed to get WebSocket token', error instanceof Error ? error.message : 'Unknown error');
+      this.scheduleReconnect();
+      return;
+    }
+    if (!this.running) return;
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    this.sequences = {};
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+      this.touch();
+      CHANNELS.forEach(name => {
+        // ownTrades would otherwise replay the last 50 fills, which are already in the trade history
+        const subscription = name === 'ownTrades' ? { name, token, snapshot: false } : { name, token };
+        socket.send(JSON.stringify({ event: 'subscribe', subscription }));
+      });
+    };
+
+    socket.onmessage = event => {
+      if (this.socket !== socket) return;
+      this.touch();
+      try {
+        this.handleMessage(JSON.parse(String(event.data)));
+      } catch (error) {
+        logError('error', 'Failed to handle private stream message', error instanceof Error ? error.message : String(event.data));
+      }
+    };
+
+    socket.onerror = () => {
+      logError('warning', 'Kraken private stream connection error', this.url);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clearStaleTimer();
+      if (this.running) this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.running) return;
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts += 1;
+    this.setStatus('reconnecting');
+    logError('warning', `Kraken private stream disconnected, reconnecting in ${delay / 1000}s`, `Attempt ${this.reconnectAttempts}`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private touch() {
+    this.clearStaleTimer();
+    this.staleTimer = setTimeout(() => {
+      logError('warning', 'Kraken private stream went silent, forcing reconnect');
+      this.socket?.close();
+    }, STALE_CONNECTION_TIMEOUT);
+  }
+
+  private clearStaleTimer() {
+    if (this.staleTimer) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  private setStatus(status: StreamStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private emit<T>(listeners: Set<Listener<T>>, value: T) {
+    listeners.forEach(listener => {
+      try {
+        listener(value);
+      } catch (error) {
+        logError('error', 'Private stream listener failed', error instanceof Error ? error.message : 'Unknown error');
+      }
+    });
+  }
+
+  private handleMessage(message: unknown) {
+    if (!Array.isArray(message)) {
+      const event = message as { event?: string; status?: string; channelName?: string; errorMessage?: string };
+      if (event.event === 'subscriptionStatus' && event.status === 'error') {
+        logError('error', `Kraken private subscription failed for ${event.channelName}`, event.errorMessage);
+      }
+      return;
+    }
+
+    const [entries, channel, meta] = message as [Record<string, unknown>[], PrivateChannel, { sequence?: number }];
+    if (!CHANNELS.includes(channel)) return;
+
+    if (meta?.sequence !== undefined) {
+      const previous = this.sequences[channel];
+      this.sequences[channel] = meta.sequence;
+      if (previous !== undefined && meta.sequence !== previous + 1) {
+        logError('warning', `Missed ${channel} updates, reconnecting for a fresh snapshot`, `Sequence ${previous} -> ${meta.sequence}`);
+        this.socket?.close();
+        return;
+      }
+    }
+
+    entries.forEach(entry => {
+      Object.entries(entry).forEach(([id, payload]) => {
+        if (channel === 'ownTrades') {
+          this.emit(this.fillListeners, this.toFill(id, payload as RawTrade));
+        } else {
+          this.emit(this.orderListeners, this.toOrderUpdate(id, payload as RawOrder));
+        }
+      });
+    });
+  }
+
+  private toFill(id: string, trade: RawTrade): ExchangeFill {
+    return {
+      id,
+      orderId: trade.ordertxid,
+      pair: trade.pair,
+      side: trade.type,
+      orderType: trade.ordertype,
+      price: parseFloat(trade.price),
+      volume: parseFloat(trade.vol),
+      cost: parseFloat(trade.cost),
+      fee: parseFloat(trade.fee),
+      time: parseFloat(trade.time)
+    };
+  }
+
+  private toOrderUpdate(orderId: string, order: RawOrder): PrivateOrderUpdate {
+    const status = ORDER_STATUSES.find(candidate => candidate === order.status);
+    return {
+      orderId,
+      status,
+      pair: order.descr?.pair,
+      volume: toNumber(order.vol),
+      filledVolume: toNumber(order.vol_exec),
+      averagePrice: toNumber(order.avg_price ?? order.price) || undefined,
+      cost: toNumber(order.cost),
+      fee: toNumber(order.fee)
+    };
+  }
+}
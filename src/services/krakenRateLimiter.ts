@@ -0,0 +1,260 @@
+import { KrakenRateLimitError } from './krakenErrors';
+import { createLogger } from '@/lib/logger';
+
+export type KrakenTier = 'starter' | 'intermediate' | 'pro';
+
+interface TierLimits {
+  maxCounter: number;
+  decayPerSecond: number;
+  maxOrderCounter: number; // Per pair
+  orderDecayPerSecond: number;
+}
+
+export interface PairRateStatus {
+  pair: string;
+  counter: number;
+  max: number;
+}
+
+export interface RateLimitStatus {
+  tier: KrakenTier;
+  counter: number;
+  max: number;
+  remaining: number;
+  queued: number;
+  pairs: PairRateStatus[];
+}
+
+type Listener = (status: RateLimitStatus) => void;
+
+// Kraken's published limits per verification tier
+const TIER_LIMITS: Record<KrakenTier, TierLimits> = {
+  starter: { maxCounter: 15, decayPerSecond: 0.33, maxOrderCounter: 60, orderDecayPerSecond: 1 },
+  intermediate: { maxCounter: 20, decayPerSecond: 0.5, maxOrderCounter: 125, orderDecayPerSecond: 2.34 },
+  pro: { maxCounter: 20, decayPerSecond: 1, maxOrderCounter: 180, orderDecayPerSecond: 3.75 }
+};
+
+// History queries cost double; trading actions are metered per pair instead
+const CALL_COSTS: { [action: string]: number } = {
+  tradesHistory: 2,
+  ledgers: 2,
+  placeOrder: 0,
+  editOrder: 0,
+  cancelOrder: 0,
+  cancelAll: 0
+};
+
+// Penalty by order age in seconds: cancelling or amending young orders costs more
+const CANCEL_PENALTIES: [maxAge: number, penalty: number][] = [[5, 8], [10, 6], [15, 5], [45, 4], [90, 2], [300, 1]];
+const EDIT_PENALTIES: [maxAge: number, penalty: number][] = [[5, 6], [10, 5], [15, 4], [45, 2], [90, 1]];
+
+// Longest a call waits for budget before it is rejected
+const MAX_QUEUE_WAIT = 15000;
+const TIER_STORAGE_KEY = 'rateLimit:kraken:tier';
+
+const logError = createLogger('Kraken Rate Limiter');
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const loadTier = (): KrakenTier => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(TIER_STORAGE_KEY) : null;
+  return saved === 'intermediate' || saved === 'pro' ? saved : 'starter';
+};
+
+const penaltyFor = (table: [number, number][], ageSeconds: number) =>
+  table.find(([maxAge]) => ageSeconds < maxAge)?.[1] || 0;
+
+class DecayingCounter {
+  private value = 0;
+  private updatedAt = Date.now();
+
+  get(decayPerSecond: number): number {
+    const now = Date.now();
+    this.value = Math.max(0, this.value - ((now - this.updatedAt) / 1000) * decayPerSecond);
+    this.updatedAt = now;
+    return this.value;
+  }
+
+  add(amount: number, decayPerSecond: number) {
+    this.value = this.get(decayPerSecond) + amount;
+  }
+
+  set(value: number) {
+    this.value = value;
+    this.updatedAt = Date.now();
+  }
+}
+
+/**
+ * Client-side model of Kraken's rate limits for one API key: the REST call
+ * counter, and the per-pair trading counter that cancels of young orders
+ * add penalties to. Calls wait for budget in order, up to MAX_QUEUE_WAIT;
+ * orders never wait, since a delayed order would trade on a stale decision.
+ */
+export class KrakenRateLimiter {
+  private tier: KrakenTier;
+  private counter = new DecayingCounter();
+  private pairCounters = new Map<string, DecayingCounter>();
+  private orders = new Map<string, { pair: string; placedAt: number }>();
+  private queue: Promise<void> = Promise.resolve();
+  private queued = 0;
+  private listeners = new Set<Listener>();
+
+  constructor(tier: KrakenTier = loadTier()) {
+    this.tier = tier;
+  }
+
+  getTier(): KrakenTier {
+    return this.tier;
+  }
+
+  setTier(tier: KrakenTier) {
+    this.tier = tier;
+    localStorage.setItem(TIER_STORAGE_KEY, tier);
+    this.notify();
+  }
+
+  /**
+   * Waits until the call counter has room for `action`, in request order.
+   * Throws when the total wait, including time spent behind earlier calls,
+   * would exceed MAX_QUEUE_WAIT.
+   */
+  acquire(action: string): Promise<void> {
+    const cost = CALL_COSTS[action] ?? 1;
+    if (cost === 0) return Promise.resolve();
+
+    this.queued += 1;
+    this.notify();
+    const deadline = Date.now() + MAX_QUEUE_WAIT;
+    const turn = this.queue.then(() => this.waitForBudget(action, cost, deadline));
+    // A rejected caller must not block the ones queued behind it
+    this.queue = turn.catch(() => undefined);
+    return turn.finally(() => {
+      this.queued -= 1;
+      this.notify();
+    });
+  }
+
+  /** Counts an order against its pair, or throws if the pair has no budget left. */
+  acquireOrder(pair: string) {
+    const limits = TIER_LIMITS[this.tier];
+    const counter = this.pairCounter(pair);
+    if (counter.get(limits.orderDecayPerSecond) + 1 > limits.maxOrderCounter) {
+      throw new KrakenRateLimitError(`Order rate limit reached for ${pair}, try again in a few seconds`);
+    }
+    counter.add(1, limits.orderDecayPerSecond);
+    this.notify();
+  }
+
+  recordOrderPlaced(pair: string, orderIds: string[]) {
+    const placedAt = Date.now();
+    orderIds.forEach(orderId => this.orders.set(orderId, { pair, placedAt }));
+  }
+
+  recordOrderCanceled(orderId: string) {
+    this.applyPenalty(orderId, CANCEL_PENALTIES);
+    this.orders.delete(orderId);
+  }
+
+  recordOrderEdited(orderId: string, newOrderId?: string) {
+    const order = this.orders.get(orderId);
+    this.applyPenalty(orderId, EDIT_PENALTIES);
+    if (order && newOrderId) {
+      this.orders.delete(orderId);
+      this.orders.set(newOrderId, { pair: order.pair, placedAt: Date.now() });
+    }
+  }
+
+  recordAllCanceled() {
+    [...this.orders.keys()].forEach(orderId => this.recordOrderCanceled(orderId));
+  }
+
+  /** Kraken rejected a call for rate: our model drifted, so assume the counter is full. */
+  recordRateLimited(pair?: string) {
+    const limits = TIER_LIMITS[this.tier];
+    if (pair) {
+      this.pairCounter(pair).set(limits.maxOrderCounter);
+    } else {
+      this.counter.set(limits.maxCounter);
+    }
+    logError('warning', 'Kraken reported a rate limit, backing off', pair || 'API counter');
+    this.notify();
+  }
+
+  getStatus(): RateLimitStatus {
+    const limits = TIER_LIMITS[this.tier];
+    const counter = this.counter.get(limits.decayPerSecond);
+    const pairs: PairRateStatus[] = [];
+    this.pairCounters.forEach((pairCounter, pair) => {
+      const value = pairCounter.get(limits.orderDecayPerSecond);
+      if (value > 0) pairs.push({ pair, counter: value, max: limits.maxOrderCounter });
+    });
+
+    return {
+      tier: this.tier,
+      counter,
+      max: limits.maxCounter,
+      remaining: Math.max(0, limits.maxCounter - counter),
+      queued: this.queued,
+      pairs
+    };
+  }
+
+  onChange(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async waitForBudget(action: string, cost: number, deadline: number) {
+    const limits = TIER_LIMITS[this.tier];
+    const excess = this.counter.get(limits.decayPerSecond) + cost - limits.maxCounter;
+    if (excess > 0) {
+      const wait = (excess / limits.decayPerSecond) * 1000;
+      if (Date.now() + wait > deadline) {
+        throw new KrakenRateLimitError(`Kraken API rate limit budget exhausted, ${action} would wait ${Math.ceil(wait / 1000)}s`);
+      }
+      logError('info', `Delaying ${action} ${Math.ceil(wait)}ms for rate limit budget`);
+      await sleep(wait);
+    }
+    this.counter.add(cost, TIER_LIMITS[this.tier].decayPerSecond);
+  }
+
+  private applyPenalty(orderId: string, table: [number, number][]) {
+    const order = this.orders.get(orderId);
+    if (!order) return;
+
+    const penalty = penaltyFor(table, (Date.now() - order.placedAt) / 1000);
+    if (penalty > 0) {
+      this.pairCounter(order.pair).add(penalty, TIER_LIMITS[this.tier].orderDecayPerSecond);
+      this.notify();
+    }
+  }
+
+  private pairCounter(pair: string): DecayingCounter {
+    let counter = this.pairCounters.get(pair);
+    if (!counter) {
+      counter = new DecayingCounter();
+      this.pairCounters.set(pair, counter);
+    }
+    return counter;
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+// Kraken meters per API key, so every service instance using a key shares its limiter
+const limiters = new Map<string, KrakenRateLimiter>();
+
+export const getKrakenRateLimiter = (apiKey: string): KrakenRateLimiter => {
+  let limiter = limiters.get(apiKey);
+  if (!limiter) {
+    limiter = new KrakenRateLimiter();
+    limiters.set(apiKey, limiter);
+  }
+  return limiter;
+};
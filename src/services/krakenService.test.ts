@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KrakenTransport } from '@/lib/krakenApi';
+import { ASSET_PAIRS, orderBook, priceSnapshot } from '@/test/fixtures';
+import { KrakenService } from './krakenService';
+import { marketData } from './marketData';
+import { priceOracle } from './priceOracle';
+import { TradeValidator } from './tradeValidator';
+
+interface TransportOptions {
+  holds?: { [asset: string]: string }; // What open orders hold of each balance
+  orderError?: string; // Kraken error every order fails with
+  listedAfter?: number; // Order lookups before a failed order shows up as open; never when unset
+}
+
+// Answers the private calls placeValidatedOrder makes and records every order sent
+const createTransport = (balances: { [asset: string]: string }, { holds = {}, orderError, listedAfter }: TransportOptions = {}) => {
+  const orders: Record<string, unknown>[] = [];
+  let lookups = 0;
+  const transport: KrakenTransport = {
+    kind: 'direct',
+    send: async (action, params) => {
+      switch (action) {
+        case 'getBalanceEx':
+          return { data: { result: Object.fromEntries(Object.entries(balances).map(([asset, balance]) => [asset, { balance, hold_trade: holds[asset] || '0' }])) }, error: null };
+        case 'tradeVolume':
+          return { data: { result: { currency: 'ZUSD', volume: '0', fees: {} } }, error: null };
+        case 'placeOrder':
+          orders.push(params);
+          if (orderError) return { data: { error: [orderError] }, error: null };
+          return { data: { result: { descr: { order: `${params.type} ${params.volume} ${params.pair}` }, txid: [`O${orders.length}`] } }, error: null };
+        case 'openOrders': {
+          const listed = listedAfter !== undefined && ++lookups > listedAfter;
+          const open = listed ? Object.fromEntries(orders.map((order, i) => [`O${i + 1}`, { userref: order.userref, descr: { order: `${order.type} ${order.volume} ${order.pair}` } }])) : {};
+          return { data: { result: { open } }, error: null };
+        }
+        case 'closedOrders':
+          return { data: { result: { closed: {} } }, error: null };
+        default:
+          return { data: { error: [`EGeneral:Unexpected ${action}`] }, error: null };
+      }
+    }
+  };
+  return { transport, orders };
+};
+
+describe('KrakenService.placeValidatedOrder', () => {
+  let keyIndex = 0;
+
+  beforeEach(() => {
+    vi.spyOn(marketData, 'getAssetPairs').mockResolvedValue(ASSET_PAIRS);
+    vi.spyOn(marketData, 'getOrderBook').mockImplementation(async pair => orderBook(pair, 60000));
+    vi.spyOn(priceOracle, 'getPrices').mockResolvedValue(priceSnapshot({ BTC: 60000 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Rate limiters are shared per API key, so each service gets its own
+  const createService = (balances: { [asset: string]: string }, options?: TransportOptions) => {
+    const { transport, orders } = createTransport(balances, options);
+    return { service: new KrakenService(`test-key-${keyIndex++}`, 'secret', transport), orders };
+  };
+
+  it('sends an order that passes validation as it is', async () => {
+    const { service, orders } = createService({ ZUSD: '10000' });
+
+    const response = await service.placeValidatedOrder({ pair: 'BTC/USD', type: 'buy', ordertype: 'market', volume: '0.01' });
+
+    expect(response.error).toBeUndefined();
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ pair: 'BTC/USD', volume: '0.01' });
+  });
+
+  it('shrinks an order the balance cannot cover before sending it', async () => {
+    // Kraken only spends USD on the order, but the BTC keeps it a small share of the portfolio
+    const { service, orders } = createService({ ZUSD: '300', XXBT: '1' });
+
+    const response = await service.placeValidatedOrder({ pair: 'BTC/USD', type: 'buy', ordertype: 'market', volume: '0.01' });
+
+    expect(response.error).toBeUndefined();
+    expect(orders).toHaveLength(1);
+    // Sized at the book's best ask, 60000.5, rather than the oracle price
+    expect(orders[0].volume).toBe('0.00498003');
+  });
+
+  it('asks for confirmation when the shrunk order crosses a threshold', async () => {
+    const { service, orders } = createService({ ZUSD: '300' });
+    const order = { pair: 'BTC/USD', type: 'buy' as const, ordertype: 'market' as const, volume: '0.01' };
+
+    const unconfirmed = await service.placeValidatedOrder({ ...order });
+    expect(unconfirmed.errorType).toBe('confirmationRequired');
+    expect(unconfirmed.error?.[0]).toMatch(/^Order value \$298\.80 is 99\.6% of the \$300\.00 available/);
+    expect(orders).toHaveLength(0);
+
+    const confirmed = await service.placeValidatedOrder({ ...order }, undefined, true);
+    expect(confirmed.error).toBeUndefined();
+    expect(orders[0].volume).toBe('0.00498003');
+  });
+
+  it('only counts what open orders do not already hold', async () => {
+    const { service, orders } = createService({ ZUSD: '10000', XXBT: '1' }, { holds: { ZUSD: '9700' } });
+
+    const response = await service.placeValidatedOrder({ pair: 'BTC/USD', type: 'buy', ordertype: 'market', volume: '0.01' });
+
+    expect(response.error).toBeUndefined();
+    expect(orders[0].volume).toBe('0.00498003');
+  });
+
+  it('refuses an order that cannot be shrunk to fit', async () => {
+    const { service, orders } = createService({ ZUSD: '1' });
+
+    const response = await service.placeValidatedOrder({ pair: 'BTC/USD', type: 'buy', ordertype: 'market', volume: '0.01' });
+
+    expect(response.errorType).toBe('invalidOrder');
+    expect(response.error).toEqual(['Insufficient USD balance. Required: $600.00, Available: $1.00']);
+    expect(orders).toHaveLength(0);
+  });
+
+  it('reports why a shrunk order is still refused', async () => {
+    const { service, orders } = createService({ ZUSD: '10000' });
+    vi.spyOn(TradeValidator.prototype, 'validateTrade')
+      .mockReturnValueOnce({ isValid: false, error: 'Insufficient USD balance. Adjusting amount to 0.005000', adjustedAmount: 0.005, rules: [] })
+      .mockReturnValueOnce({ isValid: false, error: 'Outside trading hours 09:00-17:00 UTC', rules: [] });
+
+    const response = await service.placeValidatedOrder({ pair: 'BTC/USD', type: 'buy', ordertype: 'market', volume: '0.01' });
+
+    expect(response).toEqual({ error: ['Outside trading hours 09:00-17:00 UTC'], errorType: 'invalidOrder' });
+    expect(orders).toHaveLength(0);
+  });
+
+  it('shrinks a market order to what the pair\'s book can fill within the slippage limit', async () => {
+    vi.mocked(marketData.getOrderBook).mockImplementation(async pair => orderBook(pair, 60000, { step: 100, volume: 0.001 }));
+    const { service, orders } = createService({ ZUSD: '10000' });
+
+    const response = await service.placeValidatedOrder({ pair: 'BTC/USD', type: 'buy', ordertype: 'market', volume: '0.008' });
+
+    expect(response.error).toBeUndefined();
+    expect(marketData.getOrderBook).toHaveBeenCalledWith('XXBTZUSD', 100);
+    expect(orders[0].volume).toBe('0.006');
+  });
+
+  it('holds an order over a confirmation threshold until it is confirmed', async () => {
+    const { service, orders } = createService({ ZUSD: '100000' });
+    const order = { pair: 'BTC/USD', type: 'buy' as const, ordertype: 'limit' as const, volume: '0.01', price: '90000' };
+
+    const unconfirmed = await service.placeValidatedOrder({ ...order });
+    expect(unconfirmed.errorType).toBe('confirmationRequired');
+    expect(unconfirmed.error).toEqual(['Price 90000 is 50.0% above the mid price 60000.0, more than 25.0%']);
+    expect(orders).toHaveLength(0);
+
+    const confirmed = await service.placeValidatedOrder({ ...order }, undefined, true);
+    expect(confirmed.error).toBeUndefined();
+    expect(orders).toHaveLength(1);
+    expect(orders[0]).toMatchObject({ volume: '0.01', price: '90000' });
+  });
+
+  it('does not resend an order after a temporary lockout', async () => {
+    const { service, orders } = createService({ ZUSD: '10000' }, { orderError: 'EGeneral:Temporary lockout' });
+
+    const response = await service.placeValidatedOrder({ pair: 'BTC/USD', type: 'buy', ordertype: 'market', volume: '0.01' });
+
+    expect(response.errorType).toBe('lockout');
+    expect(response.error?.[0]).toMatch(/^API key temporarily locked out/);
+    expect(orders).toHaveLength(1);
+  });
+
+  describe('after an ambiguous failure', () => {
+    const order = { pair: 'BTC/USD', type: 'buy' as const, ordertype: 'market' as const, volume: '0.01' };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('keeps looking until the order shows up instead of resending it', async () => {
+      const { service, orders } = createService({ ZUSD: '10000' }, { orderError: 'EService:Deadline elapsed', listedAfter: 3 });
+
+      const pending = service.placeValidatedOrder({ ...order });
+      await vi.advanceTimersByTimeAsync(10000);
+      const response = await pending;
+
+      expect(response.error).toBeUndefined();
+      expect(response.result?.txid).toEqual(['O1']);
+      expect(orders).toHaveLength(1);
+    });
+
+    it('reports the order status as unknown when it never shows up', async () => {
+      const { service, orders } = createService({ ZUSD: '10000' }, { orderError: 'EService:Deadline elapsed' });
+
+      const pending = service.placeValidatedOrder({ ...order });
+      await vi.advanceTimersByTimeAsync(30000);
+      const response = await pending;
+
+      expect(response.errorType).toBe('transport');
+      expect(response.error?.[0]).toMatch(/^Order status unknown/);
+      expect(orders).toHaveLength(1);
+    });
+  });
+});
@@ -1,95 +1,271 @@
-import { supabase } from '@/lib/supabase';
-import { TradeValidator, TradeValidationResult } from './tradeValidator';
+import { findBalanceCode, splitPair, toKrakenAsset } from '@/lib/assets';
+import { createKrakenTransport, KRAKEN_TRANSPORT, KrakenTransport, KrakenTransportKind } from '@/lib/krakenApi';
+import { createLogger } from '@/lib/logger';
+import { AssetPair, findAssetPair, floorToLot, marketData, OrderBook, roundToTick } from './marketData';
+import { priceOracle } from './priceOracle';
+import { getKrakenRateLimiter, KrakenRateLimiter } from './krakenRateLimiter';
+import { KrakenError, KrakenInvalidOrderError, KrakenRateLimitError, KrakenTransportError, parseKrakenError } from './krakenErrors';
+import { TradeRequest, TradeValidator, TradeValidationResult } from './tradeValidator';
+import { loadRuleConfig } from './validationRules';
+import {
+  ExchangeAdapter,
+  ExchangeBalance,
+  ExchangeCancelAfterResult,
+  ExchangeErrorType,
+  ExchangeFill,
+  ExchangeHistoryPage,
+  ExchangeHistoryQuery,
+  ExchangeLedgerEntry,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeOrderStatus,
+  ExchangeTicker,
+  FeeTier
+} from './exchangeAdapter';
 
-export interface KrakenBalance {
-  [currency: string]: string;
+export type KrakenBalance = ExchangeBalance;
+
+// BalanceEx: hold_trade is what open orders have reserved out of balance
+export interface KrakenExtendedBalance {
+  [asset: string]: {
+    balance: string;
+    hold_trade?: string;
+    credit?: string;
+    credit_used?: string;
+  };
 }
 
 export interface KrakenOrderRequest {
   pair: string;
   type: 'buy' | 'sell';
-  ordertype: 'market' | 'limit';
+  ordertype: 'market' | 'limit' | 'stop-loss' | 'take-profit' | 'stop-loss-limit' | 'take-profit-limit';
   volume: string;
   price?: string;
+  price2?: string;
+  timeinforce?: 'GTC' | 'IOC' | 'GTD';
+  expiretm?: string;
+  oflags?: string;
+  reduce_only?: boolean;
+  leverage?: string;
+  userref?: number; // Client-chosen id, used to find the order again after an ambiguous failure
 }
 
 export interface KrakenOrderResponse {
   error?: string[];
+  errorType?: ExchangeErrorType;
   result?: {
     descr: { order: string };
     txid: string[];
   };
 }
 
-interface CryptoPrice {
-  [key: string]: number;
+export interface KrakenOrderInfo {
+  status: 'pending' | 'open' | 'closed' | 'canceled' | 'expired';
+  userref?: number;
+  opentm: number;
+  closetm?: number;
+  descr: {
+    pair: string;
+    type: 'buy' | 'sell';
+    ordertype: string;
+    price: string;
+    price2: string;
+    order: string;
+  };
+  vol: string;
+  vol_exec: string;
+  cost: string;
+  fee: string;
+  price: string;
 }
 
-const logError = (type: 'error' | 'warning' | 'info', message: string, details?: string) => {
-  console.log(`[${type.toUpperCase()}] ${message}`, details || '');
-  if (typeof window !== 'undefined' && (window as any).logError) {
-    (window as any).logError(type, message, details, 'Kraken Service');
-  }
-};
+export type KrakenHistoryQuery = ExchangeHistoryQuery;
+
+export type KrakenHistoryPage<T> = ExchangeHistoryPage<T>;
+
+export interface KrakenClosedOrdersQuery extends KrakenHistoryQuery {
+  closeTime?: 'open' | 'close' | 'both';
+}
+
+export interface KrakenLedgersQuery extends KrakenHistoryQuery {
+  asset?: string;
+  type?: string;
+}
+
+export interface KrakenTradeInfo {
+  ordertxid: string;
+  pair: string;
+  time: number;
+  type: 'buy' | 'sell';
+  ordertype: string;
+  price: string;
+  cost: string;
+  fee: string;
+  vol: string;
+}
+
+export interface KrakenLedgerInfo {
+  refid: string;
+  time: number;
+  type: string;
+  subtype: string;
+  asset: string;
+  amount: string;
+  fee: string;
+  balance: string;
+}
+
+export interface KrakenClosedOrdersPage {
+  orders: ExchangeOrder[];
+  count: number; // Total closed orders matching the query, across all pages
+  nextOffset: number;
+}
+
+export interface KrakenFeeInfo {
+  fee: string; // Percent, e.g. 0.2600
+  minfee?: string;
+  maxfee?: string;
+  nextfee?: string | null;
+  nextvolume?: string | null;
+  tiervolume?: string;
+}
+
+export interface KrakenTradeVolume {
+  currency: string;
+  volume: string; // 30-day volume in `currency`
+  fees?: { [pair: string]: KrakenFeeInfo }; // Taker
+  fees_maker?: { [pair: string]: KrakenFeeInfo };
+}
 
-export class KrakenService {
-  private apiKey: string;
-  private apiSecret: string;
-  private cachedBalances: KrakenBalance = {};
+export type KrakenCancelAfterResult = ExchangeCancelAfterResult;
+
+export interface KrakenEditOrderRequest {
+  volume?: number;
+  price?: number;
+  price2?: number;
+}
+
+export interface KrakenEditOrderResult {
+  status: string;
+  txid: string; // Editing replaces the order, so this is a new txid
+  originaltxid: string;
+  volume: string;
+  price: string;
+  price2?: string;
+  orders_cancelled: number;
+  descr: { order: string };
+}
+
+const ORDER_MAX_ATTEMPTS = 3;
+const ORDER_RETRY_BASE_DELAY = 500;
+const ORDER_RETRY_MAX_DELAY = 8000;
+// Fee tiers move with 30-day volume, which changes slowly
+const FEE_REFRESH_INTERVAL = 3600000;
+// Levels fetched to estimate market order slippage, and how long a book is trusted for it
+const ORDER_BOOK_DEPTH = 100;
+const ORDER_BOOK_MAX_AGE = 10000;
+
+// How far before the first attempt to look for closed orders carrying our userref
+const ORDER_LOOKUP_WINDOW = 60;
+// After an ambiguous failure, how often and for how long to look for the order before giving up
+const ORDER_LOOKUP_INTERVAL = 2000;
+const ORDER_LOOKUP_TIMEOUT = 20000;
+
+// Full jitter, so clients retrying after a shared outage do not arrive together
+const retryDelay = (attempt: number) =>
+  Math.random() * Math.min(ORDER_RETRY_MAX_DELAY, ORDER_RETRY_BASE_DELAY * 2 ** (attempt - 1));
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const orderStatusUnknown = (userref: number) =>
+  new KrakenTransportError(`Order status unknown after a failed submission; check open orders for userref ${userref} before retrying`, { ambiguous: true });
+
+// Kraken's userref is a signed 32-bit integer; 0 means none
+const createUserref = (): number => (crypto.getRandomValues(new Uint32Array(1))[0] & 0x7fffffff) || 1;
+
+const logError = createLogger('Kraken Service');
+
+export class KrakenService implements ExchangeAdapter {
+  readonly exchange = 'kraken' as const;
+  readonly displayName = 'Kraken';
+  private transport: KrakenTransport;
+  private cachedBalances: KrakenBalance = {}; // Totals, including funds held by open orders
+  private cachedHolds: KrakenBalance = {};
   private lastBalanceUpdate: number = 0;
   private balanceUpdateInterval: number = 30000;
-  private cryptoPrices: CryptoPrice = {};
-  private lastPriceUpdate: number = 0;
-  private priceUpdateInterval: number = 60000;
+  private fillStreamActive = false;
+  private assetPairs: AssetPair[] = [];
+  private rateLimiter: KrakenRateLimiter;
+  private feeTiers = new Map<string, { tier: FeeTier; loadedAt: number }>(); // By Kraken pair name
+  private orderBooks = new Map<string, { book: OrderBook; loadedAt: number }>(); // By Kraken pair name
 
-  constructor(apiKey: string, apiSecret: string) {
-    this.apiKey = apiKey;
-    this.apiSecret = apiSecret;
-    this.initializeCryptoPrices();
+  constructor(apiKey: string, apiSecret: string, transport: KrakenTransport = createKrakenTransport(apiKey, apiSecret)) {
+    this.transport = transport;
+    this.rateLimiter = getKrakenRateLimiter(apiKey);
+    this.loadAssetPairs();
   }
 
-  private async initializeCryptoPrices() {
+  // Keeps the last good listing so validation still has limits if a refresh fails
+  private async loadAssetPairs(): Promise<AssetPair[]> {
     try {
-      const response = await fetch('https://api.coingecko.com/api/v3/simple/price?ids=bitcoin,ethereum,ripple,litecoin,cardano,polkadot&vs_currencies=usd');
-      const data = await response.json();
-      
-      this.cryptoPrices = {
-        'XBT': data.bitcoin?.usd || 45000,
-        'XXBT': data.bitcoin?.usd || 45000,
-        'ETH': data.ethereum?.usd || 2500,
-        'XETH': data.ethereum?.usd || 2500,
-        'XRP': data.ripple?.usd || 0.6,
-        'XXRP': data.ripple?.usd || 0.6,
-        'LTC': data.litecoin?.usd || 100,
-        'XLTC': data.litecoin?.usd || 100,
-        'ADA': data.cardano?.usd || 0.5,
-        'DOT': data.polkadot?.usd || 7,
-        'USD': 1,
-        'ZUSD': 1
-      };
-      
-      this.lastPriceUpdate = Date.now();
-      logError('info', 'Crypto prices updated successfully');
+      this.assetPairs = await marketData.getAssetPairs();
     } catch (error) {
-      logError('warning', 'Failed to fetch crypto prices, using fallback values');
-      this.cryptoPrices = {
-        'XBT': 45000, 'XXBT': 45000,
-        'ETH': 2500, 'XETH': 2500,
-        'XRP': 0.6, 'XXRP': 0.6,
-        'LTC': 100, 'XLTC': 100,
-        'ADA': 0.5, 'DOT': 7,
-        'USD': 1, 'ZUSD': 1
-      };
+      logError('warning', 'Failed to load Kraken pair metadata', error instanceof Error ? error.message : 'Unknown error');
     }
+    return this.assetPairs;
   }
 
-  private async updateCryptoPricesIfNeeded() {
+  /**
+   * The account's maker and taker fees for `pairs`, from TradeVolume. Pairs
+   * without a fresh tier are fetched together; if that fails, whatever is
+   * cached is returned and callers fall back to default fees.
+   */
+  async loadFeeTiers(pairs: string[]): Promise<FeeTier[]> {
+    const assetPairs = await this.loadAssetPairs();
+    const names = pairs.map(pair => findAssetPair(assetPairs, pair)?.name ?? this.toKrakenPair(pair));
     const now = Date.now();
-    if (now - this.lastPriceUpdate > this.priceUpdateInterval) {
-      await this.initializeCryptoPrices();
+    const missing = names.filter(name => !(now - (this.feeTiers.get(name)?.loadedAt ?? 0) < FEE_REFRESH_INTERVAL));
+
+    if (missing.length > 0) {
+      try {
+        const result = await this.invoke<KrakenTradeVolume>('tradeVolume', { pair: missing.join(',') });
+        Object.entries(result?.fees || {}).forEach(([name, info]) => {
+          const taker = parseFloat(info.fee) / 100;
+          const makerInfo = result?.fees_maker?.[name];
+          const maker = makerInfo ? parseFloat(makerInfo.fee) / 100 : taker;
+          this.feeTiers.set(name, { tier: { pair: name, maker, taker }, loadedAt: now });
+        });
+        logError('info', 'Kraken fee tiers loaded', `30-day volume ${result?.volume} ${result?.currency}: ${missing.join(', ')}`);
+      } catch (error) {
+        logError('warning', 'Failed to load Kraken fee tiers', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    return names.map(name => this.feeTiers.get(name)?.tier).filter((tier): tier is FeeTier => !!tier);
+  }
+
+  /**
+   * Fetches `pair`'s order book for slippage estimates. Validation without a
+   * book skips the slippage rule, so a failed fetch only warns.
+   */
+  async loadOrderBook(pair: string): Promise<OrderBook | undefined> {
+    const name = findAssetPair(await this.loadAssetPairs(), pair)?.name ?? this.toKrakenPair(pair);
+    try {
+      const book = await marketData.getOrderBook(name, ORDER_BOOK_DEPTH);
+      this.orderBooks.set(name, { book, loadedAt: Date.now() });
+      return book;
+    } catch (error) {
+      logError('warning', `Failed to load the ${pair} order book`, error instanceof Error ? error.message : 'Unknown error');
+      return undefined;
     }
   }
 
+  private getFreshOrderBooks(): OrderBook[] {
+    const now = Date.now();
+    return [...this.orderBooks.values()].filter(({ loadedAt }) => now - loadedAt < ORDER_BOOK_MAX_AGE).map(({ book }) => book);
+  }
+
   async getAccountBalance(): Promise<KrakenBalance> {
     const now = Date.now();
     if (now - this.lastBalanceUpdate < this.balanceUpdateInterval && Object.keys(this.cachedBalances).length > 0) {
@@ -98,47 +274,28 @@ export class KrakenService {
 
     try {
       logError('info', 'Fetching Kraken account balance...');
-      const { data, error } = await supabase.functions.invoke('kraken-api', {
-        body: {
-          action: 'getBalance',
-          apiKey: this.apiKey,
-          apiSecret: this.apiSecret
-        }
-      });
-
-      if (error) {
-        logError('error', 'Supabase function invocation failed', JSON.stringify(error));
-        throw new Error(`Function invocation failed: ${error.message || 'Unknown error'}`);
-      }
+      const result = await this.invoke<KrakenExtendedBalance>('getBalanceEx');
 
-      if (data?.error && data.error.length > 0) {
-        const krakenError = data.error[0];
-        logError('error', 'Kraken API returned error', krakenError);
-        
-        if (krakenError.includes('Invalid key')) {
-          throw new Error('Invalid API key - check your credentials');
-        } else if (krakenError.includes('Permission denied')) {
-          throw new Error('API key lacks required permissions');
-        } else if (krakenError.includes('Invalid signature')) {
-          throw new Error('Invalid API signature - check your secret key');
-        } else if (krakenError.includes('Invalid nonce')) {
-          throw new Error('Invalid nonce - time synchronization issue');
-        }
-        
-        throw new Error(`Kraken Error: ${krakenError}`);
-      }
-
-      if (!data?.result) {
-        logError('error', 'No result data received from Kraken API', JSON.stringify(data));
+      if (!result) {
+        logError('error', 'No result data received from Kraken API');
         throw new Error('No balance data received from Kraken');
       }
 
-      this.cachedBalances = data.result;
+      const balances: KrakenBalance = {};
+      const holds: KrakenBalance = {};
+      Object.entries(result).forEach(([asset, { balance, hold_trade }]) => {
+        balances[asset] = balance;
+        if (parseFloat(hold_trade || '0') > 0) holds[asset] = hold_trade;
+      });
+      this.cachedBalances = balances;
+      this.cachedHolds = holds;
       this.lastBalanceUpdate = now;
       
       // Log portfolio summary including Bitcoin and other crypto
+      await priceOracle.getPrices(Object.keys(balances));
       const portfolioSummary = this.getPortfolioSummary();
-      logError('info', 'Portfolio balance updated', `Total USD value: $${portfolioSummary.totalUsdValue.toFixed(2)}`);
+      const unpricedNote = portfolioSummary.unpriced.length > 0 ? ` (excludes unpriced ${portfolioSummary.unpriced.join(', ')})` : '';
+      logError('info', 'Portfolio balance updated', `Total USD value: $${portfolioSummary.totalUsdValue.toFixed(2)}${unpricedNote}`);
       
       return this.cachedBalances;
     } catch (error) {
@@ -148,69 +305,150 @@ export class KrakenService {
     }
   }
 
+  /**
+   * Balances minus what open orders hold, which is what a new order can
+   * spend. Validation uses these so two orders can't both count on the same
+   * funds and a sell can't take base a resting order already holds.
+   */
+  getAvailableBalances(): KrakenBalance {
+    const available: KrakenBalance = {};
+    Object.entries(this.cachedBalances).forEach(([asset, balance]) => {
+      const held = parseFloat(this.cachedHolds[asset] || '0');
+      available[asset] = Math.max(parseFloat(balance) - held, 0).toFixed(10);
+    });
+    return available;
+  }
+
+  /**
+   * While a private feed delivers fills, cached balances are kept current by
+   * applyFill. Order changes still refetch, since only Kraken knows how much
+   * each order holds.
+   */
+  setFillStreamActive(active: boolean) {
+    // Fills made while the feed was down never arrive, so start from a fresh balance
+    if (active && !this.fillStreamActive) {
+      this.lastBalanceUpdate = 0;
+    }
+    this.fillStreamActive = active;
+  }
+
+  /** Applies a streamed fill to the cached balances: base and quote legs plus the quote-side fee. */
+  applyFill(fill: ExchangeFill) {
+    if (Object.keys(this.cachedBalances).length === 0) return;
+
+    const [base, quote] = fill.pair.split('/');
+    const sign = fill.side === 'buy' ? 1 : -1;
+    this.adjustBalance(base, sign * fill.volume);
+    this.adjustBalance(quote, -sign * fill.cost - fill.fee);
+    // A filled resting order no longer holds what it spent
+    if (fill.side === 'buy') {
+      this.releaseHold(quote, fill.cost + fill.fee);
+    } else {
+      this.releaseHold(base, fill.volume);
+    }
+    logError('info', 'Balances updated from fill', `${fill.side} ${fill.volume} ${fill.pair} @ ${fill.price}`);
+  }
+
+  async getWebSocketsToken(): Promise<string> {
+    const result = await this.invoke<{ token: string; expires: number }>('getWebSocketsToken');
+    if (!result?.token) {
+      throw new Error('No WebSocket token received from Kraken');
+    }
+    return result.token;
+  }
+
+  // Placing, editing or cancelling an order changes what it holds
+  private invalidateBalances() {
+    this.lastBalanceUpdate = 0;
+  }
+
+  // Feed pairs use plain codes (XBT/USD) while balances use Kraken's (XXBT, ZUSD)
+  private adjustBalance(asset: string, delta: number) {
+    const code = findBalanceCode(this.cachedBalances, asset) || toKrakenAsset(asset);
+    const current = parseFloat(this.cachedBalances[code] || '0');
+    this.cachedBalances = { ...this.cachedBalances, [code]: (current + delta).toFixed(10) };
+  }
+
+  private releaseHold(asset: string, amount: number) {
+    const code = findBalanceCode(this.cachedHolds, asset);
+    if (!code) return;
+    const held = Math.max(parseFloat(this.cachedHolds[code]) - amount, 0);
+    this.cachedHolds = { ...this.cachedHolds, [code]: held.toFixed(10) };
+  }
+
+  // Assets without a fresh price are listed as unpriced instead of being valued at a guess
   getPortfolioSummary() {
-    const summary: { [currency: string]: { balance: number; usdValue: number } } = {};
-    let totalUsdValue = 0;
+    const summary: { [currency: string]: { balance: number; usdValue?: number } } = {};
+    const prices = priceOracle.getSnapshot();
     
     Object.entries(this.cachedBalances).forEach(([currency, balance]) => {
       const numBalance = parseFloat(balance);
       if (numBalance > 0.0001) {
-        const price = this.cryptoPrices[currency] || 1;
-        const usdValue = numBalance * price;
-        
+        const price = prices.getPrice(currency);
         summary[currency] = {
           balance: numBalance,
-          usdValue
+          usdValue: price !== undefined ? numBalance * price : undefined
         };
-        
-        totalUsdValue += usdValue;
       }
     });
     
-    return { summary, totalUsdValue };
+    const { total: totalUsdValue, unpriced } = prices.valueBalances(this.cachedBalances);
+    return { summary, totalUsdValue, unpriced };
   }
 
-  async placeValidatedOrder(order: KrakenOrderRequest): Promise<KrakenOrderResponse> {
+  async placeValidatedOrder(order: KrakenOrderRequest, strategy?: string, confirmed = false): Promise<KrakenOrderResponse> {
     try {
       logError('info', `Placing ${order.type} order for ${order.volume} ${order.pair}`);
       
-      await this.updateCryptoPricesIfNeeded();
-      const balances = await this.getAccountBalance();
-      const validator = new TradeValidator(balances, this.cryptoPrices);
-      
-      // Convert pair format for validation
-      let validationPair = order.pair;
-      if (order.pair === 'XBTUSD') validationPair = 'BTC/USD';
-      if (order.pair === 'ETHUSD') validationPair = 'ETH/USD';
-      if (order.pair === 'XRPUSD') validationPair = 'XRP/USD';
+      await this.getAccountBalance();
+      const balances = this.getAvailableBalances();
+      const assetPairs = await this.loadAssetPairs();
+      // The pair's own assets need prices too, to cross them for crypto-to-crypto pairs
+      const pairInfo = findAssetPair(assetPairs, order.pair);
+      const pairAssets = pairInfo ? [pairInfo.base, pairInfo.quote] : splitPair(order.pair);
+      const prices = await priceOracle.getPrices([...Object.keys(balances), ...pairAssets]);
+      // Market orders walk the book; priced ones are held to a band around its mid
+      await this.loadOrderBook(order.pair);
+      const validator = new TradeValidator(balances, prices, assetPairs, await this.loadFeeTiers([order.pair]), loadRuleConfig(), this.getFreshOrderBooks());
       
+      const tradeOptions = { ...this.toTradeOptions(order), strategy, confirmed };
       const validation = validator.validateTrade({
-        pair: validationPair,
+        pair: order.pair,
         side: order.type,
         amount: parseFloat(order.volume),
-        price: order.price ? parseFloat(order.price) : undefined
+        ...tradeOptions
       });
 
       if (!validation.isValid) {
         logError('warning', 'Trade validation failed', validation.error);
         
+        // Possible fat-finger: a person has to look at it, so it is never shrunk to fit
+        if (validation.needsConfirmation) {
+          return { error: [validation.error || 'Order needs confirmation'], errorType: 'confirmationRequired' };
+        }
+        
         if (validation.adjustedAmount && validation.adjustedAmount > 0) {
           logError('info', `Adjusting trade amount from ${order.volume} to ${validation.adjustedAmount}`);
           order.volume = validation.adjustedAmount.toString();
           
           const revalidation = validator.validateTrade({
-            pair: validationPair,
+            pair: order.pair,
             side: order.type,
             amount: validation.adjustedAmount,
-            price: order.price ? parseFloat(order.price) : undefined
+            ...tradeOptions
           });
           
+          // The smaller order can still be a large share of what is left
+          if (revalidation.needsConfirmation) {
+            return { error: [revalidation.error || 'Order needs confirmation'], errorType: 'confirmationRequired' };
+          }
+
           if (!revalidation.isValid) {
             logError('error', 'Trade still invalid after adjustment', revalidation.error);
-            return { error: [validation.error || 'Trade validation failed'] };
+            return { error: [revalidation.error || 'Trade validation failed'], errorType: 'invalidOrder' };
           }
         } else {
-          return { error: [validation.error || 'Trade validation failed'] };
+          return { error: [validation.error || 'Trade validation failed'], errorType: 'invalidOrder' };
         }
       }
 
@@ -218,61 +456,340 @@ export class KrakenService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Order placement failed';
       logError('error', 'Validated order placement failed', errorMessage);
-      return { error: [errorMessage] };
+      return { error: [errorMessage], errorType: error instanceof KrakenError ? error.type : 'unknown' };
     }
   }
 
+  /**
+   * Sends an order tagged with a userref, retrying with backoff when Kraken
+   * refused it before it reached the engine. After an ambiguous failure (no
+   * response, or Kraken timing out on the engine) the order may exist, so it
+   * is never resubmitted: it is looked up by userref until it shows up or the
+   * lookup times out, and if it does not show up its state is unknown.
+   */
   async placeOrder(order: KrakenOrderRequest): Promise<KrakenOrderResponse> {
-    try {
-      logError('info', 'Sending order to Kraken API', JSON.stringify(order));
-      
-      const { data, error } = await supabase.functions.invoke('kraken-api', {
-        body: {
-          action: 'placeOrder',
-          apiKey: this.apiKey,
-          apiSecret: this.apiSecret,
-          ...order
+    const request = { ...order, userref: order.userref ?? createUserref() };
+    const submittedAt = Math.floor(Date.now() / 1000);
+    logError('info', 'Sending order to Kraken API', JSON.stringify(request));
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        this.rateLimiter.acquireOrder(request.pair);
+        const result = await this.invoke<KrakenOrderResponse['result']>('placeOrder', { ...request });
+
+        if (!result) {
+          logError('error', 'No result data received from order placement');
+          throw new Error('No order result received from Kraken');
         }
-      });
 
-      if (error) {
-        logError('error', 'Supabase function invocation failed during order placement', JSON.stringify(error));
-        throw new Error(`Function invocation failed: ${error.message || 'Unknown error'}`);
-      }
+        return this.onOrderPlaced(request.pair, result);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Order placement failed';
+        if (error instanceof KrakenError && error.ambiguous) {
+          logError('warning', 'Order submission failed ambiguously, looking the order up', `Attempt ${attempt}, userref ${request.userref}: ${errorMessage}`);
+          const placed = await this.awaitPlacedOrder(request.userref, submittedAt);
+          if (!placed) {
+            logError('error', 'Order from an ambiguous attempt was not found', `userref ${request.userref}`);
+            throw orderStatusUnknown(request.userref);
+          }
+          logError('info', 'Order from an ambiguous attempt was found, not resubmitting', `userref ${request.userref}: ${placed.txid.join(', ')}`);
+          return this.onOrderPlaced(request.pair, placed);
+        }
 
-      if (data?.error && data.error.length > 0) {
-        const krakenError = data.error[0];
-        logError('error', 'Kraken order placement error', krakenError);
-        
-        if (krakenError.includes('Insufficient funds')) {
-          throw new Error('Insufficient funds for this trade');
-        } else if (krakenError.includes('Invalid arguments')) {
-          throw new Error('Invalid order parameters');
-        } else if (krakenError.includes('Order minimum not met')) {
-          throw new Error('Order size below minimum requirement');
-        } else if (krakenError.includes('Unknown asset pair')) {
-          throw new Error('Invalid trading pair');
-        } else if (krakenError.includes('Invalid price')) {
-          throw new Error('Invalid price specified');
+        const retryable = error instanceof KrakenError && error.retryable;
+        if (!retryable || attempt >= ORDER_MAX_ATTEMPTS) {
+          logError('error', 'Order placement error', errorMessage);
+          throw error;
         }
-        
-        throw new Error(krakenError);
-      }
-      
-      if (!data?.result) {
-        logError('error', 'No result data received from order placement', JSON.stringify(data));
-        throw new Error('No order result received from Kraken');
+
+        const delay = retryDelay(attempt);
+        logError('warning', `Order submission failed (retryable), retrying in ${Math.round(delay)}ms`, `Attempt ${attempt}, userref ${request.userref}: ${errorMessage}`);
+        await sleep(delay);
       }
-      
-      this.lastBalanceUpdate = 0; // Invalidate balance cache
-      logError('info', 'Order placed successfully', `TxID: ${data.result.txid?.[0] || 'N/A'}`);
-      
-      return data;
+    }
+  }
+
+  private onOrderPlaced(pair: string, result: NonNullable<KrakenOrderResponse['result']>): KrakenOrderResponse {
+    this.rateLimiter.recordOrderPlaced(pair, result.txid || []);
+    this.invalidateBalances();
+    logError('info', 'Order placed successfully', `TxID: ${result.txid?.[0] || 'N/A'}`);
+    return { result };
+  }
+
+  // Polls findPlacedOrder at a fixed interval, so an order Kraken has not listed yet is not taken for one never placed
+  private async awaitPlacedOrder(userref: number, since: number): Promise<KrakenOrderResponse['result'] | null> {
+    const deadline = Date.now() + ORDER_LOOKUP_TIMEOUT;
+    for (;;) {
+      await sleep(ORDER_LOOKUP_INTERVAL);
+      const placed = await this.findPlacedOrder(userref, since);
+      if (placed || Date.now() >= deadline) return placed;
+    }
+  }
+
+  // Open and recently closed orders carrying `userref`, in placeOrder's result shape
+  private async findPlacedOrder(userref: number, since: number): Promise<KrakenOrderResponse['result'] | null> {
+    let open: { open: { [txid: string]: KrakenOrderInfo } } | undefined;
+    let closed: { closed: { [txid: string]: KrakenOrderInfo } } | undefined;
+    try {
+      [open, closed] = await Promise.all([
+        this.invoke<{ open: { [txid: string]: KrakenOrderInfo } }>('openOrders', { userref }),
+        this.invoke<{ closed: { [txid: string]: KrakenOrderInfo } }>('closedOrders', { userref, start: since - ORDER_LOOKUP_WINDOW })
+      ]);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Order placement failed';
-      logError('error', 'Order placement error', errorMessage);
-      throw error;
+      const errorMessage = error instanceof Error ? error.message : 'Order lookup failed';
+      logError('error', 'Could not check whether the order was placed', `userref ${userref}: ${errorMessage}`);
+      throw orderStatusUnknown(userref);
+    }
+
+    const found = [...Object.entries(open?.open || {}), ...Object.entries(closed?.closed || {})]
+      .filter(([, info]) => info.userref === userref);
+    if (found.length === 0) return null;
+    return { descr: { order: found[0][1].descr.order }, txid: found.map(([txid]) => txid) };
+  }
+
+  async submitOrder(request: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    const pairInfo = findAssetPair(await this.loadAssetPairs(), request.pair);
+    const toPrice = (price?: number) => {
+      if (price === undefined) return undefined;
+      return (pairInfo ? roundToTick(price, pairInfo) : price).toString();
+    };
+
+    const order: KrakenOrderRequest = {
+      pair: pairInfo?.altname ?? this.toKrakenPair(request.pair),
+      type: request.side,
+      ordertype: request.type,
+      volume: (pairInfo ? floorToLot(request.volume, pairInfo) : request.volume).toString(),
+      price: toPrice(request.price),
+      price2: toPrice(request.price2),
+      timeinforce: request.timeInForce,
+      expiretm: request.timeInForce === 'GTD' && request.expireTime ? request.expireTime.toString() : undefined,
+      oflags: request.postOnly ? 'post' : undefined,
+      reduce_only: request.reduceOnly || undefined,
+      leverage: request.leverage && request.leverage > 1 ? `${request.leverage}:1` : undefined
+    };
+
+    const response = await this.placeValidatedOrder(order, request.strategy, request.confirmed);
+    const adjustedVolume = order.volume !== request.volume.toString() ? parseFloat(order.volume) : undefined;
+
+    if (response.error && response.error.length > 0) {
+      return { success: false, orderIds: [], error: response.error[0], errorType: response.errorType, adjustedVolume };
+    }
+
+    return {
+      success: !!response.result,
+      orderIds: response.result?.txid || [],
+      description: response.result?.descr?.order,
+      error: response.result ? undefined : 'No result returned from Kraken API',
+      adjustedVolume
+    };
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    logError('info', 'Cancelling Kraken order', orderId);
+    const result = await this.invoke<{ count: number; pending?: boolean }>('cancelOrder', { txid: orderId });
+    this.rateLimiter.recordOrderCanceled(orderId);
+    this.invalidateBalances();
+    return (result?.count || 0) > 0 || !!result?.pending;
+  }
+
+  async getOrder(orderId: string): Promise<ExchangeOrder | null> {
+    const [order] = await this.queryOrders([orderId]);
+    return order || null;
+  }
+
+  async getOpenOrders(): Promise<ExchangeOrder[]> {
+    const result = await this.invoke<{ open: { [txid: string]: KrakenOrderInfo } }>('openOrders');
+    return Object.entries(result?.open || {}).map(([txid, info]) => this.toExchangeOrder(txid, info));
+  }
+
+  async getClosedOrders(query: KrakenClosedOrdersQuery = {}): Promise<KrakenClosedOrdersPage> {
+    const result = await this.invoke<{ closed: { [txid: string]: KrakenOrderInfo }; count: number }>('closedOrders', {
+      ofs: query.offset,
+      start: query.start,
+      end: query.end,
+      closetime: query.closeTime
+    });
+
+    const orders = Object.entries(result?.closed || {}).map(([txid, info]) => this.toExchangeOrder(txid, info));
+    return {
+      orders,
+      count: result?.count || 0,
+      nextOffset: (query.offset || 0) + orders.length
+    };
+  }
+
+  async getTradesHistory(query: KrakenHistoryQuery = {}): Promise<KrakenHistoryPage<ExchangeFill>> {
+    const result = await this.invoke<{ trades: { [id: string]: KrakenTradeInfo }; count: number }>('tradesHistory', {
+      ofs: query.offset,
+      start: query.start,
+      end: query.end
+    });
+
+    const entries = Object.entries(result?.trades || {}).map(([id, trade]): ExchangeFill => ({
+      id,
+      orderId: trade.ordertxid,
+      pair: trade.pair,
+      side: trade.type,
+      orderType: trade.ordertype,
+      price: parseFloat(trade.price),
+      volume: parseFloat(trade.vol),
+      cost: parseFloat(trade.cost),
+      fee: parseFloat(trade.fee),
+      time: trade.time
+    }));
+    return {
+      entries,
+      count: result?.count || 0,
+      nextOffset: (query.offset || 0) + entries.length
+    };
+  }
+
+  async getLedgers(query: KrakenLedgersQuery = {}): Promise<KrakenHistoryPage<ExchangeLedgerEntry>> {
+    const result = await this.invoke<{ ledger: { [id: string]: KrakenLedgerInfo }; count: number }>('ledgers', {
+      ofs: query.offset,
+      start: query.start,
+      end: query.end,
+      asset: query.asset,
+      type: query.type
+    });
+
+    const entries = Object.entries(result?.ledger || {}).map(([id, entry]): ExchangeLedgerEntry => ({
+      id,
+      refId: entry.refid,
+      type: entry.type,
+      subtype: entry.subtype || undefined,
+      asset: entry.asset,
+      amount: parseFloat(entry.amount),
+      fee: parseFloat(entry.fee),
+      balance: parseFloat(entry.balance),
+      time: entry.time
+    }));
+    return {
+      entries,
+      count: result?.count || 0,
+      nextOffset: (query.offset || 0) + entries.length
+    };
+  }
+
+  async queryOrders(txids: string[]): Promise<ExchangeOrder[]> {
+    const orders: ExchangeOrder[] = [];
+    // QueryOrders accepts at most 50 txids per call
+    for (let i = 0; i < txids.length; i += 50) {
+      const batch = txids.slice(i, i + 50);
+      const result = await this.invoke<{ [txid: string]: KrakenOrderInfo }>('queryOrders', { txid: batch.join(',') });
+      Object.entries(result || {}).forEach(([txid, info]) => orders.push(this.toExchangeOrder(txid, info)));
+    }
+    return orders;
+  }
+
+  async cancelAllOrders(): Promise<number> {
+    logError('info', 'Cancelling all open Kraken orders');
+    const result = await this.invoke<{ count: number }>('cancelAll');
+    this.rateLimiter.recordAllCanceled();
+    this.invalidateBalances();
+    logError('info', 'Kraken orders cancelled', `Count: ${result?.count || 0}`);
+    return result?.count || 0;
+  }
+
+  /**
+   * Arms (or pushes back) Kraken's dead man's switch: unless called again
+   * within `timeout` seconds, every open order is cancelled. 0 disarms it.
+   */
+  async cancelAllOrdersAfter(timeout: number): Promise<KrakenCancelAfterResult> {
+    const result = await this.invoke<KrakenCancelAfterResult>('cancelAllOrdersAfter', { timeout });
+    if (!result) {
+      throw new Error('No cancel-after result received from Kraken');
+    }
+    return result;
+  }
+
+  async editOrder(txid: string, changes: KrakenEditOrderRequest): Promise<KrakenEditOrderResult> {
+    const order = await this.getOrder(txid);
+    if (!order) {
+      throw new KrakenInvalidOrderError(`Unknown order ${txid}`);
     }
+
+    logError('info', 'Editing Kraken order', `${txid}: ${JSON.stringify(changes)}`);
+    this.rateLimiter.acquireOrder(order.pair);
+    const result = await this.invoke<KrakenEditOrderResult>('editOrder', {
+      txid,
+      pair: order.pair,
+      volume: changes.volume !== undefined ? changes.volume.toString() : undefined,
+      price: changes.price !== undefined ? changes.price.toString() : undefined,
+      price2: changes.price2 !== undefined ? changes.price2.toString() : undefined
+    });
+
+    if (!result) {
+      throw new Error('No edit result received from Kraken');
+    }
+
+    this.rateLimiter.recordOrderEdited(txid, result.txid);
+    this.invalidateBalances();
+    logError('info', 'Order edited successfully', `New TxID: ${result.txid}`);
+    return result;
+  }
+
+  async getTicker(pair: string): Promise<ExchangeTicker> {
+    return marketData.getTicker(pair);
+  }
+
+  private toTradeOptions(order: KrakenOrderRequest): Omit<TradeRequest, 'pair' | 'side' | 'amount'> {
+    return {
+      orderType: order.ordertype,
+      price: order.price ? parseFloat(order.price) : undefined,
+      price2: order.price2 ? parseFloat(order.price2) : undefined,
+      timeInForce: order.timeinforce,
+      expireTime: order.expiretm ? parseInt(order.expiretm, 10) : undefined,
+      postOnly: order.oflags?.split(',').includes('post'),
+      reduceOnly: order.reduce_only,
+      leverage: order.leverage ? parseFloat(order.leverage) : undefined
+    };
+  }
+
+  toKrakenPair(pair: string): string {
+    return marketData.toKrakenPair(pair);
+  }
+
+  private toExchangeOrder(txid: string, info: KrakenOrderInfo): ExchangeOrder {
+    const statuses: ExchangeOrderStatus[] = ['pending', 'open', 'closed', 'canceled', 'expired'];
+    return {
+      id: txid,
+      pair: info.descr.pair,
+      side: info.descr.type,
+      type: info.descr.ordertype,
+      status: statuses.includes(info.status) ? info.status : 'unknown',
+      volume: parseFloat(info.vol),
+      filledVolume: parseFloat(info.vol_exec),
+      price: parseFloat(info.descr.price) || undefined,
+      averagePrice: parseFloat(info.price) || undefined,
+      fee: parseFloat(info.fee) || 0,
+      openedAt: new Date(info.opentm * 1000),
+      closedAt: info.closetm ? new Date(info.closetm * 1000) : undefined
+    };
+  }
+
+  private async invoke<T>(action: string, params: Record<string, unknown> = {}): Promise<T | undefined> {
+    await this.rateLimiter.acquire(action);
+    const { data, error } = await this.transport.send(action, params);
+
+    if (error) {
+      logError('error', `Kraken ${this.transport.kind} transport failed during ${action}`, JSON.stringify(error));
+      // No Kraken response to go on: the request may or may not have been processed
+      throw new KrakenTransportError('API connection failed - check your internet connection', { ambiguous: true });
+    }
+
+    if (data?.error && data.error.length > 0) {
+      const krakenError = parseKrakenError(data.error[0]);
+      logError('error', `Kraken API returned ${krakenError.type} error for ${action}`, krakenError.code);
+      if (krakenError instanceof KrakenRateLimitError) {
+        // EOrder limits are per pair; EAPI ones are the call counter
+        const pair = krakenError.category === 'Order' && typeof params.pair === 'string' ? params.pair : undefined;
+        this.rateLimiter.recordRateLimited(pair);
+      }
+      throw krakenError;
+    }
+
+    return data?.result as T | undefined;
   }
 
   async testConnection(): Promise<boolean> {
@@ -292,13 +809,16 @@ export class KrakenService {
     if (Object.keys(this.cachedBalances).length === 0) {
       return null;
     }
-    return new TradeValidator(this.cachedBalances, this.cryptoPrices);
+    const feeTiers = [...this.feeTiers.values()].map(({ tier }) => tier);
+    return new TradeValidator(this.getAvailableBalances(), priceOracle.getSnapshot(), this.assetPairs, feeTiers, loadRuleConfig(), this.getFreshOrderBooks());
   }
 }
 
-export const createKrakenService = (apiKey: string, apiSecret: string) => {
-  if (!apiKey || !apiSecret) {
+// Through the edge function the keys are stored server-side and `apiKey` is
+// only the hash that identifies the account, e.g. for rate limits
+export const createKrakenService = (apiKey: string, apiSecret: string, transport: KrakenTransportKind = KRAKEN_TRANSPORT) => {
+  if (!apiKey || (transport === 'direct' && !apiSecret)) {
     throw new Error('API key and secret are required');
   }
-  return new KrakenService(apiKey, apiSecret);
+  return new KrakenService(apiKey, apiSecret, createKrakenTransport(apiKey, apiSecret, transport));
 };
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocket from 'ws';
+import { ASSET_PAIRS, BTC_USD } from '@/test/fixtures';
+import { KrakenStreamClient, StreamOrderBook } from './krakenStream';
+import { marketData } from './marketData';
+
+// Replays mocks/recordings/kraken-ws-v2.jsonl, whose books carry Kraken's real checksums
+const PORT = 18083;
+const MOCK_URL = `http://localhost:${PORT}`;
+
+let server: ChildProcess;
+let client: KrakenStreamClient;
+let logged: string[];
+
+const startServer = () => new Promise<ChildProcess>((resolve, reject) => {
+  const child = spawn(process.execPath, ['mocks/kraken-ws-replay.mjs'], { env: { ...process.env, MOCK_KRAKEN_WS_PORT: String(PORT) } });
+  child.stdout.on('data', chunk => {
+    if (String(chunk).includes('Mock Kraken WebSocket')) resolve(child);
+  });
+  child.on('exit', code => reject(new Error(`Replay server exited with ${code}`)));
+});
+
+// Resolves with the `count`th book published for `symbol`
+const nextBooks = (symbol: string, count: number) => new Promise<StreamOrderBook[]>(resolve => {
+  const books: StreamOrderBook[] = [];
+  const unsubscribe = client.subscribeBook(symbol, book => {
+    books.push(book);
+    if (books.length === count) {
+      resolve(books);
+      setTimeout(unsubscribe);
+    }
+  });
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const mismatches = () => logged.filter(line => line.includes('checksum mismatch'));
+
+describe('KrakenStreamClient order books', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('WebSocket', WebSocket);
+    server = await startServer();
+  });
+
+  afterAll(() => {
+    server?.kill();
+    vi.unstubAllGlobals();
+  });
+
+  beforeEach(() => {
+    logged = [];
+    vi.spyOn(console, 'log').mockImplementation((...args) => {
+      logged.push(args.join(' '));
+    });
+    vi.spyOn(marketData, 'getAssetPairs').mockResolvedValue(ASSET_PAIRS);
+    client = new KrakenStreamClient(`ws://localhost:${PORT}/v2`);
+  });
+
+  afterEach(() => {
+    client.close();
+    vi.restoreAllMocks();
+  });
+
+  it('verifies books at the decimals AssetPairs lists for each pair', async () => {
+    const [btc, eth] = await Promise.all([nextBooks('BTC/USD', 4), nextBooks('ETH/USD', 4)]);
+
+    // The recorded snapshot and its checksum
+    expect(btc[0].checksum).toBe(62622604);
+    expect(btc[0].bids[0]).toEqual({ price: 59999.5, qty: 1.17461518 });
+    expect(btc[0].asks[0]).toEqual({ price: 60000.5, qty: 1.04963733 });
+    expect(eth[3].bids.length).toBe(10);
+    expect(mismatches()).toEqual([]);
+  });
+
+  it('checks messages that arrived while the precision was being looked up', async () => {
+    vi.mocked(marketData.getAssetPairs).mockImplementation(async () => {
+      await wait(500);
+      return ASSET_PAIRS;
+    });
+
+    const [book] = await nextBooks('BTC/USD', 1);
+
+    expect(book.bids.length).toBe(10);
+    expect(mismatches()).toEqual([]);
+  });
+
+  it('takes the decimals from the options over the listing', async () => {
+    // One decimal too many for BTC/USD prices, so nothing the feed sends can match
+    const received: StreamOrderBook[] = [];
+    const unsubscribe = client.subscribeBook('BTC/USD', book => received.push(book), { pricePrecision: 2, qtyPrecision: 8 });
+    await wait(1000);
+    unsubscribe();
+
+    expect(received).toEqual([]);
+    expect(mismatches().length).toBeGreaterThan(0);
+    expect(marketData.getAssetPairs).not.toHaveBeenCalled();
+  });
+
+  it('publishes nothing, and does not resubscribe, for a pair missing from AssetPairs', async () => {
+    vi.mocked(marketData.getAssetPairs).mockResolvedValue([BTC_USD]);
+    const received: StreamOrderBook[] = [];
+    const unsubscribe = client.subscribeBook('ETH/USD', book => received.push(book));
+    await wait(1000);
+    unsubscribe();
+
+    expect(received).toEqual([]);
+    expect(logged.some(line => line.includes('Cannot verify the ETH/USD order book without its precision'))).toBe(true);
+    expect(mismatches()).toEqual([]);
+  });
+
+  it('rebuilds the book from a fresh snapshot after a corrupted update', async () => {
+    const books = nextBooks('BTC/USD', 3);
+    await wait(200);
+    await fetch(`${MOCK_URL}/__mock/corrupt`, { method: 'POST' });
+
+    const [, , recovered] = await books;
+    expect(mismatches()).toHaveLength(1);
+    expect(recovered.bids.length).toBe(10);
+  });
+});
@@ -0,0 +1,469 @@
+import { KRAKEN_WS_URL } from '@/lib/krakenApi';
+import { crc32 } from '@/lib/crc32';
+import { createLogger } from '@/lib/logger';
+import { OrderSide } from './exchangeAdapter';
+import { findAssetPair, marketData } from './marketData';
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface StreamTicker {
+  symbol: string;
+  bid: number;
+  bidQty: number;
+  ask: number;
+  askQty: number;
+  last: number;
+  volume: number;
+  vwap: number;
+  low: number;
+  high: number;
+  change: number;
+  changePct: number;
+}
+
+export interface StreamTrade {
+  symbol: string;
+  side: OrderSide;
+  price: number;
+  qty: number;
+  orderType: 'market' | 'limit';
+  tradeId: number;
+  timestamp: string;
+}
+
+export interface BookLevel {
+  price: number;
+  qty: number;
+}
+
+export interface StreamOrderBook {
+  symbol: string;
+  bids: BookLevel[]; // Best (highest) bid first
+  asks: BookLevel[]; // Best (lowest) ask first
+  checksum: number;
+}
+
+export interface BookOptions {
+  depth?: 10 | 25 | 100 | 500 | 1000;
+  pricePrecision?: number;
+  qtyPrecision?: number;
+}
+
+type Listener<T> = (value: T) => void;
+type Channel = 'ticker' | 'book' | 'trade';
+
+interface Subscription {
+  channel: Channel;
+  symbol: string;
+  params: Record<string, unknown>;
+  listeners: Set<Listener<never>>;
+}
+
+const CHECKSUM_LEVELS = 10;
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+// Kraken sends a heartbeat every second while subscribed
+const STALE_CONNECTION_TIMEOUT = 15000;
+
+const logError = createLogger('Kraken Stream');
+
+/**
+ * Local copy of one symbol's book, maintained from snapshot and update
+ * messages and verified against Kraken's CRC32 checksum after every change.
+ */
+class LocalOrderBook {
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private depth: number;
+  // Kraken checksums format prices and quantities at the pair's own decimals,
+  // which the v2 feed does not repeat in book messages; null until known
+  precision: [price: number, qty: number] | null;
+  // Set until a snapshot arrives; updates for a book being rebuilt are meaningless
+  awaitingSnapshot = true;
+  // Latest checksum Kraken sent while the precision was still being looked up
+  pendingChecksum: number | null = null;
+
+  constructor(depth: number, precision: [price: number, qty: number] | null) {
+    this.depth = depth;
+    this.precision = precision;
+  }
+
+  reset() {
+    this.bids.clear();
+    this.asks.clear();
+    this.awaitingSnapshot = true;
+    this.pendingChecksum = null;
+  }
+
+  apply(side: 'bids' | 'asks', levels: BookLevel[]) {
+    const book = side === 'bids' ? this.bids : this.asks;
+    levels.forEach(({ price, qty }) => {
+      if (qty === 0) book.delete(price);
+      else book.set(price, qty);
+    });
+
+    // Levels pushed out of the subscribed depth are not updated any more and must be dropped
+    const kept = this.sorted(side).slice(0, this.depth);
+    if (kept.length < book.size) {
+      book.clear();
+      kept.forEach(level => book.set(level.price, level.qty));
+    }
+  }
+
+  checksum(): number {
+    const format = (value: number, decimals: number) => value.toFixed(decimals).replace('.', '').replace(/^0+/, '');
+    const [pricePrecision, qtyPrecision] = this.precision;
+    const levels = [...this.sorted('asks').slice(0, CHECKSUM_LEVELS), ...this.sorted('bids').slice(0, CHECKSUM_LEVELS)];
+    return crc32(levels.map(level => format(level.price, pricePrecision) + format(level.qty, qtyPrecision)).join(''));
+  }
+
+  snapshot(symbol: string): StreamOrderBook {
+    return { symbol, bids: this.sorted('bids'), asks: this.sorted('asks'), checksum: this.checksum() };
+  }
+
+  private sorted(side: 'bids' | 'asks'): BookLevel[] {
+    const levels = [...(side === 'bids' ? this.bids : this.asks)].map(([price, qty]) => ({ price, qty }));
+    return levels.sort((a, b) => (side === 'bids' ? b.price - a.price : a.price - b.price));
+  }
+}
+
+/**
+ * Client for Kraken's public WebSocket v2 feed. Subscriptions are reference
+ * counted per channel and symbol; the socket opens on the first subscription,
+ * reconnects with backoff and resubscribes everything while any listener is
+ * left, and closes once the last one unsubscribes.
+ */
+export class KrakenStreamClient {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private status: StreamStatus = 'idle';
+  private subscriptions = new Map<string, Subscription>();
+  private books = new Map<string, LocalOrderBook>();
+  private latestBooks = new Map<string, StreamOrderBook>();
+  private latestTickers = new Map<string, StreamTicker>();
+  private statusListeners = new Set<Listener<StreamStatus>>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextReqId = 1;
+
+  constructor(url: string = KRAKEN_WS_URL) {
+    this.url = url;
+  }
+
+  subscribeTicker(symbol: string, listener: Listener<StreamTicker>): () => void {
+    const latest = this.latestTickers.get(symbol);
+    if (latest) listener(latest);
+    return this.addListener('ticker', symbol, {}, listener);
+  }
+
+  /**
+   * Books are published once they match Kraken's checksum, which needs the
+   * pair's price and lot decimals. Unless both are given in `options`, they
+   * are looked up in AssetPairs when the book is created.
+   */
+  subscribeBook(symbol: string, listener: Listener<StreamOrderBook>, options: BookOptions = {}): () => void {
+    const depth = options.depth ?? 10;
+    if (!this.books.has(symbol)) {
+      const { pricePrecision, qtyPrecision } = options;
+      const known = pricePrecision !== undefined && qtyPrecision !== undefined;
+      const book = new LocalOrderBook(depth, known ? [pricePrecision, qtyPrecision] : null);
+      this.books.set(symbol, book);
+      if (!known) this.loadPrecision(symbol, book, options);
+    }
+
+    const latest = this.latestBooks.get(symbol);
+    if (latest) listener(latest);
+    return this.addListener('book', symbol, { depth }, listener);
+  }
+
+  subscribeTrades(symbol: string, listener: Listener<StreamTrade>): () => void {
+    return this.addListener('trade', symbol, {}, listener);
+  }
+
+  onStatus(listener: Listener<StreamStatus>): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  /** Latest checksum-verified book, or null while none has been received. */
+  getBook(symbol: string): StreamOrderBook | null {
+    return this.latestBooks.get(symbol) || null;
+  }
+
+  getTicker(symbol: string): StreamTicker | null {
+    return this.latestTickers.get(symbol) || null;
+  }
+
+  close() {
+    this.subscriptions.clear();
+    this.disconnect();
+  }
+
+  private addListener<T>(channel: Channel, symbol: string, params: Record<string, unknown>, listener: Listener<T>): () => void {
+    const key = `${channel}:${symbol}`;
+    let subscription = this.subscriptions.get(key);
+    if (!subscription) {
+      subscription = { channel, symbol, params, listeners: new Set() };
+      this.subscriptions.set(key, subscription);
+      this.send('subscribe', subscription);
+    }
+    subscription.listeners.add(listener as Listener<never>);
+    this.connect();
+
+    return () => {
+      const current = this.subscriptions.get(key);
+      if (!current) return;
+      current.listeners.delete(listener as Listener<never>);
+      if (current.listeners.size > 0) return;
+
+      this.subscriptions.delete(key);
+      this.send('unsubscribe', current);
+      if (channel === 'book') {
+        this.books.delete(symbol);
+        this.latestBooks.delete(symbol);
+      }
+      if (this.subscriptions.size === 0) this.disconnect();
+    };
+  }
+
+  private connect() {
+    if (this.socket || this.reconnectTimer) return;
+
+    this.setStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempts = 0;
+      this.setStatus('open');
+      this.touch();
+      // Books are rebuilt from the fresh snapshot each subscription sends
+      this.books.forEach(book => book.reset());
+      this.subscriptions.forEach(subscription => this.send('subscribe', subscription));
+    };
+
+    socket.onmessage = event => {
+      // Messages still in flight on a socket we already let go of
+      if (this.socket !== socket) return;
+      this.touch();
+      try {
+        this.handleMessage(JSON.parse(String(event.data)));
+      } catch (error) {
+        logError('error', 'Failed to handle stream message', error instanceof Error ? error.message : String(event.data));
+      }
+    };
+
+    socket.onerror = () => {
+      logError('warning', 'Kraken stream connection error', this.url);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clearStaleTimer();
+      if (this.subscriptions.size === 0) {
+        this.setStatus('closed');
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearStaleTimer();
+    this.reconnectAttempts = 0;
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus('closed');
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts += 1;
+    this.setStatus('reconnecting');
+    logError('warning', `Kraken stream disconnected, reconnecting in ${delay / 1000}s`, `Attempt ${this.reconnectAttempts}`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // A connection that stops delivering heartbeats is dropped so the reconnect logic takes over
+  private touch() {
+    this.clearStaleTimer();
+    this.staleTimer = setTimeout(() => {
+      logError('warning', 'Kraken stream went silent, forcing reconnect');
+      this.socket?.close();
+    }, STALE_CONNECTION_TIMEOUT);
+  }
+
+  private clearStaleTimer() {
+    if (this.staleTimer) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+  }
+
+  private send(method: 'subscribe' | 'unsubscribe', subscription: Subscription) {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({
+      method,
+      params: { channel: subscription.channel, symbol: [subscription.symbol], ...subscription.params },
+      req_id: this.nextReqId++
+    }));
+  }
+
+  private setStatus(status: StreamStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private emit<T>(channel: Channel, symbol: string, value: T) {
+    const subscription = this.subscriptions.get(`${channel}:${symbol}`);
+    subscription?.listeners.forEach(listener => {
+      try {
+        (listener as Listener<T>)(value);
+      } catch (error) {
+        logError('error', `Stream listener failed for ${channel} ${symbol}`, error instanceof Error ? error.message : 'Unknown error');
+      }
+    });
+  }
+
+  private handleMessage(message: { method?: string; success?: boolean; error?: string; channel?: string; type?: string; data?: Record<string, unknown>[] }) {
+    if (message.method) {
+      if (message.success === false) {
+        logError('error', `Kraken stream ${message.method} failed`, message.error);
+      }
+      return;
+    }
+
+    switch (message.channel) {
+      case 'ticker':
+        message.data?.forEach(raw => this.handleTicker(raw));
+        break;
+      case 'book':
+        message.data?.forEach(raw => this.handleBook(message.type === 'snapshot', raw));
+        break;
+      case 'trade':
+        message.data?.forEach(raw => this.handleTrade(raw));
+        break;
+      default:
+        // heartbeat and status messages only keep the connection alive
+        break;
+    }
+  }
+
+  private handleTicker(raw: Record<string, unknown>) {
+    const ticker: StreamTicker = {
+      symbol: String(raw.symbol),
+      bid: Number(raw.bid),
+      bidQty: Number(raw.bid_qty),
+      ask: Number(raw.ask),
+      askQty: Number(raw.ask_qty),
+      last: Number(raw.last),
+      volume: Number(raw.volume),
+      vwap: Number(raw.vwap),
+      low: Number(raw.low),
+      high: Number(raw.high),
+      change: Number(raw.change),
+      changePct: Number(raw.change_pct)
+    };
+    this.latestTickers.set(ticker.symbol, ticker);
+    this.emit('ticker', ticker.symbol, ticker);
+  }
+
+  private handleBook(isSnapshot: boolean, raw: Record<string, unknown>) {
+    const symbol = String(raw.symbol);
+    const book = this.books.get(symbol);
+    if (!book) return;
+
+    if (isSnapshot) {
+      book.reset();
+      book.awaitingSnapshot = false;
+    } else if (book.awaitingSnapshot) {
+      return;
+    }
+    book.apply('bids', (raw.bids as BookLevel[]) || []);
+    book.apply('asks', (raw.asks as BookLevel[]) || []);
+
+    // Kept to check against once loadPrecision has the pair's decimals
+    if (!book.precision) {
+      book.pendingChecksum = Number(raw.checksum);
+      return;
+    }
+    this.publishBook(symbol, book, Number(raw.checksum));
+  }
+
+  private publishBook(symbol: string, book: LocalOrderBook, expected: number) {
+    const actual = book.checksum();
+    if (actual !== expected) {
+      logError('warning', `Order book checksum mismatch for ${symbol}, resubscribing`, `Expected ${expected}, got ${actual}`);
+      this.resubscribeBook(symbol);
+      return;
+    }
+
+    const snapshot = book.snapshot(symbol);
+    this.latestBooks.set(symbol, snapshot);
+    this.emit('book', symbol, snapshot);
+  }
+
+  // Without the pair's decimals every checksum would fail and the book would be resubscribed forever
+  private async loadPrecision(symbol: string, book: LocalOrderBook, options: BookOptions) {
+    try {
+      const pair = findAssetPair(await marketData.getAssetPairs(), symbol);
+      if (!pair) throw new Error(`${symbol} is not listed in AssetPairs`);
+      book.precision = [options.pricePrecision ?? pair.priceDecimals, options.qtyPrecision ?? pair.lotDecimals];
+    } catch (error) {
+      logError('error', `Cannot verify the ${symbol} order book without its precision`, error instanceof Error ? error.message : 'Unknown error');
+      return;
+    }
+
+    // The subscription may have ended, or been replaced, while the lookup ran
+    if (this.books.get(symbol) !== book || book.pendingChecksum === null) return;
+    const expected = book.pendingChecksum;
+    book.pendingChecksum = null;
+    this.publishBook(symbol, book, expected);
+  }
+
+  private handleTrade(raw: Record<string, unknown>) {
+    const trade: StreamTrade = {
+      symbol: String(raw.symbol),
+      side: raw.side === 'sell' ? 'sell' : 'buy',
+      price: Number(raw.price),
+      qty: Number(raw.qty),
+      orderType: raw.ord_type === 'limit' ? 'limit' : 'market',
+      tradeId: Number(raw.trade_id),
+      timestamp: String(raw.timestamp)
+    };
+    this.emit('trade', trade.symbol, trade);
+  }
+
+  // A fresh subscription makes Kraken send a new snapshot to rebuild from
+  private resubscribeBook(symbol: string) {
+    const subscription = this.subscriptions.get(`book:${symbol}`);
+    if (!subscription) return;
+
+    this.books.get(symbol)?.reset();
+    this.latestBooks.delete(symbol);
+    this.send('unsubscribe', subscription);
+    this.send('subscribe', subscription);
+  }
+}
+
+export const krakenStream = new KrakenStreamClient();
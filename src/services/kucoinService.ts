@@ -0,0 +1,352 @@
+import { hmacSha256Base64 } from '@/lib/crypto';
+import { createLogger } from '@/lib/logger';
+import { TradeValidator } from './tradeValidator';
+import {
+  ExchangeAdapter,
+  ExchangeBalance,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeOrderResult,
+  ExchangeTicker
+} from './exchangeAdapter';
+
+export interface KucoinSymbolInfo {
+  symbol: string;
+  baseMinSize: number;
+  baseMaxSize: number;
+  baseIncrement: number;
+  priceIncrement: number;
+  minFunds: number;
+  enableTrading: boolean;
+}
+
+interface KucoinOrderPayload {
+  id: string;
+  symbol: string;
+  type: string;
+  side: 'buy' | 'sell';
+  price: string;
+  size: string;
+  dealSize: string;
+  dealFunds: string;
+  isActive: boolean;
+  cancelExist: boolean;
+  createdAt: number;
+}
+
+interface KucoinEnvelope<T> {
+  code: string;
+  msg?: string;
+  data?: T;
+}
+
+const KUCOIN_API_URL = import.meta.env.VITE_KUCOIN_API_URL || 'https://api.kucoin.com';
+
+const logError = createLogger('KuCoin Service');
+
+const floorToIncrement = (value: number, increment: number): number => {
+  if (!increment) return value;
+  const decimals = Math.max(0, Math.round(-Math.log10(increment)));
+  return parseFloat((Math.floor(value / increment + 1e-9) * increment).toFixed(decimals));
+};
+
+export class KucoinService implements ExchangeAdapter {
+  readonly exchange = 'kucoin' as const;
+  readonly displayName = 'KuCoin';
+  private apiKey: string;
+  private apiSecret: string;
+  private apiPassphrase: string;
+  private baseUrl: string;
+  private cachedBalances: ExchangeBalance = {};
+  private lastBalanceUpdate: number = 0;
+  private balanceUpdateInterval: number = 30000;
+  private symbolInfo: { [symbol: string]: KucoinSymbolInfo } = {};
+
+  constructor(apiKey: string, apiSecret: string, apiPassphrase: string, baseUrl: string = KUCOIN_API_URL) {
+    this.apiKey = apiKey;
+    this.apiSecret = apiSecret;
+    this.apiPassphrase = apiPassphrase;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async getAccountBalance(): Promise<ExchangeBalance> {
+    const now = Date.now();
+    if (now - this.lastBalanceUpdate < this.balanceUpdateInterval && Object.keys(this.cachedBalances).length > 0) {
+      return this.cachedBalances;
+    }
+
+    try {
+      logError('info', 'Fetching KuCoin account balance...');
+      const accounts = await this.signedRequest<{ currency: string; type: string; available: string }[]>('GET', '/api/v1/accounts?type=trade');
+
+      const balances: ExchangeBalance = {};
+      accounts.forEach(({ currency, available }) => {
+        if (parseFloat(available) > 0) {
+          balances[currency] = available;
+        }
+      });
+
+      this.cachedBalances = balances;
+      this.lastBalanceUpdate = now;
+      logError('info', 'KuCoin balance updated', `${Object.keys(balances).length} assets with balance`);
+
+      return this.cachedBalances;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch balance';
+      logError('error', 'Balance fetch failed', errorMessage);
+      throw error;
+    }
+  }
+
+  async getSymbolInfo(symbol: string): Promise<KucoinSymbolInfo> {
+    if (!this.symbolInfo[symbol]) {
+      const info = await this.publicRequest<{ symbol: string; baseMinSize: string; baseMaxSize: string; baseIncrement: string; priceIncrement: string; minFunds: string; enableTrading: boolean }>(
+        `/api/v2/symbols/${symbol}`
+      );
+      this.symbolInfo[symbol] = {
+        symbol: info.symbol,
+        baseMinSize: parseFloat(info.baseMinSize),
+        baseMaxSize: parseFloat(info.baseMaxSize),
+        baseIncrement: parseFloat(info.baseIncrement),
+        priceIncrement: parseFloat(info.priceIncrement),
+        minFunds: parseFloat(info.minFunds || '0'),
+        enableTrading: info.enableTrading
+      };
+    }
+    return this.symbolInfo[symbol];
+  }
+
+  async submitOrder(request: ExchangeOrderRequest): Promise<ExchangeOrderResult> {
+    const symbol = this.toKucoinSymbol(request.pair);
+
+    if (request.type !== 'market' && request.type !== 'limit') {
+      return { success: false, orderIds: [], error: `${request.type} orders are not supported on KuCoin spot` };
+    }
+    if ((request.leverage && request.leverage > 1) || request.reduceOnly) {
+      return { success: false, orderIds: [], error: 'Leveraged orders are not supported on KuCoin spot' };
+    }
+    if (request.timeInForce === 'GTD') {
+      return { success: false, orderIds: [], error: 'Good-til-date orders are not supported on KuCoin spot' };
+    }
+
+    try {
+      const info = await this.getSymbolInfo(symbol);
+      if (!info.enableTrading) {
+        return { success: false, orderIds: [], error: `${symbol} is not currently trading` };
+      }
+
+      const size = floorToIncrement(request.volume, info.baseIncrement);
+      const adjustedVolume = size !== request.volume ? size : undefined;
+      if (size < info.baseMinSize) {
+        return { success: false, orderIds: [], error: `Order size ${request.volume} is below minimum ${info.baseMinSize} for ${request.pair}` };
+      }
+
+      const body: Record<string, string | boolean> = {
+        clientOid: crypto.randomUUID(),
+        side: request.side,
+        symbol,
+        type: request.type,
+        size: size.toString()
+      };
+
+      if (request.type === 'limit') {
+        if (request.price === undefined) {
+          return { success: false, orderIds: [], error: 'Limit orders require a price' };
+        }
+        body.price = floorToIncrement(request.price, info.priceIncrement).toString();
+        body.timeInForce = request.timeInForce || 'GTC';
+        if (request.postOnly) {
+          body.postOnly = true;
+        }
+      }
+
+      logError('info', 'Sending order to KuCoin API', JSON.stringify(body));
+      const result = await this.signedRequest<{ orderId: string }>('POST', '/api/v1/orders', body);
+
+      this.lastBalanceUpdate = 0; // Invalidate balance cache
+      logError('info', 'Order placed successfully', `Order ID: ${result.orderId}`);
+
+      return {
+        success: true,
+        orderIds: [result.orderId],
+        description: `${request.side} ${size} ${symbol} @ ${request.type}`,
+        adjustedVolume
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Order placement failed';
+      logError('error', 'Order placement error', errorMessage);
+      return { success: false, orderIds: [], error: errorMessage };
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    logError('info', 'Cancelling KuCoin order', orderId);
+    const result = await this.signedRequest<{ cancelledOrderIds: string[] }>('DELETE', `/api/v1/orders/${orderId}`);
+    this.lastBalanceUpdate = 0;
+    return result.cancelledOrderIds.includes(orderId);
+  }
+
+  async cancelAllOrders(): Promise<number> {
+    const result = await this.signedRequest<{ cancelledOrderIds: string[] }>('DELETE', '/api/v1/orders?tradeType=TRADE');
+    this.lastBalanceUpdate = 0;
+    logError('info', 'KuCoin orders cancelled', `Count: ${result.cancelledOrderIds.length}`);
+    return result.cancelledOrderIds.length;
+  }
+
+  async getOrder(orderId: string): Promise<ExchangeOrder | null> {
+    try {
+      const order = await this.signedRequest<KucoinOrderPayload>('GET', `/api/v1/orders/${orderId}`);
+      return this.toExchangeOrder(order);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Order does not exist')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getOpenOrders(): Promise<ExchangeOrder[]> {
+    const page = await this.signedRequest<{ items: KucoinOrderPayload[] }>('GET', '/api/v1/orders?status=active');
+    return page.items.map(order => this.toExchangeOrder(order));
+  }
+
+  async getTicker(pair: string): Promise<ExchangeTicker> {
+    const symbol = this.toKucoinSymbol(pair);
+    const stats = await this.publicRequest<{ buy: string; sell: string; last: string; vol: string; changeRate: string }>(
+      `/api/v1/market/stats?symbol=${symbol}`
+    );
+
+    return {
+      pair,
+      bid: parseFloat(stats.buy),
+      ask: parseFloat(stats.sell),
+      last: parseFloat(stats.last),
+      volume24h: parseFloat(stats.vol),
+      change24h: parseFloat(stats.changeRate) * 100
+    };
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      logError('info', 'Testing KuCoin connection...');
+      this.lastBalanceUpdate = 0;
+      await this.getAccountBalance();
+      logError('info', 'KuCoin connection test successful');
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Connection test failed';
+      logError('error', 'KuCoin connection test failed', errorMessage);
+      return false;
+    }
+  }
+
+  getTradeValidator(): TradeValidator | null {
+    if (Object.keys(this.cachedBalances).length === 0) {
+      return null;
+    }
+    return new TradeValidator(this.cachedBalances);
+  }
+
+  toKucoinSymbol(pair: string): string {
+    return pair.replace('/', '-').toUpperCase();
+  }
+
+  private toExchangeOrder(order: KucoinOrderPayload): ExchangeOrder {
+    const filledVolume = parseFloat(order.dealSize);
+    const status = order.isActive ? 'open' : order.cancelExist ? 'canceled' : 'closed';
+
+    return {
+      id: order.id,
+      pair: order.symbol,
+      side: order.side,
+      type: order.type,
+      status,
+      volume: parseFloat(order.size),
+      filledVolume,
+      price: parseFloat(order.price) || undefined,
+      averagePrice: filledVolume > 0 ? parseFloat(order.dealFunds) / filledVolume : undefined,
+      openedAt: new Date(order.createdAt)
+    };
+  }
+
+  private async publicRequest<T>(endpoint: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`);
+    return this.handleResponse<T>(response, endpoint);
+  }
+
+  // API key version 2: the passphrase is itself HMAC-signed with the secret
+  private async signedRequest<T>(method: 'GET' | 'POST' | 'DELETE', endpoint: string, body?: Record<string, string | boolean>): Promise<T> {
+    const timestamp = Date.now().toString();
+    const payload = body ? JSON.stringify(body) : '';
+    const signature = await hmacSha256Base64(this.apiSecret, `${timestamp}${method}${endpoint}${payload}`);
+    const passphrase = await hmacSha256Base64(this.apiSecret, this.apiPassphrase);
+
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers: {
+        'KC-API-KEY': this.apiKey,
+        'KC-API-SIGN': signature,
+        'KC-API-TIMESTAMP': timestamp,
+        'KC-API-PASSPHRASE': passphrase,
+        'KC-API-KEY-VERSION': '2',
+        'Content-Type': 'application/json'
+      },
+      body: payload || undefined
+    });
+    return this.handleResponse<T>(response, endpoint);
+  }
+
+  private async handleResponse<T>(response: Response, endpoint: string): Promise<T> {
+    let envelope: KucoinEnvelope<T>;
+    try {
+      envelope = await response.json();
+    } catch (error) {
+      logError('error', `KuCoin returned a non-JSON response for ${endpoint}`, `HTTP ${response.status}`);
+      throw new Error(`KuCoin request failed with HTTP ${response.status}`);
+    }
+
+    if (envelope.code !== '200000') {
+      logError('error', `KuCoin API returned error for ${endpoint}`, JSON.stringify(envelope));
+      throw new Error(this.mapKucoinError(envelope));
+    }
+
+    return envelope.data as T;
+  }
+
+  private mapKucoinError(envelope: KucoinEnvelope<unknown>): string {
+    switch (envelope.code) {
+      case '400003':
+        return 'Invalid API key - check your credentials';
+      case '400004':
+        return 'Invalid API passphrase - check your passphrase';
+      case '400005':
+        return 'Invalid API signature - check your secret key';
+      case '400002':
+        return 'Invalid timestamp - time synchronization issue';
+      case '400006':
+        return 'Request IP is not on the API key whitelist';
+      case '400007':
+        return 'API key lacks required permissions';
+      case '200004':
+        return 'Insufficient funds for this trade';
+      case '400100':
+        return `Invalid order parameters: ${envelope.msg || 'parameter error'}`;
+      case '900001':
+        return 'Invalid trading pair';
+      case '400400':
+      case '404000':
+        return 'Order does not exist';
+      case '429000':
+        return 'Rate limit exceeded - too many requests';
+      default:
+        return `KuCoin Error: ${envelope.msg || envelope.code}`;
+    }
+  }
+}
+
+export const createKucoinService = (apiKey: string, apiSecret: string, apiPassphrase: string) => {
+  if (!apiKey || !apiSecret || !apiPassphrase) {
+    throw new Error('API key, secret and passphrase are required');
+  }
+  return new KucoinService(apiKey, apiSecret, apiPassphrase);
+};
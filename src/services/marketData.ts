@@ -0,0 +1,265 @@
+import { toDisplayPair, toKrakenPair } from '@/lib/assets';
+import { KRAKEN_PUBLIC_URL } from '@/lib/krakenApi';
+import { createLogger } from '@/lib/logger';
+import { ExchangeTicker } from './exchangeAdapter';
+import { KrakenInvalidOrderError, KrakenTransportError, parseKrakenError } from './krakenErrors';
+
+export type OhlcInterval = 1 | 5 | 15 | 30 | 60 | 240 | 1440 | 10080 | 21600; // Minutes
+
+export interface Candle {
+  time: number; // Unix seconds at the start of the interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  vwap: number;
+  volume: number;
+  count: number;
+}
+
+export interface OrderBookLevel {
+  price: number;
+  volume: number;
+  timestamp: number;
+}
+
+export interface OrderBook {
+  pair: string;
+  bids: OrderBookLevel[]; // Best (highest) bid first
+  asks: OrderBookLevel[]; // Best (lowest) ask first
+}
+
+export interface PublicTrade {
+  price: number;
+  volume: number;
+  time: number;
+  side: 'buy' | 'sell';
+  orderType: 'market' | 'limit';
+}
+
+export type AssetPairStatus = 'online' | 'cancel_only' | 'post_only' | 'limit_only' | 'reduce_only';
+
+export interface AssetPair {
+  name: string; // Kraken's canonical pair name, e.g. XXBTZUSD
+  symbol: string; // Dashboard form, e.g. BTC/USD
+  altname: string;
+  wsname: string;
+  base: string; // Balance code, e.g. XXBT
+  quote: string;
+  orderMin: number; // In base currency
+  costMin: number; // In quote currency
+  lotDecimals: number;
+  priceDecimals: number;
+  tickSize: number;
+  status: AssetPairStatus;
+}
+
+const CACHE_TTL = {
+  ticker: 5000,
+  ohlc: 30000,
+  depth: 2000,
+  trades: 5000,
+  assetPairs: 3600000
+};
+
+interface KrakenAssetPairInfo {
+  altname: string;
+  wsname?: string;
+  base: string;
+  quote: string;
+  ordermin?: string;
+  costmin?: string;
+  lot_decimals: number;
+  pair_decimals: number;
+  tick_size?: string;
+  status?: AssetPairStatus;
+}
+
+const logError = createLogger('Market Data');
+
+/**
+ * Typed, cached access to Kraken's public REST endpoints. Responses are
+ * cached per request for a short TTL and concurrent callers share the same
+ * in-flight request, so components can call freely without fanning out.
+ */
+export class MarketDataService {
+  private cache = new Map<string, { expires: number; value: Promise<unknown> }>();
+
+  async getTicker(pair: string): Promise<ExchangeTicker> {
+    return this.cached(`ticker:${pair}`, CACHE_TTL.ticker, async () => {
+      const ticker = await this.fetchPublic<{ a: string[]; b: string[]; c: string[]; v: string[]; o: string }>('Ticker', { pair: this.toKrakenPair(pair) });
+      const last = parseFloat(ticker.c[0]);
+      const open = parseFloat(ticker.o);
+      return {
+        pair,
+        bid: parseFloat(ticker.b[0]),
+        ask: parseFloat(ticker.a[0]),
+        last,
+        volume24h: parseFloat(ticker.v[1]),
+        change24h: open > 0 ? ((last - open) / open) * 100 : 0
+      };
+    });
+  }
+
+  async getTickers(pairs: string[]): Promise<ExchangeTicker[]> {
+    return Promise.all(pairs.map(pair => this.getTicker(pair)));
+  }
+
+  async getOhlc(pair: string, interval: OhlcInterval = 1, since?: number): Promise<Candle[]> {
+    return this.cached(`ohlc:${pair}:${interval}:${since ?? ''}`, CACHE_TTL.ohlc, async () => {
+      const rows = await this.fetchPublic<(string | number)[][]>('OHLC', { pair: this.toKrakenPair(pair), interval, since });
+      return rows.map(([time, open, high, low, close, vwap, volume, count]) => ({
+        time: Number(time),
+        open: parseFloat(String(open)),
+        high: parseFloat(String(high)),
+        low: parseFloat(String(low)),
+        close: parseFloat(String(close)),
+        vwap: parseFloat(String(vwap)),
+        volume: parseFloat(String(volume)),
+        count: Number(count)
+      }));
+    });
+  }
+
+  async getOrderBook(pair: string, depth = 25): Promise<OrderBook> {
+    return this.cached(`depth:${pair}:${depth}`, CACHE_TTL.depth, async () => {
+      const book = await this.fetchPublic<{ bids: (string | number)[][]; asks: (string | number)[][] }>('Depth', { pair: this.toKrakenPair(pair), count: depth });
+      const toLevel = ([price, volume, timestamp]: (string | number)[]): OrderBookLevel => ({
+        price: parseFloat(String(price)),
+        volume: parseFloat(String(volume)),
+        timestamp: Number(timestamp)
+      });
+      return { pair, bids: book.bids.map(toLevel), asks: book.asks.map(toLevel) };
+    });
+  }
+
+  async getRecentTrades(pair: string, since?: string): Promise<PublicTrade[]> {
+    return this.cached(`trades:${pair}:${since ?? ''}`, CACHE_TTL.trades, async () => {
+      const rows = await this.fetchPublic<(string | number)[][]>('Trades', { pair: this.toKrakenPair(pair), since });
+      return rows.map(([price, volume, time, side, orderType]): PublicTrade => ({
+        price: parseFloat(String(price)),
+        volume: parseFloat(String(volume)),
+        time: Number(time),
+        side: side === 'b' ? 'buy' : 'sell',
+        orderType: orderType === 'l' ? 'limit' : 'market'
+      }));
+    });
+  }
+
+  /**
+   * Every pair listed on Kraken with its trading constraints. The listing
+   * rarely changes, so it is cached for an hour.
+   */
+  async getAssetPairs(): Promise<AssetPair[]> {
+    return this.cached('assetPairs', CACHE_TTL.assetPairs, async () => {
+      const result = await this.fetchResult<{ [name: string]: KrakenAssetPairInfo }>('AssetPairs', {});
+      return Object.entries(result)
+        // Dark pool pairs (.d) share the listing but cannot be traded on the book
+        .filter(([name]) => !name.endsWith('.d'))
+        .map(([name, info]): AssetPair => {
+          const wsname = info.wsname || info.altname;
+          return {
+            name,
+            symbol: toDisplayPair(wsname),
+            altname: info.altname,
+            wsname,
+            base: info.base,
+            quote: info.quote,
+            orderMin: parseFloat(info.ordermin || '0'),
+            costMin: parseFloat(info.costmin || '0'),
+            lotDecimals: info.lot_decimals,
+            priceDecimals: info.pair_decimals,
+            tickSize: parseFloat(info.tick_size || '0') || 10 ** -info.pair_decimals,
+            status: info.status || 'online'
+          };
+        })
+        .sort((a, b) => a.symbol.localeCompare(b.symbol));
+    });
+  }
+
+  async getAssetPair(pair: string): Promise<AssetPair> {
+    const info = findAssetPair(await this.getAssetPairs(), pair);
+    if (!info) {
+      throw new Error(`Unknown trading pair: ${pair}`);
+    }
+    return info;
+  }
+
+  clearCache() {
+    this.cache.clear();
+  }
+
+  toKrakenPair(pair: string): string {
+    return toKrakenPair(pair);
+  }
+
+  private cached<T>(key: string, ttl: number, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const entry = this.cache.get(key);
+    if (entry && entry.expires > now) {
+      return entry.value as Promise<T>;
+    }
+
+    const value = load();
+    this.cache.set(key, { expires: now + ttl, value });
+    // Failed lookups should be retried on the next call, not served from cache
+    value.catch(() => this.cache.delete(key));
+    return value;
+  }
+
+  private async fetchPublic<T>(endpoint: string, params: Record<string, string | number | undefined>): Promise<T> {
+    // Results are keyed by Kraken's canonical pair name, next to a `last` cursor
+    const result = await this.fetchResult<Record<string, unknown>>(endpoint, params);
+    const entry = Object.entries(result).find(([key]) => key !== 'last');
+    if (!entry) {
+      throw new Error(`No ${endpoint} data received for ${params.pair}`);
+    }
+    return entry[1] as T;
+  }
+
+  private async fetchResult<T>(endpoint: string, params: Record<string, string | number | undefined>): Promise<T> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) query.set(key, String(value));
+    });
+
+    const response = await fetch(`${KRAKEN_PUBLIC_URL}/0/public/${endpoint}?${query}`);
+    if (!response.ok) {
+      throw new KrakenTransportError(`Kraken ${endpoint} request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data?.error && data.error.length > 0) {
+      const krakenError = parseKrakenError(data.error[0]);
+      logError('error', `Kraken ${endpoint} returned error`, krakenError.code);
+      if (krakenError.code?.startsWith('EQuery:Unknown asset pair')) {
+        throw new KrakenInvalidOrderError(`Unknown trading pair: ${params.pair}`, { code: krakenError.code });
+      }
+      throw krakenError;
+    }
+
+    if (!data?.result) {
+      throw new Error(`No ${endpoint} data received`);
+    }
+    return data.result as T;
+  }
+}
+
+// Accepts any of the names a pair goes by: BTC/USD, XBT/USD, XBTUSD or XXBTZUSD
+export const findAssetPair = (pairs: AssetPair[], pair: string): AssetPair | undefined => {
+  const wanted = toKrakenPair(pair);
+  return pairs.find(info => info.altname === wanted || info.name === wanted);
+};
+
+// Kraken rejects volumes with more decimals than the pair's lot precision; round
+// down so the order never exceeds what was asked for
+export const floorToLot = (volume: number, pair: AssetPair): number => {
+  const factor = 10 ** pair.lotDecimals;
+  // Trim float noise first, so 0.29 does not become 0.28999999
+  return Math.floor(parseFloat((volume * factor).toFixed(4))) / factor;
+};
+
+export const roundToTick = (price: number, pair: AssetPair): number =>
+  parseFloat((Math.round(price / pair.tickSize) * pair.tickSize).toFixed(pair.priceDecimals));
+
+export const marketData = new MarketDataService();
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { PnlFill, realisedPnl } from './pnl';
+
+const fill = (id: string, side: PnlFill['side'], volume: number, price: number, pair = 'BTC/USD'): PnlFill => ({ id, pair, side, volume, price });
+
+describe('realisedPnl', () => {
+  it('realises a sell against the average cost of the buys before it', () => {
+    const realised = realisedPnl([
+      fill('b1', 'buy', 1, 100),
+      fill('b2', 'buy', 1, 200),
+      fill('s1', 'sell', 1, 180)
+    ]);
+
+    expect([...realised]).toEqual([['s1', 30]]);
+  });
+
+  it('keeps the remaining position at its average cost', () => {
+    const realised = realisedPnl([
+      fill('b1', 'buy', 2, 100),
+      fill('s1', 'sell', 1, 90),
+      fill('b2', 'buy', 1, 130),
+      fill('s2', 'sell', 2, 120)
+    ]);
+
+    expect(realised.get('s1')).toBeCloseTo(-10);
+    expect(realised.get('s2')).toBeCloseTo(2 * (120 - 115));
+  });
+
+  it('only realises the volume that was bought first', () => {
+    const realised = realisedPnl([
+      fill('s0', 'sell', 1, 100),
+      fill('b1', 'buy', 1, 100),
+      fill('s1', 'sell', 3, 110)
+    ]);
+
+    expect(realised.has('s0')).toBe(false);
+    expect(realised.get('s1')).toBeCloseTo(10);
+  });
+
+  it('tracks each pair separately', () => {
+    const realised = realisedPnl([
+      fill('b1', 'buy', 1, 60000),
+      fill('b2', 'buy', 1, 3000, 'ETH/USD'),
+      fill('s1', 'sell', 1, 3100, 'ETH/USD')
+    ]);
+
+    expect([...realised]).toEqual([['s1', 100]]);
+  });
+});
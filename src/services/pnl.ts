@@ -0,0 +1,36 @@
+import { OrderSide } from './exchangeAdapter';
+
+export interface PnlFill {
+  id: string;
+  pair: string;
+  side: OrderSide;
+  volume: number;
+  price: number; // Average fill price, in the quote currency
+}
+
+/**
+ * Profit each sell realised against the average cost of what was bought
+ * before it on the same pair, in the quote currency and before fees. Fills
+ * must be oldest first. Volume sold beyond what the fills bought has no known
+ * cost, so it realises nothing; sells that realise nothing are left out.
+ */
+export const realisedPnl = (fills: PnlFill[]): Map<string, number> => {
+  const positions = new Map<string, { volume: number; cost: number }>();
+  const realised = new Map<string, number>();
+
+  fills.forEach(fill => {
+    const position = positions.get(fill.pair) || { volume: 0, cost: 0 };
+    if (fill.side === 'buy') {
+      positions.set(fill.pair, { volume: position.volume + fill.volume, cost: position.cost + fill.volume * fill.price });
+      return;
+    }
+
+    const matched = Math.min(fill.volume, position.volume);
+    if (!(matched > 0)) return;
+    const averageCost = position.cost / position.volume;
+    realised.set(fill.id, matched * (fill.price - averageCost));
+    positions.set(fill.pair, { volume: position.volume - matched, cost: position.cost - matched * averageCost });
+  });
+
+  return realised;
+};
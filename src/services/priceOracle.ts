@@ -0,0 +1,249 @@
+import { parseAsset, toTicker } from '@/lib/assets';
+import { createLogger } from '@/lib/logger';
+import { marketData } from './marketData';
+
+export type PriceSourceId = 'kraken' | 'coingecko';
+export type PricePolicy = 'median' | 'priority';
+
+export interface SourceQuote {
+  source: PriceSourceId;
+  usd: number;
+  time: number; // Milliseconds; when the source last priced the asset, not when we fetched it
+}
+
+export interface PriceQuote {
+  ticker: string;
+  usd: number;
+  time: number; // Oldest of the quotes the price was built from
+  source: PriceSourceId | 'median' | 'fixed';
+  quotes: SourceQuote[];
+}
+
+export interface PriceOracleOptions {
+  policy?: PricePolicy;
+  priority?: PriceSourceId[];
+  maxAge?: number; // Quotes older than this are not used
+  refreshInterval?: number;
+  maxDeviation?: number; // Fraction sources may disagree by before the median is distrusted
+}
+
+type PriceSource = (tickers: string[]) => Promise<SourceQuote[][]>;
+
+const COINGECKO_API_URL = (import.meta.env.VITE_COINGECKO_API_URL || 'https://api.coingecko.com').replace(/\/$/, '');
+
+// Assets always priced, on top of whatever balances callers ask about
+const TRACKED_ASSETS = ['BTC', 'ETH', 'XRP', 'LTC', 'ADA', 'DOT'];
+// Priced by definition rather than by any source
+const FIXED_PRICES: { [ticker: string]: number } = { USD: 1 };
+
+const DEFAULT_OPTIONS: Required<PriceOracleOptions> = {
+  policy: 'median',
+  priority: ['kraken', 'coingecko'],
+  maxAge: 120000,
+  refreshInterval: 30000,
+  maxDeviation: 0.02
+};
+
+const logError = createLogger('Price Oracle');
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Kraken's ticker carries no timestamp, so a successful fetch counts as now
+const krakenSource: PriceSource = async tickers => {
+  const results = await Promise.allSettled(tickers.map(ticker => marketData.getTicker(`${ticker}/USD`)));
+  const now = Date.now();
+  return results.map(result =>
+    result.status === 'fulfilled' && result.value.last > 0 ? [{ source: 'kraken', usd: result.value.last, time: now }] : []
+  );
+};
+
+const coingeckoSource: PriceSource = async tickers => {
+  const ids = tickers.map(ticker => parseAsset(ticker).asset.coingeckoId);
+  const known = ids.filter((id): id is string => !!id);
+  if (known.length === 0) return tickers.map(() => []);
+
+  const response = await fetch(`${COINGECKO_API_URL}/api/v3/simple/price?ids=${known.join(',')}&vs_currencies=usd&include_last_updated_at=true`);
+  if (!response.ok) {
+    throw new Error(`CoinGecko request failed with status ${response.status}`);
+  }
+
+  const data: { [id: string]: { usd?: number; last_updated_at?: number } } = await response.json();
+  return ids.map(id => {
+    const entry = id ? data[id] : undefined;
+    if (!entry?.usd || !entry.last_updated_at) return [];
+    return [{ source: 'coingecko', usd: entry.usd, time: entry.last_updated_at * 1000 }];
+  });
+};
+
+const SOURCES: Record<PriceSourceId, PriceSource> = {
+  kraken: krakenSource,
+  coingecko: coingeckoSource
+};
+
+/**
+ * Point-in-time view of the oracle's prices. Freshness is judged when a price
+ * is read, so a snapshot held onto for too long stops answering rather than
+ * serving old prices.
+ */
+export class PriceSnapshot {
+  private quotes: Map<string, PriceQuote>;
+  private maxAge: number;
+
+  constructor(quotes: Map<string, PriceQuote>, maxAge: number) {
+    this.quotes = quotes;
+    this.maxAge = maxAge;
+  }
+
+  /** Latest quote for an asset in any code (XXBT, BTC, DOT.S), fresh or not. */
+  getQuote(code: string): PriceQuote | undefined {
+    const ticker = toTicker(code);
+    if (FIXED_PRICES[ticker] !== undefined) {
+      return { ticker, usd: FIXED_PRICES[ticker], time: Date.now(), source: 'fixed', quotes: [] };
+    }
+    return this.quotes.get(ticker);
+  }
+
+  /** USD price, or undefined when the asset has no price younger than maxAge. */
+  getPrice(code: string): number | undefined {
+    const quote = this.getQuote(code);
+    return quote && Date.now() - quote.time <= this.maxAge ? quote.usd : undefined;
+  }
+
+  isStale(code: string): boolean {
+    return this.getPrice(code) === undefined;
+  }
+
+  /**
+   * Total USD value of a balance map. Assets without a fresh price are left
+   * out of the total and listed in `unpriced` instead of being guessed at.
+   */
+  valueBalances(balances: { [code: string]: string }): { total: number; unpriced: string[] } {
+    let total = 0;
+    const unpriced: string[] = [];
+    Object.entries(balances).forEach(([code, balance]) => {
+      const amount = parseFloat(balance);
+      if (!(amount > 0)) return;
+      const price = this.getPrice(code);
+      if (price === undefined) {
+        unpriced.push(code);
+      } else {
+        total += amount * price;
+      }
+    });
+    return { total, unpriced };
+  }
+}
+
+/**
+ * USD prices combined from several sources. Each source's quote is kept with
+ * the time the source reported it; a price is built from the fresh quotes only,
+ * either as their median or from the first source in priority order. When no
+ * source has a fresh quote the asset is unpriced rather than given a fallback.
+ */
+export class PriceOracle {
+  private options: Required<PriceOracleOptions>;
+  private sourceQuotes = new Map<string, Map<PriceSourceId, SourceQuote>>();
+  private tracked = new Set(TRACKED_ASSETS);
+  private lastRefresh = 0;
+  private inFlight: Promise<PriceSnapshot> | null = null;
+
+  constructor(options: PriceOracleOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Prices for the tracked assets plus any of `codes`, refreshed when older
+   * than the refresh interval or when a requested asset has not been priced yet.
+   */
+  async getPrices(codes: string[] = []): Promise<PriceSnapshot> {
+    const tickers = codes.map(toTicker).filter(ticker => FIXED_PRICES[ticker] === undefined);
+    const untracked = tickers.filter(ticker => !this.tracked.has(ticker));
+    untracked.forEach(ticker => this.tracked.add(ticker));
+
+    if (untracked.length > 0 || Date.now() - this.lastRefresh > this.options.refreshInterval) {
+      return this.refresh();
+    }
+    return this.getSnapshot();
+  }
+
+  /** Whatever has been fetched so far, without waiting on the network. */
+  getSnapshot(): PriceSnapshot {
+    const combined = new Map<string, PriceQuote>();
+    this.sourceQuotes.forEach((quotes, ticker) => {
+      const quote = this.combine(ticker, [...quotes.values()]);
+      if (quote) combined.set(ticker, quote);
+    });
+    return new PriceSnapshot(combined, this.options.maxAge);
+  }
+
+  refresh(): Promise<PriceSnapshot> {
+    if (!this.inFlight) {
+      this.inFlight = this.fetchAll().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async fetchAll(): Promise<PriceSnapshot> {
+    const tickers = [...this.tracked];
+    const sourceIds = Object.keys(SOURCES) as PriceSourceId[];
+    const results = await Promise.allSettled(sourceIds.map(id => SOURCES[id](tickers)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logError('warning', `Price source ${sourceIds[index]} failed`, result.reason instanceof Error ? result.reason.message : String(result.reason));
+        return;
+      }
+      result.value.forEach((quotes, tickerIndex) => {
+        const ticker = tickers[tickerIndex];
+        const existing = this.sourceQuotes.get(ticker) || new Map<PriceSourceId, SourceQuote>();
+        quotes.forEach(quote => existing.set(quote.source, quote));
+        this.sourceQuotes.set(ticker, existing);
+      });
+    });
+
+    this.lastRefresh = Date.now();
+    const snapshot = this.getSnapshot();
+    if (this.options.policy === 'median') {
+      tickers.forEach(ticker => {
+        const quote = snapshot.getQuote(ticker);
+        if (quote && quote.source !== 'median' && quote.quotes.length > 1) {
+          logError('warning', `Price sources disagree on ${ticker}, using ${quote.source}`, quote.quotes.map(({ source, usd }) => `${source}: ${usd}`).join(', '));
+        }
+      });
+    }
+    const unpriced = tickers.filter(ticker => snapshot.isStale(ticker));
+    if (unpriced.length > 0) {
+      logError('warning', 'No fresh price for some assets', unpriced.join(', '));
+    }
+    return snapshot;
+  }
+
+  private combine(ticker: string, quotes: SourceQuote[]): PriceQuote | null {
+    const now = Date.now();
+    const fresh = quotes.filter(quote => now - quote.time <= this.options.maxAge);
+    // Nothing fresh: keep the newest quote so callers can see when the asset was last priced
+    if (fresh.length === 0) {
+      const newest = quotes.reduce<SourceQuote | null>((latest, quote) => (!latest || quote.time > latest.time ? quote : latest), null);
+      return newest ? { ticker, usd: newest.usd, time: newest.time, source: newest.source, quotes } : null;
+    }
+
+    const prices = fresh.map(quote => quote.usd);
+    const spread = (Math.max(...prices) - Math.min(...prices)) / Math.min(...prices);
+    if (this.options.policy === 'median' && fresh.length > 1 && spread <= this.options.maxDeviation) {
+      return { ticker, usd: median(prices), time: Math.min(...fresh.map(quote => quote.time)), source: 'median', quotes: fresh };
+    }
+
+    const preferred = this.options.priority
+      .map(source => fresh.find(quote => quote.source === source))
+      .find((quote): quote is SourceQuote => !!quote) || fresh[0];
+    return { ticker, usd: preferred.usd, time: preferred.time, source: preferred.source, quotes: fresh };
+  }
+}
+
+export const priceOracle = new PriceOracle();
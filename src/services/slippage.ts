@@ -0,0 +1,88 @@
+import { OrderBook, OrderBookLevel } from './marketData';
+
+export interface SlippageEstimate {
+  side: 'buy' | 'sell';
+  volume: number; // Requested
+  filledVolume: number; // What the fetched depth can absorb; less than volume when the book runs out
+  midPrice: number;
+  averagePrice: number;
+  worstPrice: number; // Deepest level the order reaches
+  impactBps: number; // Average price against the mid, so the spread counts too
+  worstImpactBps: number;
+}
+
+const BPS = 10000;
+
+/** Halfway between the best bid and ask, or whichever side the book has. */
+export const midPrice = (book: OrderBook): number | undefined => {
+  const bid = book.bids[0]?.price;
+  const ask = book.asks[0]?.price;
+  if (bid && ask) return (bid + ask) / 2;
+  return bid || ask;
+};
+
+// A buy takes the asks, a sell the bids
+const levelsFor = (book: OrderBook, side: 'buy' | 'sell'): OrderBookLevel[] => side === 'buy' ? book.asks : book.bids;
+
+const impact = (price: number, mid: number, side: 'buy' | 'sell') => (side === 'buy' ? price - mid : mid - price) / mid * BPS;
+
+/**
+ * Walks the book for `volume` as a market order would take it. Undefined when
+ * the side it takes is empty.
+ */
+export const estimateSlippage = (book: OrderBook, side: 'buy' | 'sell', volume: number): SlippageEstimate | undefined => {
+  const levels = levelsFor(book, side);
+  const mid = midPrice(book);
+  if (levels.length === 0 || !mid || !(volume > 0)) return undefined;
+
+  let filledVolume = 0;
+  let cost = 0;
+  let worstPrice = levels[0].price;
+  for (const level of levels) {
+    if (filledVolume >= volume) break;
+    const take = Math.min(level.volume, volume - filledVolume);
+    filledVolume += take;
+    cost += take * level.price;
+    worstPrice = level.price;
+  }
+
+  const averagePrice = cost / filledVolume;
+  return {
+    side,
+    volume,
+    filledVolume,
+    midPrice: mid,
+    averagePrice,
+    worstPrice,
+    impactBps: impact(averagePrice, mid, side),
+    worstImpactBps: impact(worstPrice, mid, side)
+  };
+};
+
+/**
+ * The largest volume whose average fill stays within `maxBps` of the mid, as
+ * far as the fetched depth goes. Zero when even the best level is too far.
+ */
+export const maxVolumeWithin = (book: OrderBook, side: 'buy' | 'sell', maxBps: number): number => {
+  const mid = midPrice(book);
+  if (!mid) return 0;
+  // The average price may move this far from the mid before the limit is hit
+  const limit = side === 'buy' ? mid * (1 + maxBps / BPS) : mid * (1 - maxBps / BPS);
+  const beyond = (price: number) => side === 'buy' ? price > limit : price < limit;
+
+  let volume = 0;
+  let cost = 0;
+  for (const level of levelsFor(book, side)) {
+    const nextVolume = volume + level.volume;
+    const nextCost = cost + level.volume * level.price;
+    if (beyond(nextCost / nextVolume)) {
+      // Take just enough of this level to bring the average to the limit:
+      // (cost + price * x) / (volume + x) = limit
+      const partial = (limit * volume - cost) / (level.price - limit);
+      return volume + Math.max(partial, 0);
+    }
+    volume = nextVolume;
+    cost = nextCost;
+  }
+  return volume;
+};
@@ -0,0 +1,90 @@
+import { OrderSide } from './exchangeAdapter';
+import { krakenStream } from './krakenStream';
+import { MarketDataService, OrderBookLevel } from './marketData';
+
+export type StrategyType = 'scalping' | 'arbitrage' | 'momentum';
+
+export interface StrategySignal {
+  strategy: StrategyType;
+  pair: string;
+  side: OrderSide;
+  price: number; // Reference price the signal was computed against
+  reason: string;
+}
+
+// Minimum bid/ask volume ratio in the top of the book before scalping acts
+const BOOK_IMBALANCE_RATIO = 1.5;
+// Fraction the last price must stray from recent trade VWAP
+const VWAP_DEVIATION = 0.001;
+// Fraction the last close must sit above or below the moving average
+const MOMENTUM_THRESHOLD = 0.002;
+const MOMENTUM_PERIOD = 12;
+
+type BookSide = Pick<OrderBookLevel, 'price' | 'volume'>[];
+
+const scalpingSignal = async (market: MarketDataService, pair: string): Promise<StrategySignal | null> => {
+  // Prefer the streamed book when the engine keeps one live, it is fresher than a REST snapshot
+  const streamed = krakenStream.getBook(pair);
+  const book: { bids: BookSide; asks: BookSide } = streamed
+    ? { bids: streamed.bids.map(({ price, qty }) => ({ price, volume: qty })), asks: streamed.asks.map(({ price, qty }) => ({ price, volume: qty })) }
+    : await market.getOrderBook(pair, 10);
+  const bidVolume = book.bids.reduce((sum, level) => sum + level.volume, 0);
+  const askVolume = book.asks.reduce((sum, level) => sum + level.volume, 0);
+  if (bidVolume === 0 || askVolume === 0) return null;
+
+  const ratio = bidVolume / askVolume;
+  if (ratio >= BOOK_IMBALANCE_RATIO) {
+    return { strategy: 'scalping', pair, side: 'buy', price: book.asks[0].price, reason: `Bid pressure ${ratio.toFixed(2)}x` };
+  }
+  if (1 / ratio >= BOOK_IMBALANCE_RATIO) {
+    return { strategy: 'scalping', pair, side: 'sell', price: book.bids[0].price, reason: `Ask pressure ${(1 / ratio).toFixed(2)}x` };
+  }
+  return null;
+};
+
+const arbitrageSignal = async (market: MarketDataService, pair: string): Promise<StrategySignal | null> => {
+  const [ticker, trades] = await Promise.all([market.getTicker(pair), market.getRecentTrades(pair)]);
+  const volume = trades.reduce((sum, trade) => sum + trade.volume, 0);
+  if (volume === 0) return null;
+
+  const vwap = trades.reduce((sum, trade) => sum + trade.price * trade.volume, 0) / volume;
+  const deviation = (ticker.last - vwap) / vwap;
+  if (Math.abs(deviation) < VWAP_DEVIATION) return null;
+
+  // Trade back toward the volume-weighted price
+  return {
+    strategy: 'arbitrage',
+    pair,
+    side: deviation < 0 ? 'buy' : 'sell',
+    price: ticker.last,
+    reason: `Last ${(deviation * 100).toFixed(2)}% from VWAP ${vwap.toFixed(2)}`
+  };
+};
+
+const momentumSignal = async (market: MarketDataService, pair: string): Promise<StrategySignal | null> => {
+  const candles = await market.getOhlc(pair, 5);
+  const recent = candles.slice(-MOMENTUM_PERIOD);
+  if (recent.length < MOMENTUM_PERIOD) return null;
+
+  const average = recent.reduce((sum, candle) => sum + candle.close, 0) / recent.length;
+  const close = recent[recent.length - 1].close;
+  const distance = (close - average) / average;
+  if (Math.abs(distance) < MOMENTUM_THRESHOLD) return null;
+
+  return {
+    strategy: 'momentum',
+    pair,
+    side: distance > 0 ? 'buy' : 'sell',
+    price: close,
+    reason: `Close ${(distance * 100).toFixed(2)}% vs ${MOMENTUM_PERIOD}-candle average`
+  };
+};
+
+const signalBuilders: Record<StrategyType, (market: MarketDataService, pair: string) => Promise<StrategySignal | null>> = {
+  scalping: scalpingSignal,
+  arbitrage: arbitrageSignal,
+  momentum: momentumSignal
+};
+
+export const getStrategySignal = (strategy: StrategyType, market: MarketDataService, pair: string) =>
+  signalBuilders[strategy](market, pair);
@@ -0,0 +1,275 @@
+import { describe, expect, it } from 'vitest';
+import { ASSET_PAIRS, BTC_USD, EMPTY_RULE_CONFIG, orderBook, priceSnapshot } from '@/test/fixtures';
+import { OrderBook } from './marketData';
+import { TradeRequest, TradeValidator } from './tradeValidator';
+import { resolveRuleSettings, RuleId, ValidationRuleConfig } from './validationRules';
+
+const PRICES = { BTC: 60000, ETH: 3000 };
+
+// Risk limits value orders against the whole portfolio; most cases here are about something else
+const WITHOUT_RISK_LIMITS: ValidationRuleConfig = { ...EMPTY_RULE_CONFIG, defaults: { riskLimits: { enabled: false } } };
+
+const validate = (
+  trade: Partial<TradeRequest>,
+  { balances = { ZUSD: '100000' }, config = WITHOUT_RISK_LIMITS, books = [] }: { balances?: { [code: string]: string }; config?: ValidationRuleConfig; books?: OrderBook[] } = {}
+) => {
+  const validator = new TradeValidator(balances, priceSnapshot(PRICES), ASSET_PAIRS, [], config, books);
+  return validator.validateTrade({ pair: 'BTC/USD', side: 'buy', amount: 0.01, ...trade });
+};
+
+const outcome = (result: ReturnType<typeof validate>, rule: RuleId) => result.rules.find(entry => entry.rule === rule);
+
+describe('TradeValidator', () => {
+  it('passes a market buy the balance covers and reports every rule', () => {
+    const result = validate({}, { balances: { ZUSD: '1000' } });
+
+    expect(result.isValid).toBe(true);
+    expect(result.error).toBeUndefined();
+    expect(result.estimatedFee).toBeCloseTo(2.4);
+    expect(result.rules.map(entry => entry.rule)).toEqual([
+      'amount', 'orderOptions', 'pairStatus', 'price',
+      'tradingHours', 'minSize', 'lotPrecision', 'minCost', 'priceBand', 'riskLimits', 'slippage', 'balance', 'feeHeadroom'
+    ]);
+    expect(result.rules.filter(entry => entry.status === 'failed')).toEqual([]);
+    expect(outcome(result, 'riskLimits')?.status).toBe('disabled');
+  });
+
+  it('refuses to size an order without a fresh price', () => {
+    const result = validate({ pair: 'DOT/USD' });
+
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('No fresh price for DOT; cannot validate a market order');
+  });
+
+  describe('size rules', () => {
+    it('raises an order below the minimum to the minimum', () => {
+      const result = validate({ amount: 0.00005 });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Order size 0.00005 is below minimum 0.0001 for BTC/USD');
+      expect(result.adjustedAmount).toBe(0.0001);
+    });
+
+    it('floors a size with too many decimals to the lot precision', () => {
+      const result = validate({ amount: 0.123456789 });
+
+      expect(result.isValid).toBe(false);
+      expect(outcome(result, 'lotPrecision')?.status).toBe('failed');
+      expect(result.adjustedAmount).toBe(0.12345678);
+    });
+  });
+
+  describe('balance', () => {
+    it('shrinks a buy to what the quote balance pays for, fee included', () => {
+      const result = validate({}, { balances: { ZUSD: '300' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Insufficient USD balance. Required: $600.00, Available: $300.00. Adjusting amount to 0.004980');
+      expect(result.adjustedAmount).toBe(0.00498007);
+      expect(result.requiredBalance).toBe(600);
+      expect(result.availableBalance).toBe(300);
+
+      const revalidated = validate({ amount: result.adjustedAmount }, { balances: { ZUSD: '300' } });
+      expect(revalidated.isValid).toBe(true);
+    });
+
+    it('blocks without an adjustment when the balance cannot pay for the minimum size', () => {
+      const result = validate({}, { balances: { ZUSD: '1' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Insufficient USD balance. Required: $600.00, Available: $1.00');
+      expect(result.adjustedAmount).toBeUndefined();
+    });
+
+    it('leaves a 5% buffer when shrinking a sell to the base balance', () => {
+      const result = validate({ side: 'sell' }, { balances: { XXBT: '0.005' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.adjustedAmount).toBeCloseTo(0.00475);
+      expect(result.requiredBalance).toBe(0.01);
+      expect(result.availableBalance).toBe(0.005);
+    });
+
+    it('shrinks a buy whose balance covers the order but not its fee', () => {
+      const result = validate({}, { balances: { ZUSD: '601' } });
+
+      expect(outcome(result, 'balance')?.status).toBe('passed');
+      expect(outcome(result, 'feeHeadroom')?.status).toBe('failed');
+      expect(result.error).toBe('USD balance does not cover the 0.40% fee. Adjusting amount to 0.009977');
+      expect(result.adjustedAmount).toBe(0.00997675);
+      expect(result.requiredBalance).toBeCloseTo(602.4);
+    });
+  });
+
+  describe('price band', () => {
+    const books = [orderBook('XXBTZUSD', 60000)];
+    const balances = { ZUSD: '1000000', XXBT: '10' };
+
+    it('lets passive limit prices through however far from the market', () => {
+      expect(outcome(validate({ orderType: 'limit', price: 30000 }, { books, balances }), 'priceBand')?.status).toBe('passed');
+      expect(outcome(validate({ orderType: 'limit', side: 'sell', price: 90000 }, { books, balances }), 'priceBand')?.status).toBe('passed');
+    });
+
+    it('warns about an aggressive price past the band', () => {
+      const result = validate({ orderType: 'limit', price: 67000 }, { books, balances });
+
+      expect(result.isValid).toBe(true);
+      expect(result.error).toBe('Price 67000 is 11.7% above the mid price 60000.0, more than 10.0%');
+      expect(outcome(result, 'priceBand')).toMatchObject({ status: 'failed', severity: 'warning' });
+    });
+
+    it('asks for confirmation past the confirmation threshold, in either direction', () => {
+      const buy = validate({ orderType: 'limit', price: 90000 }, { books, balances });
+      expect(buy.isValid).toBe(false);
+      expect(buy.needsConfirmation).toBe(true);
+      expect(buy.adjustedAmount).toBeUndefined();
+      expect(outcome(buy, 'priceBand')).toMatchObject({ status: 'failed', severity: 'error', needsConfirmation: true });
+
+      const sell = validate({ orderType: 'limit', side: 'sell', price: 30000 }, { books, balances });
+      expect(sell.needsConfirmation).toBe(true);
+      expect(sell.error).toBe('Price 30000 is 50.0% below the mid price 60000.0, more than 25.0%');
+    });
+
+    it('lets a confirmed order through with the finding as a warning', () => {
+      const result = validate({ orderType: 'limit', price: 90000, confirmed: true }, { books, balances });
+
+      expect(result.isValid).toBe(true);
+      expect(result.needsConfirmation).toBe(false);
+      expect(outcome(result, 'priceBand')).toMatchObject({ status: 'failed', severity: 'warning', needsConfirmation: true });
+    });
+
+    it('leaves trigger prices out', () => {
+      const result = validate({ orderType: 'stop-loss', side: 'sell', price: 30000 }, { books, balances });
+
+      expect(outcome(result, 'priceBand')?.status).toBe('skipped');
+    });
+
+    it('falls back to the oracle price without a book', () => {
+      const result = validate({ orderType: 'limit', price: 67000 }, { balances });
+
+      expect(result.error).toBe('Price 67000 is 11.7% above the market price 60000.0, more than 10.0%');
+    });
+
+    it('skips market orders', () => {
+      expect(outcome(validate({}, { books, balances }), 'priceBand')?.status).toBe('skipped');
+    });
+
+    it('does not offer confirmation while another rule blocks outright', () => {
+      const result = validate({ orderType: 'limit', price: 90000 }, { books, balances: { ZUSD: '100' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.needsConfirmation).toBe(false);
+      expect(result.error).toMatch(/^Insufficient USD balance/);
+    });
+  });
+
+  describe('risk limits', () => {
+    it('warns about an order over the notional limit and offers a size within it', () => {
+      const result = validate({ amount: 0.02 }, { config: EMPTY_RULE_CONFIG });
+
+      expect(result.isValid).toBe(true);
+      expect(outcome(result, 'riskLimits')).toMatchObject({
+        status: 'failed',
+        severity: 'warning',
+        message: 'Order value $1200.00 is above the $1000.00 limit',
+        adjustedAmount: 0.01666666
+      });
+    });
+
+    it('shrinks to the limit when a strategy makes it an error', () => {
+      const config = { ...EMPTY_RULE_CONFIG, strategies: { grid: { riskLimits: { severity: 'error' as const } } } };
+
+      expect(validate({ amount: 0.02 }, { config }).isValid).toBe(true);
+      const result = validate({ amount: 0.02, strategy: 'grid' }, { config });
+      expect(result.isValid).toBe(false);
+      expect(result.adjustedAmount).toBe(0.01666666);
+    });
+
+    it('asks for confirmation rather than shrinking past the confirmation thresholds', () => {
+      const notional = validate({ amount: 0.2 }, { config: EMPTY_RULE_CONFIG });
+      expect(notional.needsConfirmation).toBe(true);
+      expect(notional.adjustedAmount).toBeUndefined();
+      expect(notional.error).toBe('Order value $12000.00 is above $10000.00');
+
+      const share = validate({ amount: 0.015 }, { config: EMPTY_RULE_CONFIG, balances: { ZUSD: '1500' } });
+      expect(share.needsConfirmation).toBe(true);
+      expect(share.error).toBe('Order value $900.00 is 60.0% of the $1500.00 available, more than 50.0%');
+    });
+  });
+
+  describe('slippage', () => {
+    // Asks 60050, 60150, ... one BTC each
+    const books = [orderBook('XXBTZUSD', 60000, { step: 100 })];
+
+    it('passes a market order whose average fill stays within the limit', () => {
+      const result = validate({ amount: 5 }, { books, balances: { ZUSD: '1000000' } });
+
+      expect(result.isValid).toBe(true);
+      expect(outcome(result, 'slippage')?.status).toBe('passed');
+    });
+
+    it('shrinks a market order to the volume the limit allows', () => {
+      const result = validate({ amount: 8 }, { books, balances: { ZUSD: '1000000' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Expected slippage 66.7 bps (average 60400.0, worst 60750.0) is above the 50 bps limit');
+      expect(result.adjustedAmount).toBe(6);
+    });
+
+    it('reports a book too thin to fill the order', () => {
+      const result = validate({ amount: 20 }, { books, balances: { ZUSD: '10000000' } });
+
+      expect(result.error).toBe('Order book depth only covers 10.000000 of 20 BTC');
+    });
+
+    it('skips orders that name their own price', () => {
+      const result = validate({ amount: 8, orderType: 'limit', price: 59000 }, { books, balances: { ZUSD: '1000000' } });
+
+      expect(outcome(result, 'slippage')?.status).toBe('skipped');
+    });
+  });
+
+  describe('quote currencies', () => {
+    it('compares a cross pair\'s price in its quote currency', () => {
+      const result = validate({ pair: 'ETH/BTC', amount: 1, orderType: 'limit', price: 0.06 }, { balances: { XXBT: '1' } });
+
+      expect(result.isValid).toBe(true);
+      expect(result.error).toBe('Price 0.06 is 20.0% above the market price 0.05000, more than 10.0%');
+    });
+
+    it('only counts the pair\'s own quote currency, at its precision', () => {
+      const result = validate({ pair: 'ETH/BTC', amount: 1 }, { balances: { XXBT: '0.01', ZUSD: '100000' } });
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toBe('Insufficient BTC balance. Required: 0.05000000 BTC, Available: 0.01000000 BTC. Adjusting amount to 0.199203');
+      expect(result.adjustedAmount).toBe(0.19920318);
+    });
+
+    it('values a cross pair order in USD for the risk limits', () => {
+      const result = validate({ pair: 'ETH/BTC', amount: 1 }, { balances: { XXBT: '1' }, config: EMPTY_RULE_CONFIG });
+
+      expect(outcome(result, 'riskLimits')).toMatchObject({ message: 'Order value $3000.00 is above the $1000.00 limit', adjustedAmount: 0.33333333 });
+    });
+  });
+
+  describe('rule configuration', () => {
+    const config: ValidationRuleConfig = {
+      defaults: { minSize: { enabled: false } },
+      pairs: { XBTUSD: { priceBand: { maxDeviation: 0.05 } } },
+      strategies: { dca: { priceBand: { maxDeviation: 0.2 } } }
+    };
+
+    it('layers the defaults, then the pair, then the strategy', () => {
+      expect(resolveRuleSettings(config, 'BTC/USD', undefined, BTC_USD).priceBand.maxDeviation).toBe(0.05);
+      expect(resolveRuleSettings(config, 'BTC/USD', 'dca', BTC_USD).priceBand.maxDeviation).toBe(0.2);
+      expect(resolveRuleSettings(config, 'ETH/BTC').priceBand.maxDeviation).toBe(0.1);
+    });
+
+    it('reports disabled rules without running them', () => {
+      const result = validate({ amount: 0.00005 }, { config });
+
+      expect(outcome(result, 'minSize')?.status).toBe('disabled');
+      expect(result.isValid).toBe(true);
+    });
+  });
+});
@@ -1,9 +1,33 @@
+import { findBalanceCode, splitPair, toKrakenPair, toTicker } from '@/lib/assets';
+import { AssetPair, findAssetPair, floorToLot, OrderBook } from './marketData';
+import { priceOracle, PriceSnapshot } from './priceOracle';
+import { estimateSlippage, SlippageEstimate } from './slippage';
+import { FeeTier, ORDER_TYPES_WITH_LIMIT, ORDER_TYPES_WITH_TRIGGER, OrderType, TimeInForce } from './exchangeAdapter';
+import { loadRuleConfig, MAX_LEVERAGE, resolveRuleSettings, RULE_LABELS, RuleOutcome, runRules, ValidationRule, ValidationRuleConfig } from './validationRules';
+
 export interface TradeValidationResult {
   isValid: boolean;
   error?: string;
   adjustedAmount?: number;
   requiredBalance?: number;
   availableBalance?: number;
+  estimatedFee?: number;
+  needsConfirmation?: boolean; // Only confirmation thresholds block it; resubmit with confirmed once the user agrees
+  rules: RuleOutcome[]; // Every rule, in the order it ran
+}
+
+// Figures are in the pair's quote currency; multiply by quoteUsd for USD
+export interface TradeCostEstimate {
+  price: number;
+  quote: string; // Ticker, e.g. EUR or BTC
+  quoteUsd?: number; // USD per unit of quote; undefined while the quote has no fresh price
+  notional: number; // amount * price
+  liquidity: 'maker' | 'taker';
+  feeRate: number;
+  fee: number;
+  margin: number; // Quote currency tied up: the notional, or its share under leverage
+  total: number; // margin + fee for buys; what a sell nets after its fee
+  feeTierKnown: boolean;
 }
 
 export interface TradeRequest {
@@ -11,202 +35,270 @@ export interface TradeRequest {
   side: 'buy' | 'sell';
   amount: number;
   price?: number;
+  orderType?: OrderType;
+  price2?: number;
+  timeInForce?: TimeInForce;
+  expireTime?: number;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  leverage?: number;
+  strategy?: string; // Picks up that strategy's rule settings
+  confirmed?: boolean; // The user accepted an order over the confirmation thresholds
 }
 
+// Used for pairs without exchange metadata
+const DEFAULT_MIN_ORDER_SIZE = 0.0001;
+// Kraken's entry-level spot fees, assumed until the account's own tier is loaded
+const DEFAULT_FEES = { maker: 0.0025, taker: 0.004 };
+
 export class TradeValidator {
   private balances: { [currency: string]: string };
-  private minOrderSizes: { [pair: string]: number };
-  private maxOrderSizes: { [pair: string]: number };
-  private cryptoPrices: { [currency: string]: number };
+  private prices: PriceSnapshot;
+  private assetPairs: AssetPair[];
+  private feeTiers: FeeTier[];
+  private ruleConfig: ValidationRuleConfig;
+  private orderBooks: OrderBook[];
 
-  constructor(balances: { [currency: string]: string }, cryptoPrices?: { [currency: string]: number }) {
+  constructor(
+    balances: { [currency: string]: string },
+    prices: PriceSnapshot = priceOracle.getSnapshot(),
+    assetPairs: AssetPair[] = [],
+    feeTiers: FeeTier[] = [],
+    ruleConfig: ValidationRuleConfig = loadRuleConfig(),
+    orderBooks: OrderBook[] = []
+  ) {
     this.balances = balances;
-    this.cryptoPrices = cryptoPrices || {
-      'XBT': 45000, 'XXBT': 45000,
-      'ETH': 2500, 'XETH': 2500,
-      'XRP': 0.6, 'XXRP': 0.6,
-      'LTC': 100, 'XLTC': 100,
-      'ADA': 0.5, 'DOT': 7,
-      'USD': 1, 'ZUSD': 1
-    };
-    
-    // Minimum order sizes for different pairs
-    this.minOrderSizes = {
-      'BTC/USD': 0.0001,
-      'ETH/USD': 0.001,
-      'XRP/USD': 1,
-      'LTC/USD': 0.01,
-      'ADA/USD': 10,
-      'DOT/USD': 0.1,
-      'XBTUSD': 0.0001,
-      'ETHUSD': 0.001,
-      'XRPUSD': 1,
-      'LTCUSD': 0.01,
-      'ADAUSD': 10,
-      'DOTUSD': 0.1
-    };
-    
-    // Maximum order sizes (as percentage of balance)
-    this.maxOrderSizes = {
-      'BTC/USD': 0.9,
-      'ETH/USD': 0.9,
-      'XRP/USD': 0.9,
-      'LTC/USD': 0.9,
-      'ADA/USD': 0.9,
-      'DOT/USD': 0.9,
-      'XBTUSD': 0.9,
-      'ETHUSD': 0.9,
-      'XRPUSD': 0.9,
-      'LTCUSD': 0.9,
-      'ADAUSD': 0.9,
-      'DOTUSD': 0.9
-    };
+    this.prices = prices;
+    this.assetPairs = assetPairs;
+    this.feeTiers = feeTiers;
+    this.ruleConfig = ruleConfig;
+    this.orderBooks = orderBooks;
   }
 
+  /**
+   * Runs every rule against the trade and reports each outcome. The summary
+   * fields come from the first blocking failure, preferring ones no
+   * confirmation can get past, or, for a trade that may go ahead, the first
+   * warning.
+   */
   validateTrade(trade: TradeRequest): TradeValidationResult {
-    const { pair, side, amount, price } = trade;
-    
-    // Check if amount is positive
-    if (amount <= 0) {
-      return {
-        isValid: false,
-        error: 'Trade amount must be positive'
-      };
-    }
+    const pairInfo = findAssetPair(this.assetPairs, trade.pair);
+    const [base, quote] = this.parsePair(trade.pair);
+    const price = this.getExecutionPrice(trade);
+    const marketPrice = this.getMarketPrice(base, quote);
+    const slippage = this.estimateSlippage(trade);
+    const referencePrice = price || slippage?.averagePrice || marketPrice;
+    const cost = referencePrice !== undefined && trade.amount > 0 ? this.costAt(trade, referencePrice) : undefined;
+    const portfolioValue = this.prices.valueBalances(this.balances).total;
+    const settings = resolveRuleSettings(this.ruleConfig, trade.pair, trade.strategy, pairInfo);
+    const now = new Date();
+
+    const rules = runRules(this.coreRules(pairInfo), settings, ruleSettings => ({
+      trade,
+      settings: ruleSettings,
+      pairInfo,
+      base,
+      quote,
+      minSize: this.getMinOrderSize(trade.pair),
+      price,
+      marketPrice,
+      quoteUsd: this.prices.getPrice(quote),
+      referencePrice,
+      orderBook: this.getOrderBook(trade.pair),
+      slippage,
+      cost,
+      portfolioValue,
+      balanceOf: currency => this.getAvailableBalance(currency),
+      now
+    }));
+
+    const failed = rules.filter(outcome => outcome.status === 'failed');
+    const blockers = failed.filter(outcome => outcome.severity === 'error');
+    const blocking = blockers.find(outcome => !outcome.needsConfirmation) || blockers[0];
+    const reported = blocking || failed[0];
+    return {
+      isValid: !blocking,
+      needsConfirmation: !!blocking && blockers.every(outcome => outcome.needsConfirmation),
+      error: reported?.message,
+      adjustedAmount: blocking?.adjustedAmount,
+      requiredBalance: reported?.requiredBalance,
+      availableBalance: reported?.availableBalance,
+      estimatedFee: cost?.fee,
+      rules
+    };
+  }
+  
+  // Checks every order needs whatever the configuration says
+  private coreRules(pairInfo?: AssetPair): ValidationRule[] {
+    return [
+      {
+        id: 'amount',
+        label: RULE_LABELS.amount,
+        check: ({ trade }) => trade.amount > 0 ? null : { status: 'failed', message: 'Trade amount must be positive' }
+      },
+      {
+        id: 'orderOptions',
+        label: RULE_LABELS.orderOptions,
+        check: ({ trade }) => {
+          const message = this.validateOrderOptions(trade);
+          return message ? { status: 'failed', message } : null;
+        }
+      },
+      {
+        id: 'pairStatus',
+        label: RULE_LABELS.pairStatus,
+        check: ({ trade }) => {
+          if (!pairInfo) return { status: 'skipped', message: 'No pair metadata' };
+          const message = this.validatePairStatus(trade, pairInfo);
+          return message ? { status: 'failed', message } : null;
+        }
+      },
+      {
+        // Without a quoted price the order can only be sized against the market, so refuse rather than guess
+        id: 'price',
+        label: RULE_LABELS.price,
+        check: ({ trade, base, referencePrice }) => referencePrice !== undefined ? null : {
+          status: 'failed',
+          message: `No fresh price for ${toTicker(base)}; cannot validate a ${trade.orderType || 'market'} order`
+        }
+      }
+    ];
+  }
+  
+  /**
+   * Cost breakdown for a trade at its limit price, or else its expected fill
+   * from the order book, or the market price. Undefined when none is known.
+   */
+  estimateCost(trade: TradeRequest): TradeCostEstimate | undefined {
+    const [base, quote] = this.parsePair(trade.pair);
+    const price = this.getExecutionPrice(trade) || this.estimateSlippage(trade)?.averagePrice || this.getMarketPrice(base, quote);
+    return price ? this.costAt(trade, price) : undefined;
+  }
+  
+  /** How the trade would fill walking the pair's order book, if one was provided. */
+  estimateSlippage(trade: TradeRequest): SlippageEstimate | undefined {
+    const book = this.getOrderBook(trade.pair);
+    return book ? estimateSlippage(book, trade.side, trade.amount) : undefined;
+  }
+  
+  private getOrderBook(pair: string): OrderBook | undefined {
+    const pairName = (name: string) => findAssetPair(this.assetPairs, name)?.name ?? toKrakenPair(name);
+    return this.orderBooks.find(book => pairName(book.pair) === pairName(pair));
+  }
+  
+  /**
+   * Market price of `base` in `quote`, crossed through both assets' USD
+   * prices, e.g. ETH in BTC. Undefined unless both are fresh.
+   */
+  getMarketPrice(base: string, quote: string): number | undefined {
+    const baseUsd = this.prices.getPrice(base);
+    const quoteUsd = this.prices.getPrice(quote);
+    return baseUsd !== undefined && quoteUsd ? baseUsd / quoteUsd : undefined;
+  }
+  
+  getFeeTier(pair: string): FeeTier | undefined {
+    const pairInfo = findAssetPair(this.assetPairs, pair);
+    const names = pairInfo ? [pairInfo.name, pairInfo.altname] : [toKrakenPair(pair)];
+    return this.feeTiers.find(tier => names.includes(tier.pair));
+  }
+  
+  // Only post-only orders are sure to rest on the book; anything else may take liquidity
+  private costAt(trade: TradeRequest, price: number): TradeCostEstimate {
+    const liquidity = trade.postOnly ? 'maker' : 'taker';
+    const feeTier = this.getFeeTier(trade.pair);
+    const feeRate = (feeTier || DEFAULT_FEES)[liquidity];
+    const leverage = trade.leverage && trade.leverage > 1 ? trade.leverage : 1;
+    const notional = trade.amount * price;
+    const fee = notional * feeRate;
+    const margin = notional / leverage;
+    const total = trade.side === 'buy' || leverage > 1 ? margin + fee : notional - fee;
+    const [, quote] = this.parsePair(trade.pair);
+    return { price, quote: toTicker(quote), quoteUsd: this.prices.getPrice(quote), notional, liquidity, feeRate, fee, margin, total, feeTierKnown: !!feeTier };
+  }
+  
+  private validateOrderOptions(trade: TradeRequest): string | null {
+    const orderType = trade.orderType || 'market';
     
-    // Check minimum order size
-    const minSize = this.minOrderSizes[pair] || 0.0001;
-    if (amount < minSize) {
-      return {
-        isValid: false,
-        error: `Order size ${amount} is below minimum ${minSize} for ${pair}`,
-        adjustedAmount: minSize
-      };
+    if (orderType === 'limit' && !(trade.price > 0)) {
+      return 'Limit orders require a positive price';
     }
     
-    // Get currency from pair
-    const [baseCurrency, quoteCurrency] = this.parsePair(pair);
-    
-    if (side === 'buy') {
-      // For buy orders, check if we have enough quote currency (USD) or equivalent value in crypto
-      const estimatedCost = price ? amount * price : amount * this.getEstimatedPrice(baseCurrency);
-      const totalUsdValue = this.getTotalPortfolioValueInUsd();
-      
-      if (totalUsdValue < estimatedCost) {
-        return {
-          isValid: false,
-          error: `Insufficient portfolio value. Required: $${estimatedCost.toFixed(2)}, Available: $${totalUsdValue.toFixed(2)}`,
-          requiredBalance: estimatedCost,
-          availableBalance: totalUsdValue
-        };
+    if (ORDER_TYPES_WITH_TRIGGER.includes(orderType)) {
+      if (!(trade.price > 0)) {
+        return `${orderType} orders require a positive trigger price`;
       }
       
-      // Check if we have direct USD balance or need to convert crypto
-      const usdBalance = parseFloat(this.balances['ZUSD'] || this.balances['USD'] || '0');
-      if (usdBalance < estimatedCost) {
-        // We have crypto that could be converted, but warn user
-        return {
-          isValid: true, // Allow trade but with warning
-          error: `Direct USD balance insufficient ($${usdBalance.toFixed(2)}). May need to convert crypto assets.`
-        };
-      }
-    } else {
-      // For sell orders, check base currency balance
-      const baseBalance = parseFloat(this.balances[baseCurrency] || '0');
-      
-      if (baseBalance < amount) {
-        const adjustedAmount = Math.max(baseBalance * 0.95, minSize); // Leave 5% buffer
-        
-        if (adjustedAmount < minSize) {
-          return {
-            isValid: false,
-            error: `Insufficient ${baseCurrency} balance. Required: ${amount}, Available: ${baseBalance}`,
-            requiredBalance: amount,
-            availableBalance: baseBalance
-          };
-        }
-        
-        return {
-          isValid: false,
-          error: `Insufficient ${baseCurrency} balance. Adjusting amount to ${adjustedAmount.toFixed(6)}`,
-          adjustedAmount,
-          requiredBalance: amount,
-          availableBalance: baseBalance
-        };
+      // Stop-losses trigger against the position, take-profits in its favour
+      const [base, quote] = this.parsePair(trade.pair);
+      const marketPrice = this.getMarketPrice(base, quote);
+      const isStop = orderType.startsWith('stop-loss');
+      const triggerAbove = (trade.side === 'buy') === isStop;
+      if (marketPrice !== undefined && (triggerAbove ? trade.price <= marketPrice : trade.price >= marketPrice)) {
+        return `${orderType} trigger ${trade.price} must be ${triggerAbove ? 'above' : 'below'} the current price ${marketPrice} for a ${trade.side} order`;
       }
     }
     
-    return {
-      isValid: true
-    };
-  }
-  
-  private getTotalPortfolioValueInUsd(): number {
-    let totalValue = 0;
+    if (orderType.endsWith('-limit') && !(trade.price2 > 0)) {
+      return `${orderType} orders require a positive limit price`;
+    }
     
-    Object.entries(this.balances).forEach(([currency, balance]) => {
-      const numBalance = parseFloat(balance);
-      if (numBalance > 0) {
-        const price = this.cryptoPrices[currency] || 1;
-        totalValue += numBalance * price;
+    if (trade.timeInForce === 'GTD') {
+      if (!trade.expireTime || trade.expireTime <= Date.now() / 1000) {
+        return 'Good-til-date orders require an expiry time in the future';
       }
-    });
+    }
     
-    return totalValue;
-  }
-  
-  private getEstimatedPrice(currency: string): number {
-    const normalizedCurrency = this.normalizeCurrency(currency);
-    return this.cryptoPrices[normalizedCurrency] || this.cryptoPrices[currency] || 1;
-  }
-  
-  private parsePair(pair: string): [string, string] {
-    // Handle different pair formats
-    if (pair.includes('/')) {
-      const [base, quote] = pair.split('/');
-      return [this.normalizeCurrency(base), this.normalizeCurrency(quote)];
+    if (trade.postOnly && !ORDER_TYPES_WITH_LIMIT.includes(orderType)) {
+      return 'Post-only is only available for limit orders';
+    }
+    
+    if (trade.postOnly && trade.timeInForce === 'IOC') {
+      return 'Post-only orders cannot be immediate-or-cancel';
     }
     
-    // Handle Kraken format (e.g., XBTUSD, ETHUSD)
-    if (pair === 'XBTUSD') return ['XXBT', 'ZUSD'];
-    if (pair === 'ETHUSD') return ['XETH', 'ZUSD'];
-    if (pair === 'XRPUSD') return ['XXRP', 'ZUSD'];
-    if (pair === 'LTCUSD') return ['XLTC', 'ZUSD'];
-    if (pair === 'ADAUSD') return ['ADA', 'ZUSD'];
-    if (pair === 'DOTUSD') return ['DOT', 'ZUSD'];
+    if (trade.leverage !== undefined && (trade.leverage < 1 || trade.leverage > MAX_LEVERAGE)) {
+      return `Leverage must be between 1 and ${MAX_LEVERAGE}`;
+    }
     
-    // Default fallback
-    if (pair.endsWith('USD')) {
-      const base = pair.slice(0, -3);
-      return [this.normalizeCurrency(base), 'ZUSD'];
+    if (trade.reduceOnly && !(trade.leverage > 1)) {
+      return 'Reduce-only is only available for leveraged orders';
     }
     
-    return [pair, 'ZUSD'];
+    return null;
   }
   
-  private normalizeCurrency(currency: string): string {
-    const normalizations: { [key: string]: string } = {
-      'BTC': 'XXBT', // Kraken uses XXBT for Bitcoin
-      'BITCOIN': 'XXBT',
-      'ETH': 'XETH', // Kraken uses XETH for Ethereum
-      'ETHEREUM': 'XETH',
-      'XRP': 'XXRP', // Kraken uses XXRP for Ripple
-      'RIPPLE': 'XXRP',
-      'LTC': 'XLTC', // Kraken uses XLTC for Litecoin
-      'LITECOIN': 'XLTC',
-      'USD': 'ZUSD' // Kraken uses ZUSD for USD
-    };
-    
-    return normalizations[currency.toUpperCase()] || currency.toUpperCase();
+  private validatePairStatus(trade: TradeRequest, pairInfo: AssetPair): string | null {
+    const orderType = trade.orderType || 'market';
+    switch (pairInfo.status) {
+      case 'online':
+        return null;
+      case 'cancel_only':
+        return `${pairInfo.symbol} is not accepting new orders`;
+      case 'post_only':
+        return trade.postOnly ? null : `${pairInfo.symbol} only accepts post-only limit orders`;
+      case 'limit_only':
+        return ORDER_TYPES_WITH_LIMIT.includes(orderType) ? null : `${pairInfo.symbol} only accepts limit orders`;
+      case 'reduce_only':
+        return trade.reduceOnly ? null : `${pairInfo.symbol} only accepts reduce-only orders`;
+    }
+  }
+  
+  private getExecutionPrice(trade: TradeRequest): number | undefined {
+    return trade.orderType?.endsWith('-limit') ? trade.price2 : trade.price;
+  }
+  
+  private parsePair(pair: string): [string, string] {
+    const pairInfo = findAssetPair(this.assetPairs, pair);
+    return pairInfo ? [pairInfo.base, pairInfo.quote] : splitPair(pair);
   }
   
   getMinOrderSize(pair: string): number {
-    return this.minOrderSizes[pair] || 0.0001;
+    return findAssetPair(this.assetPairs, pair)?.orderMin || DEFAULT_MIN_ORDER_SIZE;
   }
   
   getAvailableBalance(currency: string): number {
-    const normalizedCurrency = this.normalizeCurrency(currency);
-    return parseFloat(this.balances[normalizedCurrency] || this.balances[currency] || '0');
+    const code = findBalanceCode(this.balances, currency);
+    return code ? parseFloat(this.balances[code]) : 0;
   }
   
   getBalanceSummary(): { [currency: string]: number } {
@@ -222,16 +314,17 @@ export class TradeValidator {
     return summary;
   }
   
-  getPortfolioSummary(): { [currency: string]: { balance: number; usdValue: number } } {
-    const summary: { [currency: string]: { balance: number; usdValue: number } } = {};
+  // Assets without a fresh price have no usdValue rather than a guessed one
+  getPortfolioSummary(): { [currency: string]: { balance: number; usdValue?: number } } {
+    const summary: { [currency: string]: { balance: number; usdValue?: number } } = {};
     
     for (const [currency, balance] of Object.entries(this.balances)) {
       const numBalance = parseFloat(balance);
       if (numBalance > 0) {
-        const price = this.cryptoPrices[currency] || 1;
+        const price = this.prices.getPrice(currency);
         summary[currency] = {
           balance: numBalance,
-          usdValue: numBalance * price
+          usdValue: price !== undefined ? numBalance * price : undefined
         };
       }
     }
@@ -0,0 +1,401 @@
+import { getAssetDecimals, isSameAsset, toKrakenPair, toTicker } from '@/lib/assets';
+import { AssetPair, floorToLot, OrderBook } from './marketData';
+import { maxVolumeWithin, midPrice, SlippageEstimate } from './slippage';
+import { TradeCostEstimate, TradeRequest } from './tradeValidator';
+
+// Core rules always run; the rest can be switched on and off per pair and strategy
+export type CoreRuleId = 'amount' | 'orderOptions' | 'pairStatus' | 'price';
+export type ConfigurableRuleId = 'tradingHours' | 'minSize' | 'lotPrecision' | 'minCost' | 'priceBand' | 'riskLimits' | 'slippage' | 'balance' | 'feeHeadroom';
+export type RuleId = CoreRuleId | ConfigurableRuleId;
+
+// error blocks the order; warning lets it through with the message
+export type RuleSeverity = 'error' | 'warning';
+
+export type RuleStatus = 'passed' | 'failed' | 'skipped' | 'disabled';
+
+export interface RuleSettings {
+  enabled: boolean;
+  severity: RuleSeverity;
+  maxDeviation?: number; // priceBand: fraction of the mid or market price, e.g. 0.1 for 10%
+  confirmDeviation?: number; // priceBand: beyond this the order needs confirming
+  maxNotional?: number; // riskLimits: USD per order
+  confirmNotional?: number; // riskLimits: USD; beyond this the order needs confirming
+  maxBalanceShare?: number; // riskLimits: fraction of the available portfolio value
+  confirmBalanceShare?: number; // riskLimits
+  maxLeverage?: number; // riskLimits
+  maxSlippageBps?: number; // slippage: average fill against the mid, in basis points
+  tradingHours?: { start: number; end: number }; // UTC hours, end exclusive; wraps past midnight when start > end
+}
+
+export type RuleOverrides = Partial<Record<ConfigurableRuleId, Partial<RuleSettings>>>;
+
+/**
+ * Rule settings layered from the defaults, then the order's pair, then the
+ * strategy that placed it, so a strategy has the last word on its own orders.
+ */
+export interface ValidationRuleConfig {
+  defaults: RuleOverrides;
+  pairs: { [pair: string]: RuleOverrides }; // Any pair spelling, e.g. BTC/USD or XBTUSD
+  strategies: { [strategy: string]: RuleOverrides };
+}
+
+export interface RuleOutcome {
+  rule: RuleId;
+  status: RuleStatus;
+  severity: RuleSeverity;
+  message?: string;
+  adjustedAmount?: number;
+  requiredBalance?: number;
+  availableBalance?: number;
+  needsConfirmation?: boolean; // Over a confirmation threshold: blocks unless the trade is confirmed
+}
+
+export interface RuleContext {
+  trade: TradeRequest;
+  settings: RuleSettings;
+  pairInfo?: AssetPair;
+  base: string;
+  quote: string;
+  minSize: number;
+  price?: number; // The order's own execution price, if it has one
+  marketPrice?: number; // In the quote currency, crossed through the oracle's USD prices
+  quoteUsd?: number; // USD per unit of quote
+  referencePrice?: number; // price, else the book's expected average fill, else marketPrice
+  orderBook?: OrderBook;
+  slippage?: SlippageEstimate; // The order walked through orderBook
+  cost?: TradeCostEstimate; // At referencePrice, in the quote currency
+  portfolioValue: number; // USD
+  balanceOf: (currency: string) => number;
+  now: Date;
+}
+
+// What a rule reports; null means it passed
+export type RuleFinding = Omit<RuleOutcome, 'rule' | 'severity'> & { severity?: RuleSeverity } | null;
+
+export interface ValidationRule {
+  id: RuleId;
+  label: string;
+  check: (context: RuleContext) => RuleFinding;
+}
+
+export const MAX_LEVERAGE = 5;
+
+export const DEFAULT_RULE_SETTINGS: Record<ConfigurableRuleId, RuleSettings> = {
+  tradingHours: { enabled: false, severity: 'error', tradingHours: { start: 0, end: 24 } },
+  minSize: { enabled: true, severity: 'error' },
+  lotPrecision: { enabled: true, severity: 'error' },
+  minCost: { enabled: true, severity: 'error' },
+  priceBand: { enabled: true, severity: 'warning', maxDeviation: 0.1, confirmDeviation: 0.25 },
+  riskLimits: {
+    enabled: true,
+    severity: 'warning',
+    maxNotional: 1000,
+    confirmNotional: 10000,
+    maxBalanceShare: 0.25,
+    confirmBalanceShare: 0.5,
+    maxLeverage: MAX_LEVERAGE
+  },
+  slippage: { enabled: true, severity: 'error', maxSlippageBps: 50 },
+  balance: { enabled: true, severity: 'error' },
+  feeHeadroom: { enabled: true, severity: 'error' }
+};
+
+const CORE_RULE_SETTINGS: RuleSettings = { enabled: true, severity: 'error' };
+
+const STORAGE_KEY = 'validation:rules';
+
+const EMPTY_CONFIG: ValidationRuleConfig = { defaults: {}, pairs: {}, strategies: {} };
+
+export const loadRuleConfig = (): ValidationRuleConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return saved ? { ...EMPTY_CONFIG, ...saved } : EMPTY_CONFIG;
+  } catch (error) {
+    return EMPTY_CONFIG;
+  }
+};
+
+export const saveRuleConfig = (config: ValidationRuleConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const pairOverrides = (config: ValidationRuleConfig, pair: string, pairInfo?: AssetPair): RuleOverrides => {
+  const names = pairInfo ? [pairInfo.name, pairInfo.altname] : [toKrakenPair(pair)];
+  const key = Object.keys(config.pairs).find(candidate => names.includes(toKrakenPair(candidate)));
+  return key ? config.pairs[key] : {};
+};
+
+export const resolveRuleSettings = (
+  config: ValidationRuleConfig,
+  pair: string,
+  strategy?: string,
+  pairInfo?: AssetPair
+): Record<ConfigurableRuleId, RuleSettings> => {
+  const layers = [config.defaults, pairOverrides(config, pair, pairInfo), (strategy && config.strategies[strategy]) || {}];
+  const resolved = { ...DEFAULT_RULE_SETTINGS };
+  (Object.keys(resolved) as ConfigurableRuleId[]).forEach(id => {
+    resolved[id] = layers.reduce<RuleSettings>((settings, layer) => ({ ...settings, ...layer[id] }), resolved[id]);
+  });
+  return resolved;
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const withinHours = (hour: number, { start, end }: { start: number; end: number }) =>
+  start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+
+// Leveraged orders in either direction only tie up margin, so they are sized like buys
+const spendsQuote = ({ trade }: RuleContext) => trade.side === 'buy' || (trade.leverage || 1) > 1;
+
+// $12.50 for USD, 10.50 EUR or 0.00250000 BTC for anything else
+const formatQuote = (value: number, quote: string) =>
+  isSameAsset(quote, 'USD') ? `$${value.toFixed(2)}` : `${value.toFixed(getAssetDecimals(quote))} ${toTicker(quote)}`;
+
+const formatPrice = (price: number, pairInfo?: AssetPair) =>
+  pairInfo ? price.toFixed(pairInfo.priceDecimals) : String(Number(price.toPrecision(6)));
+
+// Largest lot `balance` of the quote pays for, fee and any leverage included
+const affordableAmount = ({ trade, pairInfo, referencePrice, cost }: RuleContext, balance: number) => {
+  const leverage = trade.leverage && trade.leverage > 1 ? trade.leverage : 1;
+  const affordable = balance / (referencePrice * (1 / leverage + cost.feeRate));
+  return pairInfo ? floorToLot(affordable, pairInfo) : affordable;
+};
+
+/** Configurable rules in the order they run; core rules are built by TradeValidator. */
+export const CONFIGURABLE_RULES: ValidationRule[] = [
+  {
+    id: 'tradingHours',
+    label: 'Trading hours',
+    check: ({ settings, now }) => {
+      const hours = settings.tradingHours;
+      if (!hours || withinHours(now.getUTCHours(), hours)) return null;
+      return { status: 'failed', message: `Outside trading hours ${formatHour(hours.start)}-${formatHour(hours.end)} UTC` };
+    }
+  },
+  {
+    id: 'minSize',
+    label: 'Minimum size',
+    check: ({ trade, minSize }) => {
+      if (trade.amount >= minSize) return null;
+      return { status: 'failed', message: `Order size ${trade.amount} is below minimum ${minSize} for ${trade.pair}`, adjustedAmount: minSize };
+    }
+  },
+  {
+    id: 'lotPrecision',
+    label: 'Lot precision',
+    check: ({ trade, pairInfo }) => {
+      if (!pairInfo) return { status: 'skipped', message: 'No pair metadata' };
+      const floored = floorToLot(trade.amount, pairInfo);
+      if (floored === trade.amount) return null;
+      return {
+        status: 'failed',
+        message: `Order size ${trade.amount} has more than ${pairInfo.lotDecimals} decimals for ${trade.pair}`,
+        adjustedAmount: floored
+      };
+    }
+  },
+  {
+    // Minimum cost is in the quote currency, like the order's price
+    id: 'minCost',
+    label: 'Minimum cost',
+    check: ({ trade, pairInfo, quote, price, marketPrice }) => {
+      const costPrice = price || marketPrice;
+      if (!pairInfo?.costMin) return { status: 'skipped', message: 'No minimum cost for this pair' };
+      if (!costPrice) return { status: 'skipped', message: `No ${toTicker(quote)} price to check against` };
+      if (trade.amount * costPrice >= pairInfo.costMin) return null;
+      return {
+        status: 'failed',
+        message: `Order value ${(trade.amount * costPrice).toFixed(pairInfo.priceDecimals)} is below minimum ${pairInfo.costMin} ${toTicker(quote)} for ${trade.pair}`,
+        adjustedAmount: Math.ceil((pairInfo.costMin / costPrice) * 10 ** pairInfo.lotDecimals) / 10 ** pairInfo.lotDecimals
+      };
+    }
+  },
+  {
+    // Fat-finger check for limit prices that would cross far into the book. A
+    // passive price only rests, and trigger prices are meant to sit away from
+    // the market. The book's mid is the live price; the oracle's market price
+    // stands in without one.
+    id: 'priceBand',
+    label: 'Price band',
+    check: ({ trade, settings, pairInfo, price, marketPrice, orderBook }) => {
+      if (!price) return { status: 'skipped', message: 'Market order' };
+      if (trade.orderType && trade.orderType !== 'limit') return { status: 'skipped', message: 'Trigger orders are not banded' };
+      const mid = orderBook ? midPrice(orderBook) : undefined;
+      const reference = mid ?? marketPrice;
+      if (reference === undefined) return { status: 'skipped', message: 'No comparable market price' };
+      if (trade.side === 'buy' ? price <= reference : price >= reference) return null;
+      const deviation = Math.abs(price - reference) / reference;
+      const describe = (limit: number) =>
+        `Price ${price} is ${(deviation * 100).toFixed(1)}% ${trade.side === 'buy' ? 'above' : 'below'} the ${mid !== undefined ? 'mid' : 'market'} price ${formatPrice(reference, pairInfo)}, more than ${(limit * 100).toFixed(1)}%`;
+
+      if (settings.confirmDeviation !== undefined && deviation > settings.confirmDeviation) {
+        return { status: 'failed', message: describe(settings.confirmDeviation), needsConfirmation: true };
+      }
+      const maxDeviation = settings.maxDeviation ?? DEFAULT_RULE_SETTINGS.priceBand.maxDeviation;
+      if (deviation <= maxDeviation) return null;
+      return { status: 'failed', message: describe(maxDeviation) };
+    }
+  },
+  {
+    id: 'riskLimits',
+    label: 'Risk limits',
+    // Catches misplaced decimals: past a confirmation threshold the order waits
+    // for the user instead of being shrunk to fit
+    check: ({ trade, settings, pairInfo, referencePrice, quoteUsd, portfolioValue }) => {
+      const leverage = trade.leverage || 1;
+      if (settings.maxLeverage !== undefined && leverage > settings.maxLeverage) {
+        return { status: 'failed', message: `Leverage ${leverage}x is above the ${settings.maxLeverage}x limit` };
+      }
+      const { maxNotional, confirmNotional, maxBalanceShare, confirmBalanceShare } = settings;
+      if ([maxNotional, confirmNotional, maxBalanceShare, confirmBalanceShare].every(limit => limit === undefined)) return null;
+      if (referencePrice === undefined || !quoteUsd) return { status: 'skipped', message: 'No USD price to value the order' };
+
+      const usdPrice = referencePrice * quoteUsd;
+      const notional = trade.amount * usdPrice;
+      const share = portfolioValue > 0 ? notional / portfolioValue : undefined;
+      const overShare = (limit: number) =>
+        `Order value $${notional.toFixed(2)} is ${(share * 100).toFixed(1)}% of the $${portfolioValue.toFixed(2)} available, more than ${(limit * 100).toFixed(1)}%`;
+      const shrinkTo = (usd: number) => {
+        const affordable = usd / usdPrice;
+        return pairInfo ? floorToLot(affordable, pairInfo) : affordable;
+      };
+
+      if (confirmNotional !== undefined && notional > confirmNotional) {
+        return { status: 'failed', message: `Order value $${notional.toFixed(2)} is above $${confirmNotional.toFixed(2)}`, needsConfirmation: true };
+      }
+      if (confirmBalanceShare !== undefined && share !== undefined && share > confirmBalanceShare) {
+        return { status: 'failed', message: overShare(confirmBalanceShare), needsConfirmation: true };
+      }
+      if (maxNotional !== undefined && notional > maxNotional) {
+        return {
+          status: 'failed',
+          message: `Order value $${notional.toFixed(2)} is above the $${maxNotional.toFixed(2)} limit`,
+          adjustedAmount: shrinkTo(maxNotional)
+        };
+      }
+      if (maxBalanceShare !== undefined && share !== undefined && share > maxBalanceShare) {
+        return { status: 'failed', message: overShare(maxBalanceShare), adjustedAmount: shrinkTo(portfolioValue * maxBalanceShare) };
+      }
+      return null;
+    }
+  },
+  {
+    // Resting orders name their own price; only market orders take whatever the book offers
+    id: 'slippage',
+    label: 'Slippage',
+    check: ({ trade, settings, pairInfo, base, minSize, orderBook, slippage }) => {
+      if ((trade.orderType || 'market') !== 'market') return { status: 'skipped', message: 'Not a market order' };
+      if (!orderBook || !slippage) return { status: 'skipped', message: 'No order book to estimate against' };
+      const maxBps = settings.maxSlippageBps ?? DEFAULT_RULE_SETTINGS.slippage.maxSlippageBps;
+      const complete = slippage.filledVolume >= slippage.volume;
+      if (complete && slippage.impactBps <= maxBps) return null;
+
+      const within = maxVolumeWithin(orderBook, trade.side, maxBps);
+      const adjustedAmount = pairInfo ? floorToLot(within, pairInfo) : within;
+      return {
+        status: 'failed',
+        message: complete
+          ? `Expected slippage ${slippage.impactBps.toFixed(1)} bps (average ${formatPrice(slippage.averagePrice, pairInfo)}, worst ${formatPrice(slippage.worstPrice, pairInfo)}) is above the ${maxBps} bps limit`
+          : `Order book depth only covers ${slippage.filledVolume.toFixed(6)} of ${trade.amount} ${toTicker(base)}`,
+        adjustedAmount: adjustedAmount >= minSize ? adjustedAmount : undefined
+      };
+    }
+  },
+  {
+    id: 'balance',
+    label: 'Balance',
+    check: context => {
+      const { trade, base, quote, cost, minSize, balanceOf } = context;
+      if (!spendsQuote(context)) {
+        const baseBalance = balanceOf(base);
+        if (baseBalance >= trade.amount) return null;
+        const adjustedAmount = Math.max(baseBalance * 0.95, minSize); // Leave 5% buffer
+        return {
+          status: 'failed',
+          message: `Insufficient ${toTicker(base)} balance. Adjusting amount to ${adjustedAmount.toFixed(6)}`,
+          adjustedAmount,
+          requiredBalance: trade.amount,
+          availableBalance: baseBalance
+        };
+      }
+
+      if (!cost) return { status: 'skipped', message: 'No price to cost the order' };
+      // Kraken only spends the pair's own quote currency, whatever else the account holds
+      const quoteBalance = balanceOf(quote);
+      if (quoteBalance >= cost.margin) return null;
+      const adjustedAmount = affordableAmount(context, quoteBalance);
+      const shortfall = `Insufficient ${toTicker(quote)} balance. Required: ${formatQuote(cost.margin, quote)}, Available: ${formatQuote(quoteBalance, quote)}`;
+      return {
+        status: 'failed',
+        message: adjustedAmount >= minSize ? `${shortfall}. Adjusting amount to ${adjustedAmount.toFixed(6)}` : shortfall,
+        adjustedAmount: adjustedAmount >= minSize ? adjustedAmount : undefined,
+        requiredBalance: cost.margin,
+        availableBalance: quoteBalance
+      };
+    }
+  },
+  {
+    // Kraken takes the fee in the quote currency on top of the order, so the
+    // balance has to cover both
+    id: 'feeHeadroom',
+    label: 'Fee headroom',
+    check: context => {
+      const { quote, cost, minSize, balanceOf } = context;
+      if (!spendsQuote(context)) return { status: 'skipped', message: 'Sell fees come out of the proceeds' };
+      if (!cost) return { status: 'skipped', message: 'No price to cost the order' };
+
+      // The balance covers the order but not its fee: shrink it to fit rather than have Kraken refuse it
+      const quoteBalance = balanceOf(quote);
+      if (quoteBalance < cost.margin || quoteBalance >= cost.total) return null;
+      const adjustedAmount = affordableAmount(context, quoteBalance);
+      if (adjustedAmount >= minSize) {
+        return {
+          status: 'failed',
+          message: `${toTicker(quote)} balance does not cover the ${(cost.feeRate * 100).toFixed(2)}% fee. Adjusting amount to ${adjustedAmount.toFixed(6)}`,
+          adjustedAmount,
+          requiredBalance: cost.total,
+          availableBalance: quoteBalance
+        };
+      }
+      return {
+        status: 'failed',
+        message: `Insufficient ${toTicker(quote)} balance. Required: ${formatQuote(cost.total, quote)} including ${formatQuote(cost.fee, quote)} fee, Available: ${formatQuote(quoteBalance, quote)}`,
+        requiredBalance: cost.total,
+        availableBalance: quoteBalance
+      };
+    }
+  }
+];
+
+export const RULE_LABELS: Record<RuleId, string> = {
+  amount: 'Positive amount',
+  orderOptions: 'Order options',
+  pairStatus: 'Pair status',
+  price: 'Price available',
+  ...Object.fromEntries(CONFIGURABLE_RULES.map(rule => [rule.id, rule.label])) as Record<ConfigurableRuleId, string>
+};
+
+/**
+ * Runs core rules as errors, then each configurable rule with its resolved
+ * settings. Every rule is reported, so callers can show all failures at once.
+ * Findings over a confirmation threshold block whatever the rule's severity,
+ * and only warn once the trade is confirmed.
+ */
+export const runRules = (
+  coreRules: ValidationRule[],
+  settings: Record<ConfigurableRuleId, RuleSettings>,
+  buildContext: (settings: RuleSettings) => RuleContext
+): RuleOutcome[] => {
+  const core = coreRules.map(rule => ({ rule, settings: CORE_RULE_SETTINGS }));
+  const configurable = CONFIGURABLE_RULES.map(rule => ({ rule, settings: settings[rule.id as ConfigurableRuleId] }));
+  return [...core, ...configurable].map(({ rule, settings: ruleSettings }): RuleOutcome => {
+    if (!ruleSettings.enabled) return { rule: rule.id, status: 'disabled', severity: ruleSettings.severity };
+    const context = buildContext(ruleSettings);
+    const finding = rule.check(context);
+    if (!finding) return { rule: rule.id, status: 'passed', severity: ruleSettings.severity };
+    if (finding.needsConfirmation) {
+      return { rule: rule.id, ...finding, severity: context.trade.confirmed ? 'warning' : 'error' };
+    }
+    return { rule: rule.id, severity: ruleSettings.severity, ...finding };
+  });
+};
@@ -0,0 +1,71 @@
+import { AssetPair, OrderBook } from '@/services/marketData';
+import { PriceQuote, PriceSnapshot } from '@/services/priceOracle';
+import { ValidationRuleConfig } from '@/services/validationRules';
+
+// Shapes and limits as Kraken's AssetPairs lists them
+export const BTC_USD: AssetPair = {
+  name: 'XXBTZUSD',
+  symbol: 'BTC/USD',
+  altname: 'XBTUSD',
+  wsname: 'XBT/USD',
+  base: 'XXBT',
+  quote: 'ZUSD',
+  orderMin: 0.0001,
+  costMin: 0.5,
+  lotDecimals: 8,
+  priceDecimals: 1,
+  tickSize: 0.1,
+  status: 'online'
+};
+
+export const ETH_USD: AssetPair = {
+  name: 'XETHZUSD',
+  symbol: 'ETH/USD',
+  altname: 'ETHUSD',
+  wsname: 'ETH/USD',
+  base: 'XETH',
+  quote: 'ZUSD',
+  orderMin: 0.002,
+  costMin: 0.5,
+  lotDecimals: 8,
+  priceDecimals: 2,
+  tickSize: 0.01,
+  status: 'online'
+};
+
+export const ETH_BTC: AssetPair = {
+  name: 'XETHXXBT',
+  symbol: 'ETH/BTC',
+  altname: 'ETHXBT',
+  wsname: 'ETH/XBT',
+  base: 'XETH',
+  quote: 'XXBT',
+  orderMin: 0.002,
+  costMin: 0.00002,
+  lotDecimals: 8,
+  priceDecimals: 5,
+  tickSize: 0.00001,
+  status: 'online'
+};
+
+export const ASSET_PAIRS = [BTC_USD, ETH_USD, ETH_BTC];
+
+export const EMPTY_RULE_CONFIG: ValidationRuleConfig = { defaults: {}, pairs: {}, strategies: {} };
+
+/** Fresh oracle prices, in USD per unit, keyed by ticker. */
+export const priceSnapshot = (prices: { [ticker: string]: number }): PriceSnapshot => {
+  const quotes = new Map<string, PriceQuote>(Object.entries(prices).map(([ticker, usd]) => (
+    [ticker, { ticker, usd, time: Date.now(), source: 'kraken', quotes: [] }]
+  )));
+  return new PriceSnapshot(quotes, 60000);
+};
+
+/** A book `levels` deep each side of `mid`, every level `volume` deep and `step` apart. */
+export const orderBook = (pair: string, mid: number, { levels = 10, step = 1, volume = 1 } = {}): OrderBook => {
+  const side = (direction: 1 | -1) => Array.from({ length: levels }, (_, index) => ({
+    price: mid + direction * step * (index + 0.5),
+    volume,
+    timestamp: 0
+  }));
+  return { pair, bids: side(-1), asks: side(1) };
+};
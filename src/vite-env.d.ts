@@ -0,0 +1,23 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BINANCE_API_URL?: string;
+  readonly VITE_KUCOIN_API_URL?: string;
+  readonly VITE_KRAKEN_API_URL?: string;
+  readonly VITE_KRAKEN_PUBLIC_URL?: string;
+  readonly VITE_KRAKEN_TRANSPORT?: 'edge' | 'direct';
+  readonly VITE_KRAKEN_WS_URL?: string;
+  readonly VITE_KRAKEN_WS_AUTH_URL?: string;
+  readonly VITE_COINGECKO_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+type LogErrorFn = (type: 'error' | 'warning' | 'info', message: string, details?: string, source?: string) => void;
+
+interface Window {
+  // Installed by ErrorLogger while it is mounted
+  logError?: LogErrorFn;
+}
@@ -0,0 +1,227 @@
+// The `kraken-api` edge function behind KrakenService's edge transport. It
+// proxies private calls to Kraken's REST API, signing them with the caller's
+// API key, which is kept encrypted in `exchange_credentials`. The browser
+// only ever sends its Supabase session token, plus the key and secret once
+// when saving them.
+//
+// Function secrets (`supabase secrets set ...`):
+//   CREDENTIALS_ENCRYPTION_KEY  base64 AES-256 key, e.g. `openssl rand -base64 32`
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided by the runtime.
+
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const KRAKEN_API_URL = 'https://api.kraken.com';
+const EXCHANGE = 'kraken';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// KrakenService actions to Kraken's private methods; keep in step with
+// PRIVATE_METHODS in src/lib/krakenApi.ts
+const PRIVATE_METHODS: { [action: string]: string } = {
+  getBalance: 'Balance',
+  getBalanceEx: 'BalanceEx',
+  tradeVolume: 'TradeVolume',
+  placeOrder: 'AddOrder',
+  editOrder: 'EditOrder',
+  cancelOrder: 'CancelOrder',
+  cancelAll: 'CancelAll',
+  cancelAllOrdersAfter: 'CancelAllOrdersAfter',
+  openOrders: 'OpenOrders',
+  closedOrders: 'ClosedOrders',
+  queryOrders: 'QueryOrders',
+  tradesHistory: 'TradesHistory',
+  ledgers: 'Ledgers',
+  getWebSocketsToken: 'GetWebSocketsToken'
+};
+
+// Body fields that belong to this function, never forwarded to Kraken
+const RESERVED_FIELDS = ['action', 'apiKey', 'apiSecret', 'nonce'];
+
+interface KrakenEnvelope {
+  error: string[];
+  result?: unknown;
+}
+
+interface Credentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+const ok = (result: unknown): KrakenEnvelope => ({ error: [], result });
+const fail = (message: string): KrakenEnvelope => ({ error: [message] });
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+});
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+let encryptionKey: Promise<CryptoKey> | null = null;
+
+const getEncryptionKey = (): Promise<CryptoKey> => {
+  if (!encryptionKey) {
+    const raw = Deno.env.get('CREDENTIALS_ENCRYPTION_KEY');
+    if (!raw) throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set');
+    encryptionKey = crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+  return encryptionKey;
+};
+
+// Stored as base64 IV and ciphertext joined by a dot
+const encrypt = async (plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getEncryptionKey(), encoder.encode(plaintext));
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+const decrypt = async (stored: string): Promise<string> => {
+  const [iv, ciphertext] = stored.split('.');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, await getEncryptionKey(), fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+};
+
+// API-Sign: HMAC-SHA512 of the path followed by SHA-256(nonce + POST data),
+// keyed with the base64-decoded secret
+const sign = async (path: string, nonce: string, postData: string, secret: string): Promise<string> => {
+  const pathBytes = encoder.encode(path);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(nonce + postData)));
+  const message = new Uint8Array(pathBytes.length + digest.length);
+  message.set(pathBytes);
+  message.set(digest, pathBytes.length);
+  const key = await crypto.subtle.importKey('raw', fromBase64(secret), { name: 'HMAC', hash: 'SHA-512' }, false, ['sign']);
+  return toBase64(new Uint8Array(await crypto.subtle.sign('HMAC', key, message)));
+};
+
+// Microseconds, so calls within the same millisecond still increase. Separate
+// isolates keep separate counters; a nonce window on the key absorbs the overlap.
+let lastNonce = 0;
+
+const nextNonce = (): string => {
+  lastNonce = Math.max(Date.now() * 1000, lastNonce + 1);
+  return lastNonce.toString();
+};
+
+const callKraken = async (method: string, params: Record<string, unknown>, { apiKey, apiSecret }: Credentials): Promise<KrakenEnvelope> => {
+  const path = `/0/private/${method}`;
+  const nonce = nextNonce();
+  const form = new URLSearchParams({ nonce });
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && !RESERVED_FIELDS.includes(key)) form.append(key, String(value));
+  });
+  const postData = form.toString();
+
+  const response = await fetch(`${KRAKEN_API_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8',
+      'API-Key': apiKey,
+      'API-Sign': await sign(path, nonce, postData, apiSecret)
+    },
+    body: postData
+  });
+  if (!response.ok) throw new Error(`Kraken returned HTTP ${response.status}`);
+  return response.json();
+};
+
+const loadCredentials = async (supabase: SupabaseClient, userId: string): Promise<Credentials | null> => {
+  const { data, error } = await supabase
+    .from('exchange_credentials')
+    .select('api_key, api_secret')
+    .eq('user_id', userId)
+    .eq('exchange', EXCHANGE)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load credentials: ${error.message}`);
+  if (!data) return null;
+  return { apiKey: await decrypt(data.api_key), apiSecret: await decrypt(data.api_secret) };
+};
+
+const credentialStatus = async (supabase: SupabaseClient, userId: string): Promise<KrakenEnvelope> => {
+  const { data, error } = await supabase
+    .from('exchange_credentials')
+    .select('key_hint, updated_at')
+    .eq('user_id', userId)
+    .eq('exchange', EXCHANGE)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load credentials: ${error.message}`);
+  return ok({ configured: !!data, keyHint: data?.key_hint, updatedAt: data?.updated_at });
+};
+
+// Keys are checked against Kraken before they are stored, so a typo fails here
+// rather than on the first trade
+const saveCredentials = async (supabase: SupabaseClient, userId: string, body: Record<string, unknown>): Promise<KrakenEnvelope> => {
+  const apiKey = typeof body.apiKey === 'string' ? body.apiKey.trim() : '';
+  const apiSecret = typeof body.apiSecret === 'string' ? body.apiSecret.trim() : '';
+  if (!apiKey || !apiSecret) return fail('EGeneral:Invalid arguments:apiKey');
+
+  const check = await callKraken('Balance', {}, { apiKey, apiSecret });
+  if (check.error?.length) return check;
+
+  const keyHint = apiKey.slice(-4);
+  const { error } = await supabase.from('exchange_credentials').upsert({
+    user_id: userId,
+    exchange: EXCHANGE,
+    api_key: await encrypt(apiKey),
+    api_secret: await encrypt(apiSecret),
+    key_hint: keyHint,
+    updated_at: new Date().toISOString()
+  });
+  if (error) throw new Error(`Failed to store credentials: ${error.message}`);
+  return credentialStatus(supabase, userId);
+};
+
+const deleteCredentials = async (supabase: SupabaseClient, userId: string): Promise<KrakenEnvelope> => {
+  const { error } = await supabase.from('exchange_credentials').delete().eq('user_id', userId).eq('exchange', EXCHANGE);
+  if (error) throw new Error(`Failed to delete credentials: ${error.message}`);
+  return ok({ configured: false });
+};
+
+Deno.serve(async req => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ message: 'Method not allowed' }, 405);
+
+  const body = await req.json().catch(() => null) as Record<string, unknown> | null;
+  const action = typeof body?.action === 'string' ? body.action : '';
+  if (!body || !action) return json(fail('EGeneral:Invalid arguments:action'));
+
+  // Service role: the table has no policies, so only this function can read it
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false }
+  });
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+  if (!user) return json(fail('ESession:Not signed in'));
+
+  try {
+    if (action === 'saveCredentials') return json(await saveCredentials(supabase, user.id, body));
+    if (action === 'deleteCredentials') return json(await deleteCredentials(supabase, user.id));
+    if (action === 'credentialStatus') return json(await credentialStatus(supabase, user.id));
+
+    const method = PRIVATE_METHODS[action];
+    if (!method) return json(fail(`EGeneral:Unknown action ${action}`));
+
+    const credentials = await loadCredentials(supabase, user.id);
+    if (!credentials) return json(fail('ESession:No credentials'));
+
+    return json(await callKraken(method, body, credentials));
+  } catch (error) {
+    // Non-2xx: the client treats it as a lost response, since Kraken may have acted on it
+    console.error(`kraken-api ${action} failed`, error);
+    return json({ message: error instanceof Error ? error.message : 'Unknown error' }, 502);
+  }
+});
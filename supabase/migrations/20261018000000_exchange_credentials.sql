@@ -0,0 +1,16 @@
+-- Exchange API keys, one set per user and exchange. The kraken-api edge
+-- function encrypts both the key and the secret (AES-GCM) before storing them.
+create table if not exists public.exchange_credentials (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  exchange text not null,
+  api_key text not null,
+  api_secret text not null,
+  key_hint text not null, -- Last four characters of the key, for display
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, exchange)
+);
+
+-- No policies on purpose: only the service role used by the edge function can
+-- read or write credentials, never the browser's anon or user session
+alter table public.exchange_credentials enable row level security;